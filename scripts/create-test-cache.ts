@@ -39,7 +39,7 @@ async function main() {
     id: "test_library",
     source: "github",
     repo: "test/library",
-    branch: "main",
+    ref: "main",
     indexed_at: new Date().toISOString(),
     page_count: 2,
     total_size_bytes: 1801,
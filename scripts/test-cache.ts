@@ -49,7 +49,7 @@ async function main() {
       id: "test_repo",
       source: "github",
       repo: "test/repo",
-      branch: "main",
+      ref: "main",
       indexed_at: new Date().toISOString(),
       page_count: 2,
       total_size_bytes: 1801,
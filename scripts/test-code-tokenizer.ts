@@ -0,0 +1,128 @@
+/**
+ * Test script for the code tokenizer and search_code.
+ *
+ * Tests:
+ * 1. Identifiers are kept whole and split into their parts
+ * 2. Searching code blocks by identifier (offline, local docs set)
+ * 3. Language filter
+ * 4. Ranking code blocks builds no snippets
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  SearchIndex,
+  createIndexableDocument,
+  tokenizeCode,
+} from "../src/services/search-index.js";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { searchCode } from "../src/tools/search-code.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Checks that the tokens of a text include all expected tokens.
+ */
+function hasTokens(text: string, expected: string[]): void {
+  const tokens = tokenizeCode(text);
+  check(expected.every((token) => tokens.includes(token)), `${text} -> ${tokens.join(", ")}`);
+}
+
+const DOC = `# Schemas
+
+Define a schema with objects.
+
+\`\`\`ts
+const User = z.object({ name: z.string() });
+\`\`\`
+
+## Effects
+
+\`\`\`tsx
+useEffect(() => subscribe(), []);
+\`\`\`
+
+## Python
+
+\`\`\`python
+def parse_user_input(raw):
+    return raw
+\`\`\`
+`;
+
+async function main() {
+  console.log("=== Code Tokenizer Test ===\n");
+
+  // Test 1
+  console.log("1. Tokens...");
+  hasTokens("z.object()", ["z.object", "z", "object"]);
+  hasTokens("useEffect", ["useEffect", "use", "Effect"]);
+  hasTokens("snake_case_name", ["snake_case_name", "snake", "case", "name"]);
+  hasTokens("parseHTTPResponse", ["parseHTTPResponse", "parse", "HTTP", "Response"]);
+  hasTokens("$state", ["$state"]);
+  check(tokenizeCode("a + b").join(" ") === "a b", "Operators are dropped");
+  console.log("");
+
+  const dir = mkdtempSync(join(tmpdir(), "code-test-"));
+  writeFileSync(join(dir, "schemas.md"), DOC);
+
+  let docsId: string | undefined;
+  try {
+    docsId = (await indexDocs({ url: dir, force_refresh: true })).id;
+
+    // Test 2
+    console.log("2. Searching code...");
+    const object = await searchCode({ docs_id: docsId, query: "z.object" });
+    check(object.results[0]?.code.includes("z.object") === true, "Dotted identifier found");
+    check(object.results[0]?.language === "ts", "Language tag returned");
+    const effect = await searchCode({ docs_id: docsId, query: "Effect" });
+    check(effect.results[0]?.code.includes("useEffect") === true, "camelCase part finds the identifier");
+    const snake = await searchCode({ docs_id: docsId, query: "user_input" });
+    check(snake.results[0]?.language === "python", "snake_case part finds the identifier");
+    console.log("");
+
+    // Test 3
+    console.log("3. Language filter...");
+    const filtered = await searchCode({ docs_id: docsId, query: "useEffect", language: "python" });
+    check(filtered.results.length === 0, "Blocks in other languages are skipped");
+    console.log("");
+
+    // Test 4
+    console.log("4. Many matching sections...");
+    const index = new SearchIndex();
+    for (let i = 0; i < 200; i++) {
+      index.addDocument(createIndexableDocument(`page-${i}.md`, DOC));
+    }
+    const prototype = SearchIndex.prototype as unknown as Record<string, (...args: unknown[]) => string>;
+    const generateSnippet = prototype.generateSnippet;
+    let snippets = 0;
+    prototype.generateSnippet = function (this: unknown, ...args: unknown[]) {
+      snippets++;
+      return generateSnippet.apply(this, args);
+    };
+    const blocks = index.searchCode("z.object", 3);
+    prototype.generateSnippet = generateSnippet;
+    check(blocks.length === 3, `Limit applied (${blocks.length})`);
+    check(snippets === 0, `No snippets built (${snippets})`);
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("local", docsId);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+/**
+ * Test script for get_docs_content token budgets and cursors.
+ *
+ * Tests (offline, one local docs set):
+ * 1. Parts never end with a heading
+ * 2. Parts are not cut inside fenced code blocks
+ * 3. Following next_cursor returns the whole file, in order
+ * 4. Malformed cursors are rejected
+ * 5. Tilde and nested fences, and "#" lines inside code, are respected
+ * 6. Cursors of a section stay within it and keep the budget
+ * 7. Cut parts report their position and token estimates
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { getDocsContent } from "../src/tools/get-content.js";
+import { getDocsTree } from "../src/tools/get-tree.js";
+import { estimateTokens, tokensToChars } from "../src/utils/tokens.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+import { DocsError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const GUIDE = `# Guide
+
+Intro to the router.
+
+## Routing
+
+Dynamic routes use brackets in file names, like [id].tsx, and match any segment.
+
+## Data
+
+Load data in the route module before rendering the page.
+`;
+
+const CODE = `# Setup
+
+Install it first.
+
+\`\`\`bash
+# install the package
+npm install router
+# then start the dev server
+npm run dev
+\`\`\`
+
+Then open the app in a browser.
+`;
+
+const FENCES = `# Fences
+
+Some text before the examples that fills part of the budget.
+
+~~~python
+# a comment, not a heading
+print("one")
+print("two")
+~~~
+
+\`\`\`\`md
+\`\`\`js
+inner();
+\`\`\`
+\`\`\`\`
+
+The end.
+`;
+
+/**
+ * Reads a file part by part, following next_cursor.
+ */
+async function readParts(
+  docsId: string,
+  path: string,
+  maxTokens: number,
+  section?: string
+): Promise<string[]> {
+  const parts: string[] = [];
+  let result = await getDocsContent({ docs_id: docsId, paths: [path], max_tokens: maxTokens, section });
+
+  for (let i = 0; i < 50; i++) {
+    const file = result.contents[path];
+    parts.push(file.content);
+    if (!file.next_cursor) break;
+    result = await getDocsContent({ docs_id: docsId, cursor: file.next_cursor, max_tokens: maxTokens });
+  }
+  return parts;
+}
+
+/**
+ * Checks if a part ends inside an unclosed code fence.
+ */
+function endsInFence(part: string): boolean {
+  let fence: string | null = null;
+  for (const line of part.split("\n")) {
+    const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1];
+    if (!marker) continue;
+    if (fence === null) {
+      fence = marker;
+    } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+      fence = null;
+    }
+  }
+  return fence !== null;
+}
+
+async function main() {
+  console.log("=== Content Budget Test ===\n");
+
+  const dir = mkdtempSync(join(tmpdir(), "budget-test-"));
+  writeFileSync(join(dir, "guide.md"), GUIDE);
+  writeFileSync(join(dir, "setup.md"), CODE);
+  writeFileSync(join(dir, "fences.md"), FENCES);
+
+  let docsId: string | undefined;
+  try {
+    docsId = (await indexDocs({ url: dir, force_refresh: true })).id;
+
+    // Test 1
+    console.log("1. Headings...");
+    for (const maxTokens of [10, 15, 20, 25, 30]) {
+      const parts = await readParts(docsId, "guide.md", maxTokens);
+      const last = (part: string) => part.trimEnd().split("\n").pop() ?? "";
+      check(
+        parts.every((part) => !/^#{1,6}\s/.test(last(part))),
+        `No part ends with a heading at max_tokens ${maxTokens} (${parts.length} parts)`
+      );
+    }
+    const first = (await readParts(docsId, "guide.md", 20))[0];
+    check(!first.includes("## Routing"), `First part at max_tokens 20 stops before "## Routing"`);
+    console.log("");
+
+    // Test 2
+    console.log("2. Code blocks...");
+    for (const maxTokens of [25, 30, 40]) {
+      const parts = await readParts(docsId, "setup.md", maxTokens);
+      check(
+        parts.slice(0, -1).every((part) => !endsInFence(part)),
+        `No part is cut inside the code block at max_tokens ${maxTokens} (${parts.length} parts)`
+      );
+    }
+    const small = await readParts(docsId, "setup.md", 15);
+    check(
+      small.length > 2 && small[0].endsWith("Install it first."),
+      `A code block over the budget starts a new part and is split (${small.length} parts)`
+    );
+    console.log("");
+
+    // Test 3
+    console.log("3. Cursors...");
+    for (const [path, text] of [["guide.md", GUIDE], ["setup.md", CODE]]) {
+      const parts = await readParts(docsId, path, 12);
+      const chars = (value: string) => value.replace(/\s/g, "");
+      check(chars(parts.join("")) === chars(text), `Parts of ${path} add up to the file`);
+    }
+    console.log("");
+
+    // Test 4
+    console.log("4. Malformed cursors...");
+    for (const cursor of ["not-a-cursor", Buffer.from('{"p":1}').toString("base64url")]) {
+      const error = await getDocsContent({ docs_id: docsId, cursor }).catch((e) => e);
+      check(
+        error instanceof DocsError && error.code === "VALIDATION_ERROR",
+        `"${cursor}" is rejected`
+      );
+    }
+    console.log("");
+
+    // Test 5
+    console.log("5. Other fences...");
+    for (const maxTokens of [20, 25, 30, 40]) {
+      const parts = await readParts(docsId, "fences.md", maxTokens);
+      check(
+        parts.slice(0, -1).every((part) => !endsInFence(part)),
+        `No part is cut inside a ~~~ or \`\`\`\` block at max_tokens ${maxTokens} (${parts.length} parts)`
+      );
+    }
+    const beforeComment = (await readParts(docsId, "fences.md", 30))[0];
+    check(
+      !beforeComment.trimEnd().endsWith("~~~python"),
+      'A "#" line inside code is not taken for a heading'
+    );
+    console.log("");
+
+    // Test 6
+    console.log("6. Cursors within a section...");
+    const sectionParts = await readParts(docsId, "guide.md", 8, "Routing");
+    const sectionText = sectionParts.join("\n");
+    check(sectionParts.length > 1, `Section cut into parts (${sectionParts.length})`);
+    check(
+      sectionText.includes("any segment") && !sectionText.includes("## Data"),
+      "Parts end where the section ends"
+    );
+    check(
+      sectionParts.every((part) => part.length <= tokensToChars(8)),
+      "Every part keeps the budget of the first request"
+    );
+    const opening = await getDocsContent({ docs_id: docsId, paths: ["guide.md"], max_tokens: 8 });
+    const wider = await getDocsContent({
+      docs_id: docsId,
+      cursor: opening.contents["guide.md"].next_cursor,
+      max_tokens: 1000,
+    });
+    check(
+      wider.contents["guide.md"]?.content.trimEnd().endsWith("rendering the page.") === true &&
+        !wider.contents["guide.md"].next_cursor,
+      "max_tokens given with a cursor replaces the budget"
+    );
+    console.log("");
+
+    // Test 7
+    console.log("7. Positions and estimates...");
+    const cut = opening.contents["guide.md"];
+    check(cut.truncated === true && !!cut.next_cursor, "Cut part is marked truncated");
+    check(
+      cut.range?.line_start === 1 &&
+        cut.range.line_end === cut.content.split("\n").length &&
+        cut.range.byte_end === Buffer.byteLength(cut.content),
+      `Range of the cut part reported (lines ${cut.range?.line_start}-${cut.range?.line_end})`
+    );
+    check(
+      cut.estimated_tokens === estimateTokens(GUIDE),
+      `Estimated tokens of the whole file reported (${cut.estimated_tokens})`
+    );
+    const whole = (await getDocsContent({ docs_id: docsId, paths: ["guide.md"], max_tokens: 1000 }))
+      .contents["guide.md"];
+    check(!whole.truncated && !whole.next_cursor, "Content within the budget is not cut");
+    const tree = await getDocsTree({ docs_id: docsId });
+    const node = tree.tree.find((n) => n.path === "guide.md");
+    check(
+      node?.estimated_tokens === cut.estimated_tokens,
+      `Tree nodes report the same estimate (${node?.estimated_tokens})`
+    );
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("local", docsId);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
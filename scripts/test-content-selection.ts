@@ -0,0 +1,169 @@
+/**
+ * Test script for selecting part of a file with get_docs_content.
+ *
+ * Tests (offline, one local docs set):
+ * 1. Sections by heading path, anchor, or fuzzy heading path
+ * 2. A section runs until the next heading of its level or higher
+ * 3. Line ranges, clamped to the file
+ * 4. Byte ranges never split a UTF-8 character
+ * 5. Missing sections and ranges are reported per path
+ * 6. Only one way of selecting at a time
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { getDocsContent, type GetDocsContentInput } from "../src/tools/get-content.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+import { DocsError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const GUIDES = `# Guides
+
+Start here.
+
+## Routing
+
+Routes map URLs to pages.
+
+### Dynamic routes
+
+Use [id] in file names.
+
+### Static routes
+
+Plain file names.
+
+## Data Fetching
+
+Load data before rendering.
+
+### Routing data
+
+Data for a route.
+`;
+
+const UNICODE = "# Café\n\nNaïve résumé ✓\n";
+
+async function main() {
+  console.log("=== Content Selection Test ===\n");
+
+  const dir = mkdtempSync(join(tmpdir(), "selection-test-"));
+  writeFileSync(join(dir, "guides.md"), GUIDES);
+  writeFileSync(join(dir, "unicode.md"), UNICODE);
+
+  let docsId: string | undefined;
+  try {
+    docsId = (await indexDocs({ url: dir, force_refresh: true })).id;
+    const id = docsId;
+
+    /**
+     * Gets one file with a selection.
+     */
+    const get = async (path: string, selection: Partial<GetDocsContentInput>) => {
+      const output = await getDocsContent({ docs_id: id, paths: [path], ...selection });
+      return { file: output.contents[path], error: output.selection_errors?.[path] };
+    };
+
+    // Test 1
+    console.log("1. Finding sections...");
+    const exact = (await get("guides.md", { section: "Guides > Routing > Dynamic routes" })).file;
+    check(exact?.section?.match === "exact", "Full heading path matches exactly");
+    check(exact?.content.startsWith("### Dynamic routes") === true, "Content starts at the heading");
+    const tail = (await get("guides.md", { section: "Routing > Dynamic routes" })).file;
+    check(tail?.section?.anchor === "dynamic-routes", "End of the heading path matches exactly");
+    const anchor = (await get("guides.md", { section: "#static-routes" })).file;
+    check(anchor?.section?.heading === "Static routes", "Anchor matches");
+    const fuzzy = (await get("guides.md", { section: "guides > dynamic" })).file;
+    check(
+      fuzzy?.section?.match === "fuzzy" && fuzzy.section.anchor === "dynamic-routes",
+      `Fuzzy heading path skips levels (${fuzzy?.section?.anchor})`
+    );
+    const nested = (await get("guides.md", { section: "data > routing" })).file;
+    check(
+      nested?.section?.anchor === "routing-data",
+      `Earlier segments pick the branch (${nested?.section?.anchor})`
+    );
+    console.log("");
+
+    // Test 2
+    console.log("2. Section extent...");
+    const routing = (await get("guides.md", { section: "Routing" })).file;
+    check(
+      routing?.content.includes("Plain file names.") === true &&
+        !routing.content.includes("## Data Fetching"),
+      "Section includes subsections and stops at the next sibling"
+    );
+    check(
+      routing?.range?.line_start === 5 && routing.range.line_end === 16,
+      `Line range reported (${routing?.range?.line_start}-${routing?.range?.line_end})`
+    );
+    check(routing?.range?.total_lines === GUIDES.split("\n").length, "File length reported");
+    console.log("");
+
+    // Test 3
+    console.log("3. Line ranges...");
+    const lines = (await get("guides.md", { line_start: 3, line_end: 5 })).file;
+    check(lines?.content === "Start here.\n\n## Routing", "Lines returned inclusively");
+    check(
+      lines?.range?.byte_start === GUIDES.indexOf("Start here."),
+      `Byte offset of the first line reported (${lines?.range?.byte_start})`
+    );
+    const clamped = (await get("guides.md", { line_start: 20, line_end: 1000 })).file;
+    check(clamped?.range?.line_end === GUIDES.split("\n").length, "End clamped to the file");
+    console.log("");
+
+    // Test 4
+    console.log("4. Byte ranges...");
+    const midChar = Buffer.from(UNICODE).indexOf(Buffer.from("é")) + 1;
+    const bytes = (await get("unicode.md", { byte_offset: midChar, byte_length: 6 })).file;
+    check(
+      bytes?.content === "\n\nNaï",
+      `Range moved to whole characters at both ends (${JSON.stringify(bytes?.content)})`
+    );
+    check(bytes?.range?.byte_start === midChar + 1, "Moved start reported");
+    const rest = (await get("unicode.md", { byte_offset: Buffer.byteLength("# Café\n\n") })).file;
+    check(rest?.content === "Naïve résumé ✓\n", "Offset without length runs to the end");
+    console.log("");
+
+    // Test 5
+    console.log("5. Missing selections...");
+    const missing = await get("guides.md", { section: "Deployment" });
+    check(!missing.file && !!missing.error?.includes("Deployment"), `Missing section reported (${missing.error})`);
+    const outside = await get("guides.md", { line_start: 500 });
+    check(!outside.file && !!outside.error, `Line range outside the file reported (${outside.error})`);
+    const outsideBytes = await get("unicode.md", { byte_offset: 10_000 });
+    check(!outsideBytes.file && !!outsideBytes.error, "Byte range outside the file reported");
+    console.log("");
+
+    // Test 6
+    console.log("6. Conflicting selectors...");
+    const error = await getDocsContent({
+      docs_id: id,
+      paths: ["guides.md"],
+      section: "Routing",
+      line_start: 1,
+    }).catch((e) => e);
+    check(error instanceof DocsError && error.code === "VALIDATION_ERROR", "Section and lines rejected");
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("local", docsId);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
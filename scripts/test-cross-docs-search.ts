@@ -0,0 +1,124 @@
+/**
+ * Test script for searching several docs sets at once.
+ *
+ * Tests (offline, two local docs sets):
+ * 1. The set with the real match ranks first
+ * 2. Scores are normalized within each set
+ * 3. Hits are labeled with docs_id and source
+ * 4. Empty or blank docs_id is rejected with a validation error
+ * 5. Unknown docs_ids are rejected
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { searchDocs } from "../src/tools/search-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+import { DocsError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Writes markdown files to a new temporary directory.
+ */
+function createDocs(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), "cross-search-"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+async function main() {
+  console.log("=== Cross-Docs Search Test ===\n");
+
+  const queryDocs = createDocs({
+    "use-query.md":
+      "# useQuery\n\n## Definition\n\n`useQuery` is defined in the query package. useQuery fetches data and caches it.\n\n```ts\nconst result = useQuery({ queryKey: ['todos'], queryFn: fetchTodos });\n```\n",
+    "mutations.md": "# Mutations\n\nUse mutations to change data on the server.\n",
+  });
+  const otherDocs = createDocs({
+    "routing.md": "# Routing\n\nRoutes are defined in the router file. Each route has a path.\n",
+    "forms.md": "# Forms\n\nForms collect input from users.\n",
+  });
+
+  const ids: string[] = [];
+  try {
+    for (const dir of [queryDocs, otherDocs]) {
+      const result = await indexDocs({ url: dir, force_refresh: true });
+      ids.push(result.id);
+    }
+
+    // Tests 1-3
+    console.log('1. Searching both sets for "where is useQuery defined"...');
+    const output = await searchDocs({ docs_ids: ids, query: "where is useQuery defined" });
+    for (const hit of output.results) {
+      console.log(
+        `   - ${hit.docs_id}/${hit.path} score=${hit.score.toFixed(2)} normalized=${hit.normalized_score?.toFixed(2)}`
+      );
+    }
+
+    const top = output.results[0];
+    check(top?.docs_id === ids[0] && top.path === "use-query.md", "Real match ranks first");
+    check(top?.normalized_score === 1, "Best hit has normalized_score 1");
+
+    console.log("\n2. Normalized scores...");
+    for (const id of ids) {
+      const hits = output.results.filter((hit) => hit.docs_id === id);
+      check(
+        hits[0]?.normalized_score === 1 &&
+          hits.every((hit) => hit.normalized_score === hit.score / hits[0].score),
+        `${id}: relative to its own best hit (${hits.length} hits)`
+      );
+    }
+    const scores = output.results.map((hit) => hit.normalized_score ?? 0);
+    check(
+      scores.every((score, i) => i === 0 || score <= scores[i - 1]),
+      "Merged by normalized score"
+    );
+
+    console.log("\n3. Labels...");
+    check(
+      output.results.every((hit) => hit.source === "local" && ids.includes(hit.docs_id ?? "")),
+      "Every hit has docs_id and source"
+    );
+    check(output.docs_ids?.length === 2, "docs_ids lists both sets");
+
+    // Test 4
+    console.log("\n4. Empty docs_id...");
+    for (const docsId of ["", "   "]) {
+      const error = await searchDocs({ docs_id: docsId, query: "useQuery" }).catch((e) => e);
+      check(
+        error instanceof DocsError && error.code === "VALIDATION_ERROR",
+        `docs_id ${JSON.stringify(docsId)} is rejected (${error?.code ?? error})`
+      );
+    }
+
+    // Test 5
+    console.log("\n5. Unknown docs_ids...");
+    const error = await searchDocs({ docs_ids: [ids[0], "missing_docs"], query: "useQuery" }).catch(
+      (e) => e
+    );
+    check(error instanceof DocsError && error.code === "CACHE_NOT_FOUND", "Unknown ID is rejected");
+  } finally {
+    for (const id of ids) {
+      await cacheManager.clearEntry("local", id);
+    }
+    rmSync(queryDocs, { recursive: true, force: true });
+    rmSync(otherDocs, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
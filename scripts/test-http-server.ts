@@ -0,0 +1,205 @@
+/**
+ * Test script for the HTTP transport.
+ *
+ * Tests (offline, servers on free local ports):
+ * 1. /health answers without a token
+ * 2. Requests without the bearer token are rejected
+ * 3. Foreign Host and Origin headers are rejected (DNS rebinding)
+ * 4. Idle sessions are closed, sessions with an open stream are kept
+ */
+
+import { request, type IncomingHttpHeaders, type ClientRequest } from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { startHttpServer } from "../src/http-server.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+interface Response {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+/**
+ * Sends a request and reads the whole response.
+ */
+function send(
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: unknown } = {}
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: options.method ?? "GET",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...options.headers,
+        },
+      },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+      }
+    );
+    req.on("error", reject);
+    req.end(options.body === undefined ? undefined : JSON.stringify(options.body));
+  });
+}
+
+/**
+ * Opens a GET event stream and leaves it open.
+ */
+function openStream(url: string, headers: Record<string, string>): Promise<ClientRequest> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { headers: { Accept: "text/event-stream", ...headers } }, (res) => {
+      res.resume();
+      resolve(req);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+function createTestServer(): McpServer {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  server.registerTool("ping", { description: "Ping" }, async () => ({
+    content: [{ type: "text", text: "pong" }],
+  }));
+  return server;
+}
+
+async function main() {
+  console.log("=== HTTP Server Test ===\n");
+
+  const secured = await startHttpServer(createTestServer, {
+    port: 0,
+    authToken: "secret",
+    allowedHosts: ["docs.internal.example"],
+  });
+  const auth = { Authorization: "Bearer secret" };
+
+  try {
+    // Test 1
+    console.log("1. Health check...");
+    const health = await send(`${secured.url}/health`);
+    check(health.status === 200, `Health answers without a token (${health.status})`);
+    console.log("");
+
+    // Test 2
+    console.log("2. Bearer token...");
+    const noToken = await send(`${secured.url}/mcp`, { method: "POST", body: INITIALIZE });
+    check(noToken.status === 401, `Missing token is rejected (${noToken.status})`);
+    const wrongToken = await send(`${secured.url}/mcp`, {
+      method: "POST",
+      headers: { Authorization: "Bearer wrong" },
+      body: INITIALIZE,
+    });
+    check(wrongToken.status === 401, `Wrong token is rejected (${wrongToken.status})`);
+    const initialized = await send(`${secured.url}/mcp`, {
+      method: "POST",
+      headers: auth,
+      body: INITIALIZE,
+    });
+    check(
+      initialized.status === 200 && typeof initialized.headers["mcp-session-id"] === "string",
+      `Right token starts a session (${initialized.status})`
+    );
+    console.log("");
+
+    // Test 3
+    console.log("3. Host and Origin headers...");
+    const port = new URL(secured.url).port;
+    const cases: Array<[Record<string, string>, number, string]> = [
+      [{ Host: `attacker.example:${port}` }, 403, "Foreign Host"],
+      [{ Origin: "http://attacker.example" }, 403, "Foreign Origin"],
+      [{ Origin: "null" }, 403, '"null" Origin'],
+      [{ Host: `localhost:${port}`, Origin: `http://localhost:${port}` }, 200, "localhost"],
+      [{ Host: "docs.internal.example", Origin: "https://docs.internal.example" }, 200, "Allowed host"],
+    ];
+    for (const [headers, status, label] of cases) {
+      const response = await send(`${secured.url}/mcp`, {
+        method: "POST",
+        headers: { ...auth, ...headers },
+        body: INITIALIZE,
+      });
+      check(response.status === status, `${label} gets ${status} (${response.status})`);
+    }
+    const sse = await send(`${secured.url}/sse`, {
+      headers: { ...auth, Host: `attacker.example:${port}` },
+    });
+    check(sse.status === 403, `Foreign Host can't open an SSE session (${sse.status})`);
+  } finally {
+    await secured.close();
+  }
+  console.log("");
+
+  // Test 4
+  console.log("4. Idle sessions...");
+  const server = await startHttpServer(createTestServer, { port: 0, sessionIdleMs: 300 });
+  const client = new Client({ name: "test", version: "1.0.0" });
+
+  try {
+    // Legacy SSE session: its stream stays open
+    await client.connect(new SSEClientTransport(new URL(`${server.url}/sse`)));
+
+    // Streamable HTTP sessions: one with a GET stream, one without
+    const streamed = await send(`${server.url}/mcp`, { method: "POST", body: INITIALIZE });
+    const streamedId = streamed.headers["mcp-session-id"] as string;
+    const stream = await openStream(`${server.url}/mcp`, { "Mcp-Session-Id": streamedId });
+    const idle = await send(`${server.url}/mcp`, { method: "POST", body: INITIALIZE });
+    const idleId = idle.headers["mcp-session-id"] as string;
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const tools = await client.listTools().catch(() => null);
+    check(tools?.tools[0]?.name === "ping", "SSE session with its stream open is kept");
+
+    const health = JSON.parse((await send(`${server.url}/health`)).body);
+    check(health.sessions === 2, `Idle session is closed (${health.sessions} sessions left)`);
+
+    const idleRequest = await send(`${server.url}/mcp`, {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": idleId },
+    });
+    check(idleRequest.status === 404, `Idle session is gone (${idleRequest.status})`);
+
+    const streamedRequest = await send(`${server.url}/mcp`, {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": streamedId },
+    });
+    check(streamedRequest.status === 200, `Session with a GET stream is kept (${streamedRequest.status})`);
+    stream.destroy();
+  } finally {
+    await client.close();
+    await server.close();
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+/**
+ * Test script for background indexing jobs.
+ *
+ * Tests (offline):
+ * 1. Concurrent starts for one cache entry share a single job
+ * 2. Cancelling a running job stops it and stores status "cancelled"
+ * 3. Differently spelled paths of one directory share a single job
+ * 4. Completed jobs report the docs ID and page count
+ * 5. Unknown job IDs are rejected
+ * 6. Refs naming the default branch or the latest release share the job
+ *    of the entry they resolve to (local API)
+ */
+
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { JobManager } from "../src/services/job-manager.js";
+import { startIndexJob } from "../src/tools/index-docs.js";
+import { getIndexJob } from "../src/tools/get-index-job.js";
+import { cancelIndexJob } from "../src/tools/cancel-index-job.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+import { CancelledError, DocsError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Waits until a job has ended.
+ */
+async function waitForJob(jobId: string): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    const { job } = await getIndexJob({ job_id: jobId });
+    if (job.status !== "running") return;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+async function main() {
+  console.log("=== Index Jobs Test ===\n");
+
+  const manager = new JobManager();
+  const request = { url: "https://docs.example.com" };
+
+  // A runner that reports progress until cancelled
+  let runs = 0;
+  const slowRunner = async (
+    signal: AbortSignal,
+    onProgress: (progress: { phase: "crawling"; current: number; message: string }) => void
+  ) => {
+    runs++;
+    for (let i = 0; ; i++) {
+      if (signal.aborted) throw new CancelledError("Crawl");
+      onProgress({ phase: "crawling", current: i, message: `Crawled ${i} pages` });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  // Test 1: concurrent starts
+  console.log("1. Concurrent starts for one cache entry...");
+  const [first, second] = await Promise.all([
+    manager.start(request, "scraped/docs_example_com", slowRunner),
+    manager.start(request, "scraped/docs_example_com", slowRunner),
+  ]);
+  check(first.job.job_id === second.job.job_id, "Both calls return the same job");
+  check(first.started !== second.started, "Only one call started it");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  check(runs === 1, "The runner ran once");
+  console.log("");
+
+  // Test 2: cancellation
+  console.log("2. Cancelling a running job...");
+  const cancelled = await manager.cancel(first.job.job_id);
+  check(cancelled.status === "cancelled", `Status is "cancelled" (${cancelled.status})`);
+  check(cancelled.error?.code === "CANCELLED", "Error code is CANCELLED");
+  const stored = await cacheManager.getJob(first.job.job_id);
+  check(stored?.status === "cancelled", "Stored job is cancelled");
+  const again = await manager.cancel(first.job.job_id);
+  check(again.status === "cancelled", "Cancelling an ended job leaves it unchanged");
+  console.log("");
+
+  // Test 3 and 4: differently spelled paths, then completion
+  console.log("3. Differently spelled paths of one directory...");
+  const dir = mkdtempSync(join(tmpdir(), "jobs-test-"));
+  mkdirSync(join(dir, "guide"));
+  writeFileSync(join(dir, "README.md"), "# Test Docs\n\nIntro.\n");
+  writeFileSync(join(dir, "guide", "start.md"), "# Start\n\nHow to start.\n");
+
+  try {
+    const [absolute, relativePath, fileUrl] = await Promise.all([
+      startIndexJob({ url: dir, force_refresh: true }),
+      startIndexJob({ url: relative(process.cwd(), dir) || ".", force_refresh: true }),
+      startIndexJob({ url: `file://${dir}/`, force_refresh: true }),
+    ]);
+    check(
+      absolute.job_id === relativePath.job_id && absolute.job_id === fileUrl.job_id,
+      "Absolute, relative and file:// paths share one job"
+    );
+    console.log("");
+
+    console.log("4. Completed job...");
+    await waitForJob(absolute.job_id);
+    const { job } = await getIndexJob({ job_id: absolute.job_id });
+    check(job.status === "completed", `Status is "completed" (${job.status})`);
+    check(job.phase === "finished", "Phase is finished");
+    check(!!job.docs_id?.startsWith("local_"), `Docs ID reported (${job.docs_id})`);
+    check(job.pages === 2, `Page count reported (${job.pages})`);
+
+    const result = await cancelIndexJob({ job_id: absolute.job_id });
+    check(!result.cancelled, "cancel_index_job reports an ended job as not cancelled");
+
+    await cacheManager.removeJob(absolute.job_id);
+    if (job.docs_id) {
+      await cacheManager.clearEntry("local", job.docs_id);
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  console.log("");
+
+  // Test 5: unknown IDs
+  console.log("5. Unknown job IDs...");
+  for (const jobId of ["00000000-0000-4000-8000-000000000000", "../meta"]) {
+    const error = await getIndexJob({ job_id: jobId }).catch((e) => e);
+    check(error instanceof DocsError && error.code === "JOB_NOT_FOUND", `"${jobId}" not found`);
+  }
+
+  console.log("");
+
+  // Test 6: resolved refs, against a local Gitea API that can't list trees
+  console.log("6. Refs resolved to one cache entry...");
+  const server = createServer((req, res) => {
+    const body = req.url?.includes("/commits")
+      ? [{ sha: "0123456789abcdef0123456789abcdef01234567" }]
+      : req.url?.includes("/releases/latest")
+        ? { tag_name: "v1.0.0" }
+        : req.url?.endsWith("/repos/owner/repo")
+          ? { default_branch: "main" }
+          : null;
+    res.writeHead(body ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body ?? {}));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const apiBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  const repo = { url: "https://gitea.example.com/owner/repo", type: "gitea" as const, api_base: apiBase };
+
+  try {
+    const [unqualified, main, other] = await Promise.all([
+      startIndexJob(repo),
+      startIndexJob({ ...repo, ref: "main" }),
+      startIndexJob({ ...repo, ref: "develop" }),
+    ]);
+    check(unqualified.job_id === main.job_id, "No ref and the default branch share one job");
+    check(other.job_id !== main.job_id, "Another branch gets its own job");
+
+    const [latest, tag] = await Promise.all([
+      startIndexJob({ ...repo, ref: "latest-release" }),
+      startIndexJob({ ...repo, ref: "v1.0.0" }),
+    ]);
+    check(latest.job_id === tag.job_id, "latest-release and the tag it names share one job");
+
+    for (const { job_id } of [unqualified, other, latest]) {
+      await waitForJob(job_id);
+      await cacheManager.removeJob(job_id);
+    }
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  await cacheManager.removeJob(first.job.job_id);
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * Test script for indexing llms.txt over an earlier index of the same site.
+ *
+ * Tests (offline, against a local site):
+ * 1. llms.txt pages replace the pages of an earlier crawl
+ * 2. Downloads report progress
+ * 3. Cancelling stops the download and leaves the cache as it was
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+import { CancelledError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const PADDING = "This paragraph pads the page so it is long enough to be indexed. ".repeat(3);
+
+async function main() {
+  console.log("=== llms.txt Refresh Test ===\n");
+
+  let slowDelayMs = 0;
+
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === "/docs") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        `<html><head><title>Crawled</title></head><body><main><h1>Crawled</h1><p>Crawled page. ${PADDING}</p></main></body></html>`
+      );
+    } else if (path === "/docs/llms.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(
+        "# Example\n\n> Example docs.\n\n## Guides\n\n- [Intro](/docs/intro.md)\n- [API](/docs/api.md)\n- [Slow](/docs/slow.md)\n"
+      );
+    } else if (path.endsWith(".md")) {
+      const name = path.slice("/docs/".length, -".md".length);
+      const delay = name === "slow" ? slowDelayMs : 0;
+      setTimeout(() => {
+        res.writeHead(200, { "Content-Type": "text/markdown" });
+        res.end(`# ${name}\n\nThe ${name} page.\n`);
+      }, delay);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/docs`;
+
+  let docsId: string | undefined;
+  try {
+    // Test 1
+    console.log("1. Replacing a crawled index...");
+    const crawled = await indexDocs({ url, type: "scrape", request_delay_ms: 0, force_refresh: true });
+    docsId = crawled.id;
+    const crawledFile = crawled.tree[0]?.path ?? "";
+    check(crawled.stats.pages === 1, `Crawled page indexed (${crawledFile})`);
+
+    const progress: number[] = [];
+    const llms = await indexDocs(
+      { url, type: "llms_txt", force_refresh: true },
+      { onProgress: (update) => progress.push(update.current) }
+    );
+    check(llms.id === docsId, "Same docs ID");
+    check(llms.stats.pages === 3, `llms.txt pages indexed (${llms.stats.pages})`);
+    check(
+      (await cacheManager.getContent("scraped", docsId, crawledFile)) === null,
+      "Crawled page content removed"
+    );
+    check(
+      (await cacheManager.getContent("scraped", docsId, "guides/docs_intro.md")) !== null,
+      "llms.txt page content stored"
+    );
+    const records = await cacheManager.getPageRecords("scraped", docsId);
+    check(!!records && Object.keys(records).length === 0, "Crawl page records cleared");
+    console.log("");
+
+    // Test 2
+    console.log("2. Progress...");
+    check(
+      progress.length === 3 && progress[progress.length - 1] === 3,
+      `Progress reported per page (${progress.join(", ")})`
+    );
+    console.log("");
+
+    // Test 3
+    console.log("3. Cancelling...");
+    slowDelayMs = 5000;
+    const before = await cacheManager.getMeta("scraped", docsId);
+    const controller = new AbortController();
+    const started = Date.now();
+    const error = await indexDocs(
+      { url, type: "llms_txt", force_refresh: true },
+      {
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      }
+    ).catch((e) => e);
+    check(error instanceof CancelledError, `Indexing cancelled (${error?.code ?? error})`);
+    check(Date.now() - started < 4000, "Stopped without waiting for the slow page");
+    const after = await cacheManager.getMeta("scraped", docsId);
+    check(after?.indexed_at === before?.indexed_at, "Cached docs left as they were");
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("scraped", docsId);
+    }
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
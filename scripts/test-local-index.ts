@@ -0,0 +1,104 @@
+/**
+ * Test script for indexing local directories.
+ *
+ * Tests (offline, temporary directory):
+ * 1. Progress is reported per file
+ * 2. Cancelling leaves the previous cache untouched
+ * 3. Re-indexing drops files deleted from the directory
+ * 4. Refs that git would read as options are rejected
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { indexDocs, type IndexProgress } from "../src/tools/index-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+import { DocsError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+async function main() {
+  console.log("=== Local Index Test ===\n");
+
+  const dir = mkdtempSync(join(tmpdir(), "local-test-"));
+  writeFileSync(join(dir, "intro.md"), "# Intro\n\nWelcome.\n");
+  writeFileSync(join(dir, "guide.md"), "# Guide\n\nFirst version.\n");
+  writeFileSync(join(dir, "old.md"), "# Old\n\nDeprecated page.\n");
+
+  let docsId: string | undefined;
+  try {
+    // Test 1
+    console.log("1. Progress...");
+    const progress: IndexProgress[] = [];
+    const first = await indexDocs(
+      { url: dir, force_refresh: true },
+      { onProgress: (p) => progress.push(p) }
+    );
+    docsId = first.id;
+    check(progress.length === 4, `One update per file plus saving (${progress.length})`);
+    check(
+      progress.every((p) => p.phase === "downloading" && p.total === 3),
+      "Updates carry the file count"
+    );
+    console.log("");
+
+    // Test 2
+    console.log("2. Cancellation...");
+    writeFileSync(join(dir, "guide.md"), "# Guide\n\nSecond version.\n");
+    const controller = new AbortController();
+    const error = await indexDocs(
+      { url: dir, force_refresh: true },
+      {
+        signal: controller.signal,
+        onProgress: (p) => {
+          if (p.current === 1) controller.abort();
+        },
+      }
+    ).catch((e) => e);
+    check(error instanceof DocsError && error.code === "CANCELLED", `Cancelled (${error?.code})`);
+    const kept = await cacheManager.getContent("local", docsId, "guide.md");
+    check(kept?.includes("First version") === true, "Cached file unchanged");
+    console.log("");
+
+    // Test 3
+    console.log("3. Deleted files...");
+    rmSync(join(dir, "old.md"));
+    const second = await indexDocs({ url: dir, force_refresh: true });
+    check(second.stats.pages === 2, `Page count updated (${second.stats.pages})`);
+    check(
+      (await cacheManager.getContent("local", docsId, "old.md")) === null,
+      "Deleted file removed from the cache"
+    );
+    const updated = await cacheManager.getContent("local", docsId, "guide.md");
+    check(updated?.includes("Second version") === true, "Changed file updated");
+    console.log("");
+
+    // Test 4
+    console.log("4. Option-like refs...");
+    const refError = await indexDocs({ url: dir, ref: "--output=/tmp/x", force_refresh: true }).catch(
+      (e) => e
+    );
+    check(
+      refError instanceof DocsError && refError.code === "VALIDATION_ERROR",
+      `Ref starting with "-" rejected (${refError?.code})`
+    );
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("local", docsId);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
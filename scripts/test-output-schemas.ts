@@ -0,0 +1,137 @@
+/**
+ * Test script for tool output schemas.
+ *
+ * Runs the server over stdio and calls the tools through the SDK client,
+ * which validates each structuredContent against the tool's outputSchema.
+ *
+ * Tests (offline, one local docs set):
+ * 1. Declared schemas require the fields of a result or of an error
+ * 2. Every tool's result passes its schema
+ * 3. Errors pass the schema too, as structuredContent and as text
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+async function main() {
+  console.log("=== Output Schemas Test ===\n");
+
+  const dir = mkdtempSync(join(tmpdir(), "schemas-test-"));
+  writeFileSync(
+    join(dir, "README.md"),
+    "# Schema Docs\n\n## Usage\n\nCall `createThing()` to start.\n\n```ts\nconst thing = createThing({ name: 'demo' });\n```\n"
+  );
+
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: ["--import", "tsx", "src/index.ts"],
+      env: { ...process.env } as Record<string, string>,
+      stderr: "ignore",
+    })
+  );
+
+  /**
+   * Calls a tool; the client throws if the result fails the tool's schema.
+   */
+  const call = async (name: string, args: Record<string, unknown>) => {
+    try {
+      const result = await client.callTool({ name, arguments: args });
+      check(!result.isError && !!result.structuredContent, `${name} result passes its schema`);
+      return result.structuredContent as Record<string, any>;
+    } catch (error) {
+      check(false, `${name}: ${error instanceof Error ? error.message : error}`);
+      return {};
+    }
+  };
+
+  try {
+    // Test 1
+    console.log("1. Declared schemas...");
+    const { tools } = await client.listTools();
+    /**
+     * Gets the required fields of each shape a tool's outputSchema allows.
+     */
+    const shapes = (name: string) => {
+      const schema = tools.find((tool) => tool.name === name)?.outputSchema;
+      return ((schema?.anyOf ?? []) as Array<{ required: string[] }>).map((shape) =>
+        shape.required.join(",")
+      );
+    };
+    const search = shapes("search_docs");
+    check(
+      search[0]?.split(",").includes("results") === true,
+      `search_docs requires "results" (${search[0]})`
+    );
+    check(search[1] === "error,code,message", `Errors require their fields (${search[1]})`);
+    const index = shapes("index_docs");
+    check(
+      index.length === 3 && index[0].includes("tree") && index[1] === "job_id,status,message",
+      `index_docs is a result or a job (${index.slice(0, 2).join(" | ")})`
+    );
+    console.log("");
+
+    // Test 2
+    console.log("2. Tool results...");
+    const indexed = await call("index_docs", { url: dir, force_refresh: true });
+    const docsId = indexed.id as string;
+    const job = await call("index_docs", { url: dir, force_refresh: true, async: true });
+    await call("get_index_job", { job_id: job.job_id });
+    await call("cancel_index_job", { job_id: job.job_id });
+    await call("list_index_jobs", {});
+    await call("list_cached_docs", {});
+    await call("list_cached_docs", { group_versions: true });
+    await call("get_docs_tree", { docs_id: docsId });
+    await call("get_docs_content", { docs_id: docsId, paths: ["README.md"] });
+    await call("get_docs_content", { docs_id: docsId, paths: ["README.md"], max_tokens: 10 });
+    await call("search_docs", { docs_id: docsId, query: "createThing" });
+    await call("search_docs", { all: true, query: "createThing" });
+    await call("search_code", { docs_id: docsId, query: "createThing" });
+    console.log("");
+
+    // Test 3
+    console.log("3. Errors...");
+    const error = await client.callTool({
+      name: "search_docs",
+      arguments: { docs_id: "missing_docs", query: "createThing" },
+    });
+    check(error.isError === true, "Error result has isError");
+    check(
+      (error.structuredContent as Record<string, unknown>)?.code === "CACHE_NOT_FOUND",
+      "Error code is in structuredContent"
+    );
+    const text = (error.content as Array<{ type: string; text: string }>)[0]?.text ?? "{}";
+    check(JSON.parse(text).code === "CACHE_NOT_FOUND", "Error code is in the text");
+    const indexError = await client
+      .callTool({ name: "index_docs", arguments: { url: join(dir, "missing") } })
+      .catch((e) => e);
+    check(
+      indexError.isError === true && !!indexError.structuredContent,
+      `index_docs error passes its schema (${indexError.message ?? "ok"})`
+    );
+
+    await call("clear_cache", { docs_id: docsId });
+  } finally {
+    await client.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
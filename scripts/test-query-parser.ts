@@ -0,0 +1,134 @@
+/**
+ * Test script for the search_docs query syntax.
+ *
+ * Tests:
+ * 1. Plain terms are OR'ed, AND groups them
+ * 2. Phrases, +required and -excluded clauses
+ * 3. Field prefixes, unknown prefixes stay part of the term
+ * 4. Fuzzy and prefix options
+ * 5. Searching a local docs set with the syntax (offline)
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseQuery, getPositiveText, DEFAULT_FUZZY } from "../src/services/query-parser.js";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { searchDocs } from "../src/tools/search-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Formats the groups of a parsed query, e.g. "a & b | c".
+ */
+function groups(query: string): string {
+  return parseQuery(query)
+    .groups.map((group) => group.map((clause) => clause.text).join(" & "))
+    .join(" | ");
+}
+
+async function main() {
+  console.log("=== Query Parser Test ===\n");
+
+  // Test 1
+  console.log("1. Boolean operators...");
+  check(groups("router loader") === "router | loader", "Adjacent terms are OR'ed");
+  check(groups("router AND loader") === "router & loader", "AND groups terms");
+  check(groups("a AND b OR c AND d") === "a & b | c & d", "AND binds tighter than OR");
+  check(groups("cats and dogs") === "cats | and | dogs", 'Lowercase "and" is a term');
+  check(groups("AND router") === "router", "Leading AND is ignored");
+  console.log("");
+
+  // Test 2
+  console.log("2. Phrases and modifiers...");
+  const phrase = parseQuery('"dynamic routes" +loader -legacy');
+  check(
+    phrase.groups[0]?.[0]?.text === "dynamic routes" && phrase.groups[0][0].phrase,
+    "Quoted text is a phrase"
+  );
+  check(phrase.required[0]?.text === "loader", "+term is required");
+  check(phrase.excluded[0]?.text === "legacy", "-term is excluded");
+  check(getPositiveText(phrase) === "loader dynamic routes", "Positive text leaves out excluded terms");
+  check(
+    parseQuery('"unclosed phrase').groups[0]?.[0]?.text === "unclosed phrase",
+    "Unclosed quote runs to the end"
+  );
+  const empty = parseQuery('"" +"  "');
+  check(empty.groups.length === 0 && empty.required.length === 0, "Empty phrases are dropped");
+  console.log("");
+
+  // Test 3
+  console.log("3. Fields...");
+  const fields = parseQuery('title:Install code:"npm install" -path:legacy');
+  check(fields.groups[0]?.[0]?.field === "title", "title: scopes a term");
+  check(
+    fields.groups[1]?.[0]?.field === "code" && fields.groups[1][0].text === "npm install",
+    "code: scopes a phrase"
+  );
+  check(fields.excluded[0]?.field === "path", "Fields combine with -");
+  check(
+    parseQuery("TITLE:Install").groups[0]?.[0]?.field === "title",
+    "Field names are case-insensitive"
+  );
+  const unknown = parseQuery("http://example.com std::vec");
+  check(
+    unknown.groups.map((group) => group[0].text).join(" ") === "http://example.com std::vec" &&
+      unknown.groups.every((group) => group[0].field === undefined),
+    "Unknown prefixes stay part of the term"
+  );
+  console.log("");
+
+  // Test 4
+  console.log("4. Options...");
+  check(parseQuery("x").fuzzy === DEFAULT_FUZZY && parseQuery("x").prefix, "Defaults");
+  check(parseQuery("x", { fuzzy: false }).fuzzy === false, "fuzzy: false");
+  check(parseQuery("x", { fuzzy: 0 }).fuzzy === false, "fuzzy: 0 turns fuzzy off");
+  check(parseQuery("x", { fuzzy: 0.4 }).fuzzy === 0.4, "fuzzy: 0.4");
+  check(parseQuery("x", { prefix: false }).prefix === false, "prefix: false");
+  console.log("");
+
+  // Test 5
+  console.log("5. Searching...");
+  const dir = mkdtempSync(join(tmpdir(), "query-test-"));
+  writeFileSync(
+    join(dir, "routing.md"),
+    "# Routing\n\nDynamic routes match any segment of the path.\n\n## Loaders\n\nEach route can have a loader.\n"
+  );
+  writeFileSync(
+    join(dir, "legacy.md"),
+    "# Legacy Routing\n\nRoutes in the legacy router are dynamic too, but routes cannot have loaders.\n"
+  );
+
+  let docsId: string | undefined;
+  try {
+    docsId = (await indexDocs({ url: dir, force_refresh: true })).id;
+    const paths = async (query: string) =>
+      new Set((await searchDocs({ docs_id: docsId!, query })).results.map((hit) => hit.path));
+
+    const phraseHits = await paths('"dynamic routes"');
+    check(phraseHits.has("routing.md") && !phraseHits.has("legacy.md"), "Phrase needs adjacent words");
+    const excluded = await paths("routes -legacy");
+    check(excluded.has("routing.md") && !excluded.has("legacy.md"), "Excluded term drops a file");
+    const titled = await paths("title:legacy");
+    check(titled.size === 1 && titled.has("legacy.md"), "Field limits matches to titles");
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("local", docsId);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Test script for the crawl throttle.
+ *
+ * Tests (offline):
+ * 1. Retry-After values are parsed, blank ones ignored
+ * 2. A paused host is waited for
+ * 3. Aborting stops the wait right away
+ */
+
+import { HostThrottle, parseRetryAfter } from "../src/utils/rate-limit.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+async function main() {
+  console.log("=== Rate Limit Test ===\n");
+
+  // Test 1
+  console.log("1. Retry-After...");
+  check(parseRetryAfter("120") === 120000, "Delta seconds");
+  const date = parseRetryAfter(new Date(Date.now() + 60000).toUTCString()) ?? 0;
+  check(date > 55000 && date <= 60000, `HTTP date (${date}ms)`);
+  for (const value of [null, "", "   ", "soon"]) {
+    check(parseRetryAfter(value) === undefined, `${JSON.stringify(value)} is ignored`);
+  }
+  console.log("");
+
+  // Test 2
+  console.log("2. Paused host...");
+  const throttle = new HostThrottle({ intervalMs: 0, burst: 1 });
+  throttle.backoff("example.com", 300);
+  let started = Date.now();
+  await throttle.acquire("example.com");
+  const waited = Date.now() - started;
+  check(waited >= 250, `Waited for the pause (${waited}ms)`);
+  console.log("");
+
+  // Test 3
+  console.log("3. Aborting...");
+  throttle.backoff("example.com", 10000);
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 100);
+  started = Date.now();
+  await throttle.acquire("example.com", controller.signal);
+  const aborted = Date.now() - started;
+  check(aborted < 1000, `Stopped waiting when aborted (${aborted}ms)`);
+
+  started = Date.now();
+  await throttle.acquire("example.com", controller.signal);
+  check(Date.now() - started < 100, "Already aborted signal returns at once");
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
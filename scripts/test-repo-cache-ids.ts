@@ -0,0 +1,116 @@
+/**
+ * Test script for the cache IDs of repository refs.
+ *
+ * Tests (offline, against a local Gitea API):
+ * 1. The default branch is cached without a ref suffix, named or not,
+ *    and found there again
+ * 2. Other branches get a suffix
+ * 3. Refs that differ only in special characters get distinct IDs
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const BRANCHES = ["main", "feature/x", "feature_x"];
+
+async function main() {
+  console.log("=== Repository Cache IDs Test ===\n");
+
+  let treeRequests = 0;
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = decodeURIComponent(url.pathname);
+    const repoApi = "/api/v1/repos/owner/repo";
+    const json = (body: unknown) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (path === repoApi) {
+      json({ default_branch: "main" });
+    } else if (path.startsWith(`${repoApi}/branches/`)) {
+      const branch = path.slice(`${repoApi}/branches/`.length);
+      json({ commit: { id: `sha-${branch}` } });
+    } else if (path === `${repoApi}/commits`) {
+      const ref = url.searchParams.get("sha") ?? "";
+      if (BRANCHES.includes(ref)) {
+        json([{ sha: `sha-${ref}` }]);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    } else if (path.startsWith(`${repoApi}/git/trees/`)) {
+      treeRequests++;
+      json({
+        tree: [{ path: "README.md", type: "blob", size: 40, sha: "readme" }],
+        truncated: false,
+        total_count: 1,
+      });
+    } else if (path === `${repoApi}/raw/README.md`) {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(`# Repo\n\nDocs from ${url.searchParams.get("ref")}.\n`);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const index = (url: string, ref?: string, forceRefresh = true) =>
+    indexDocs({ url, type: "gitea", api_base: `${base}/api/v1`, ref, force_refresh: forceRefresh });
+
+  const ids = new Set<string>();
+  try {
+    // Test 1
+    console.log("1. Default branch...");
+    const plain = await index(`${base}/owner/repo`);
+    ids.add(plain.id);
+    check(!plain.id.includes("@"), `Repository URL is unsuffixed (${plain.id})`);
+    const tree = await index(`${base}/owner/repo/src/branch/main`);
+    check(tree.id === plain.id, `Default branch URL shares the ID (${tree.id})`);
+    const named = await index(`${base}/owner/repo`, "main");
+    check(named.id === plain.id, `Default branch ref shares the ID (${named.id})`);
+    const listed = treeRequests;
+    const cached = await index(`${base}/owner/repo/src/branch/main`, undefined, false);
+    check(
+      cached.id === plain.id && treeRequests === listed,
+      "Default branch URL is served from the unsuffixed cache"
+    );
+    console.log("");
+
+    // Test 2
+    console.log("2. Other branches...");
+    const slash = await index(`${base}/owner/repo`, "feature/x");
+    ids.add(slash.id);
+    check(slash.id.endsWith("@feature~2fx"), `Branch is suffixed (${slash.id})`);
+    console.log("");
+
+    // Test 3
+    console.log("3. Similar refs...");
+    const underscore = await index(`${base}/owner/repo`, "feature_x");
+    ids.add(underscore.id);
+    check(underscore.id !== slash.id, `"feature/x" and "feature_x" differ (${underscore.id})`);
+  } finally {
+    for (const id of ids) {
+      await cacheManager.clearEntry("gitea", id);
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
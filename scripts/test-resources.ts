@@ -0,0 +1,150 @@
+/**
+ * Test script for the docs resources.
+ *
+ * Tests (offline, two local docs sets, in-memory client):
+ * 1. resources/list pages through every set: its tree, then its files
+ * 2. Invalid cursors are rejected
+ * 3. Tree and file resources can be read
+ * 4. Files outside the tree are not served
+ * 5. Docs IDs and file paths are completed
+ */
+
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Resource } from "@modelcontextprotocol/sdk/types.js";
+import { registerDocsResources } from "../src/resources.js";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Writes markdown files to a new temporary directory.
+ */
+function createDocs(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), "resources-test-"));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(join(dir, name, ".."), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+async function main() {
+  console.log("=== Resources Test ===\n");
+
+  // More files than fit on one resources/list page
+  const manyFiles: Record<string, string> = {};
+  for (let i = 0; i < 120; i++) {
+    manyFiles[`pages/page-${String(i).padStart(3, "0")}.md`] = `# Page ${i}\n\nText ${i}.\n`;
+  }
+  const bigDocs = createDocs(manyFiles);
+  const smallDocs = createDocs({ "guide/getting started.md": "# Getting Started\n\nInstall it.\n" });
+
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  registerDocsResources(server);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const ids: string[] = [];
+  try {
+    for (const dir of [bigDocs, smallDocs]) {
+      ids.push((await indexDocs({ url: dir, force_refresh: true })).id);
+    }
+    const [bigId, smallId] = ids;
+
+    // Test 1
+    console.log("1. Paged listing...");
+    const pages: Resource[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listResources(cursor ? { cursor } : undefined);
+      pages.push(page.resources);
+      cursor = page.nextCursor;
+    } while (cursor && pages.length < 20);
+
+    const listed = pages.flat();
+    check(pages[0].length === 100, `First page holds 100 resources (${pages[0].length})`);
+    check(pages.length >= 2, `Listing continues on a second page (${pages.length} pages)`);
+    check(new Set(listed.map((r) => r.uri)).size === listed.length, "No resource listed twice");
+
+    const ofSet = (id: string) =>
+      listed.filter((r) => r.uri.startsWith(`docs://${encodeURIComponent(id)}/`));
+    const big = ofSet(bigId);
+    check(big.length === 121, `Every file of the big set listed (${big.length})`);
+    check(big[0]?.uri.endsWith("/tree") === true, "Tree listed before the files");
+    const small = ofSet(smallId);
+    check(
+      small[1]?.uri.endsWith("/file/guide/getting%20started.md") === true,
+      `File paths are encoded (${small[1]?.uri})`
+    );
+    console.log("");
+
+    // Test 2
+    console.log("2. Invalid cursors...");
+    for (const bad of ["not-a-cursor", Buffer.from('{"e":-1,"r":0}').toString("base64url")]) {
+      const error = await client.listResources({ cursor: bad }).catch((e) => e);
+      check(error instanceof Error && /Invalid cursor/.test(error.message), `"${bad}" rejected`);
+    }
+    console.log("");
+
+    // Test 3
+    console.log("3. Reading resources...");
+    const tree = await client.readResource({ uri: small[0].uri });
+    const treeText = tree.contents[0] && "text" in tree.contents[0] ? tree.contents[0].text : "";
+    check(JSON.parse(String(treeText)).docs_id === smallId, "Tree resource returns the tree");
+    const file = await client.readResource({ uri: small[1].uri });
+    const fileText = file.contents[0] && "text" in file.contents[0] ? file.contents[0].text : "";
+    check(String(fileText).startsWith("# Getting Started"), "File resource returns the markdown");
+    console.log("");
+
+    // Test 4
+    console.log("4. Files outside the tree...");
+    const base = `docs://${encodeURIComponent(smallId)}/file`;
+    for (const uri of [`${base}/guide/missing.md`, `${base}/..%2Fmeta.json`]) {
+      const error = await client.readResource({ uri }).catch((e) => e);
+      check(error instanceof Error && /not found/.test(error.message), `${uri.slice(base.length)} not served`);
+    }
+    console.log("");
+
+    // Test 5
+    console.log("5. Completion...");
+    const docsIds = await client.complete({
+      ref: { type: "ref/resource", uri: "docs://{docs_id}/tree" },
+      argument: { name: "docs_id", value: smallId.slice(0, -3) },
+    });
+    check(docsIds.completion.values.includes(smallId), "Docs ID completed");
+    const paths = await client.complete({
+      ref: { type: "ref/resource", uri: "docs://{docs_id}/file/{+path}" },
+      argument: { name: "path", value: "pages/page-11" },
+      context: { arguments: { docs_id: bigId } },
+    });
+    check(paths.completion.values.length === 10, `File paths completed (${paths.completion.values.length})`);
+  } finally {
+    await client.close();
+    for (const id of ids) {
+      await cacheManager.clearEntry("local", id);
+    }
+    rmSync(bigDocs, { recursive: true, force: true });
+    rmSync(smallDocs, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
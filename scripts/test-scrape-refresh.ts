@@ -0,0 +1,147 @@
+/**
+ * Test script for refreshing a scraped docs set.
+ *
+ * Tests (offline, against a local site):
+ * 1. The first crawl fetches every sitemap page
+ * 2. On refresh, pages whose sitemap lastmod predates the last crawl are
+ *    kept without a request
+ * 3. Pages modified since are fetched and re-indexed
+ * 4. Pages answering 304 keep their cached content
+ * 5. Pages whose cached content is gone are fetched in full, not dropped
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { getDocsContent } from "../src/tools/get-content.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Builds a docs page with enough text to be indexed.
+ */
+function page(title: string, text: string): string {
+  return `<html><head><title>${title}</title></head><body><main><h1>${title}</h1><p>${text} ${"This paragraph pads the page so it is long enough to be indexed. ".repeat(3)}</p></main></body></html>`;
+}
+
+async function main() {
+  console.log("=== Scrape Refresh Test ===\n");
+
+  const requests = new Map<string, number>();
+  const conditional = new Map<string, number>();
+  let newLastmod = "2000-01-01";
+  let newText = "First version of the new page.";
+
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    requests.set(path, (requests.get(path) ?? 0) + 1);
+    if (req.headers["if-none-match"]) {
+      conditional.set(path, (conditional.get(path) ?? 0) + 1);
+    }
+    const base = `http://${req.headers.host}`;
+
+    if (path === "/sitemap.xml") {
+      res.writeHead(200, { "Content-Type": "application/xml" });
+      res.end(
+        `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">` +
+          `<url><loc>${base}/docs/old</loc><lastmod>2000-01-01</lastmod></url>` +
+          `<url><loc>${base}/docs/new</loc><lastmod>${newLastmod}</lastmod></url>` +
+          `<url><loc>${base}/docs/tagged</loc></url>` +
+          `</urlset>`
+      );
+    } else if (path === "/docs") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(page("Docs", "Welcome to the docs."));
+    } else if (path === "/docs/old") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(page("Old Page", "This page never changes."));
+    } else if (path === "/docs/tagged") {
+      if (req.headers["if-none-match"] === '"v1"') {
+        res.writeHead(304);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html", ETag: '"v1"' });
+      res.end(page("Tagged Page", "This page has an ETag."));
+    } else if (path === "/docs/new") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(page("New Page", newText));
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/docs`;
+  const input = {
+    url,
+    type: "scrape" as const,
+    crawl_strategy: "sitemap" as const,
+    request_delay_ms: 0,
+    force_refresh: true,
+  };
+
+  let docsId: string | undefined;
+  try {
+    // Test 1
+    console.log("1. First crawl...");
+    const first = await indexDocs(input);
+    docsId = first.id;
+    check(first.stats.pages === 4, `All pages indexed (${first.stats.pages})`);
+    check(requests.get("/docs/old") === 1, "Old page fetched");
+    check(requests.get("/docs/new") === 1, "New page fetched");
+    console.log("");
+
+    // Test 2
+    console.log("2. Refresh...");
+    newLastmod = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    newText = "Second version of the new page.";
+    const second = await indexDocs(input);
+    check(requests.get("/docs/old") === 1, "Old page not requested again");
+    check(second.stats.pages === 4, `Old page kept in the docs set (${second.stats.pages})`);
+    check(second.stats.changes?.unchanged === 2, "Old and tagged pages counted as unchanged");
+    console.log("");
+
+    // Test 3
+    console.log("3. Modified page...");
+    check(requests.get("/docs/new") === 2, "New page fetched again");
+    const content = await getDocsContent({ docs_id: first.id, paths: ["docs_new.md"] });
+    const text = Object.values(content.contents)[0]?.content ?? "";
+    check(text.includes("Second version"), "New page content updated");
+    console.log("");
+
+    // Test 4
+    console.log("4. Not modified page...");
+    check(conditional.get("/docs/tagged") === 1, "Tagged page revalidated with If-None-Match");
+    console.log("");
+
+    // Test 5
+    console.log("5. Missing cached content...");
+    await cacheManager.removeContent("scraped", first.id, "docs_tagged.md");
+    const third = await indexDocs(input);
+    check(requests.get("/docs/tagged") === 3, "Tagged page requested again");
+    check(conditional.get("/docs/tagged") === 1, "Request sent without If-None-Match");
+    check(third.stats.pages === 4, `Tagged page kept in the docs set (${third.stats.pages})`);
+    const restored = await cacheManager.getContent("scraped", first.id, "docs_tagged.md");
+    check(!!restored?.includes("ETag"), "Tagged page content cached again");
+  } finally {
+    if (docsId) {
+      await cacheManager.clearEntry("scraped", docsId);
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+/**
+ * Test script for splitting markdown into heading sections.
+ *
+ * Tests:
+ * 1. Sections, levels and breadcrumbs
+ * 2. Anchors, with suffixes for duplicate headings
+ * 3. Headings inside code blocks are ignored
+ * 4. Line ranges cover the document
+ */
+
+import { splitSections, slugifyHeading } from "../src/services/search-index.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const DOC = `Intro before any heading.
+
+# Guide
+
+## Install
+
+\`\`\`bash
+# not a heading
+npm install router
+\`\`\`
+
+## Usage
+
+### Options
+
+## Usage
+`;
+
+async function main() {
+  console.log("=== Sections Test ===\n");
+
+  const sections = splitSections(DOC);
+
+  // Test 1
+  console.log("1. Sections...");
+  check(
+    sections.map((s) => s.heading).join("|") === "|Guide|Install|Usage|Options|Usage",
+    `Sections in order (${sections.length})`
+  );
+  check(sections[0]?.level === 0, "Content before the first heading gets level 0");
+  check(
+    sections[4]?.breadcrumb.join(" > ") === "Guide > Usage > Options",
+    "Breadcrumb follows heading levels"
+  );
+  check(sections[5]?.breadcrumb.join(" > ") === "Guide > Usage", "Breadcrumb pops to the parent");
+  check(
+    splitSections("\n\n# Only\n\ntext\n")[0]?.heading === "Only",
+    "Blank content before the first heading is skipped"
+  );
+  console.log("");
+
+  // Test 2
+  console.log("2. Anchors...");
+  check(sections[3]?.anchor === "usage" && sections[5]?.anchor === "usage-1", "Duplicates get -1");
+  check(slugifyHeading("The `useQuery()` Hook!") === "the-usequery-hook", "Punctuation is dropped");
+  check(slugifyHeading("[Links](https://x.dev) work") === "links-work", "Links keep their text");
+  console.log("");
+
+  // Test 3
+  console.log("3. Code blocks...");
+  check(!sections.some((s) => s.heading === "not a heading"), "# comment in code is not a heading");
+  check(!!sections[2]?.content.includes("npm install router"), "Code stays in its section");
+  console.log("");
+
+  // Test 4
+  console.log("4. Line ranges...");
+  const lines = DOC.split("\n");
+  check(sections[0]?.startLine === 1, "First section starts on line 1");
+  check(sections[sections.length - 1]?.endLine === lines.length, "Last section ends on the last line");
+  check(
+    sections.every((s, i) => i === 0 || s.startLine === sections[i - 1].endLine + 1),
+    "Sections are contiguous"
+  );
+  check(
+    sections.every((s) => s.content === lines.slice(s.startLine - 1, s.endLine).join("\n")),
+    "Content matches the line range"
+  );
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
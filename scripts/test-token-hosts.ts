@@ -0,0 +1,127 @@
+/**
+ * Test script for sending access tokens only to trusted hosts.
+ *
+ * Tests (offline, against a local API that records auth headers):
+ * 1. A forced type or api_base override gets no token
+ * 2. Hosts listed in the provider's *_HOSTS variable get the token
+ * 3. GitHub: raw_base overrides get no token, look-alike hosts aren't GitHub
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { getRepoProvider } from "../src/services/repo-registry.js";
+import type { RepoProviderId } from "../src/services/repo-provider.js";
+import { isGitHubHost } from "../src/services/github-fetcher.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Token variable, auth header and hosts variable of each provider.
+ */
+const PROVIDERS: Record<string, { token: string; header: string; hosts?: string }> = {
+  github: { token: "GITHUB_TOKEN", header: "authorization", hosts: "GITHUB_ENTERPRISE_HOSTS" },
+  gitlab: { token: "GITLAB_TOKEN", header: "private-token", hosts: "GITLAB_HOSTS" },
+  gitea: { token: "GITEA_TOKEN", header: "authorization", hosts: "GITEA_HOSTS" },
+  bitbucket: { token: "BITBUCKET_TOKEN", header: "authorization" },
+};
+
+async function main() {
+  console.log("=== Token Hosts Test ===\n");
+
+  const seen: Array<Record<string, string | string[] | undefined>> = [];
+  const server = createServer((req, res) => {
+    seen.push(req.headers);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ default_branch: "main", mainbranch: { name: "main" } }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  /**
+   * Resolves a ref through the local API and returns the auth headers sent.
+   */
+  const authSent = async (id: RepoProviderId, url: string) => {
+    seen.length = 0;
+    const provider = getRepoProvider(id);
+    const location = provider.parseUrl(url, true)!;
+    await provider.resolveRef({ ...location, apiBase: base }).catch(() => undefined);
+    if (seen.length === 0) {
+      throw new Error(`No ${id} request reached the local API`);
+    }
+    return seen.some((headers) => headers[PROVIDERS[id].header] !== undefined);
+  };
+
+  try {
+    for (const { token } of Object.values(PROVIDERS)) {
+      process.env[token] = "secret";
+    }
+
+    // Test 1
+    console.log("1. Untrusted hosts...");
+    for (const id of Object.keys(PROVIDERS) as RepoProviderId[]) {
+      check(
+        !(await authSent(id, `${base}/owner/repo`)),
+        `${id}: forced type on an unknown host sends no token`
+      );
+    }
+    check(
+      !(await authSent("github", "https://github.com/owner/repo")),
+      "github: api_base override of github.com sends no token"
+    );
+    check(
+      !(await authSent("gitlab", "https://gitlab.com/owner/repo")),
+      "gitlab: api_base override of gitlab.com sends no token"
+    );
+    check(
+      !(await authSent("gitea", "https://gitea.example.com/owner/repo")),
+      "gitea: gitea.* host not listed in GITEA_HOSTS sends no token"
+    );
+    console.log("");
+
+    // Test 2
+    console.log("2. Configured hosts...");
+    for (const [id, { hosts }] of Object.entries(PROVIDERS)) {
+      if (!hosts) continue;
+      process.env[hosts] = "127.0.0.1";
+      check(
+        await authSent(id as RepoProviderId, `${base}/owner/repo`),
+        `${id}: host in ${hosts} gets the token`
+      );
+      delete process.env[hosts];
+    }
+    console.log("");
+
+    // Test 3
+    console.log("3. GitHub raw content and hosts...");
+    process.env.GITHUB_ENTERPRISE_HOSTS = "code.corp.example";
+    seen.length = 0;
+    const github = getRepoProvider("github");
+    const location = github.parseUrl("https://code.corp.example/owner/repo", true)!;
+    await github.fetchFileContent({ ...location, rawBase: base }, "main", "README.md");
+    check(
+      seen.length === 1 && seen[0].authorization === undefined,
+      "raw_base override of an enterprise host sends no token"
+    );
+    delete process.env.GITHUB_ENTERPRISE_HOSTS;
+    check(isGitHubHost("api.github.com"), "github.com subdomains are GitHub");
+    check(!isGitHubHost("evilgithub.com"), "Look-alike hosts are not GitHub");
+  } finally {
+    for (const { token } of Object.values(PROVIDERS)) {
+      delete process.env[token];
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+/**
+ * Test script for crawl include/exclude URL patterns.
+ *
+ * Tests:
+ * 1. Path globs
+ * 2. Globs starting with `*` match a file name at any depth (`*.pdf`)
+ * 3. Full-URL globs and regex: patterns
+ * 4. Slow or invalid regular expressions are rejected
+ * 5. Exclude patterns win over include patterns
+ */
+
+import { compileUrlFilters, compileUrlPattern, matchUrlFilters } from "../src/utils/url.js";
+import { DocsError } from "../src/types/errors.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const BASE = "https://docs.example.com";
+
+/**
+ * Checks which paths a pattern matches.
+ */
+function matches(pattern: string, expected: Record<string, boolean>): void {
+  const filters = compileUrlFilters([pattern]);
+  for (const [path, allowed] of Object.entries(expected)) {
+    const url = path.includes("://") ? path : `${BASE}${path}`;
+    check(
+      matchUrlFilters(url, filters).isAllowed === allowed,
+      `"${pattern}" ${allowed ? "matches" : "does not match"} ${path}`
+    );
+  }
+}
+
+async function main() {
+  console.log("=== URL Patterns Test ===\n");
+
+  // Test 1
+  console.log("1. Path globs...");
+  matches("/docs/**", { "/docs": true, "/docs/a/b": true, "/blog/docs": false });
+  matches("/blog/*", { "/blog/post": true, "/blog/2024/post": false });
+  matches("docs/*", { "/docs/intro": true });
+  matches("/docs/**/intro", { "/docs/intro": true, "/docs/a/b/intro": true, "/docs/x": false });
+  matches("/v?/api", { "/v2/api": true, "/v10/api": false });
+  console.log("");
+
+  // Test 2
+  console.log("2. File name globs...");
+  matches("*.pdf", { "/a.pdf": true, "/docs/a.pdf": true, "/docs/a.pdf.html": false });
+  matches("*changelog*", { "/changelog": true, "/docs/old-changelog.html": true, "/docs/x": false });
+  matches("**/api", { "/api": true, "/v2/api": true, "/api/x": false });
+  console.log("");
+
+  // Test 3
+  console.log("3. Full URLs and regular expressions...");
+  matches("https://docs.example.com/docs/**", {
+    "/docs/a": true,
+    "https://other.example.com/docs/a": false,
+  });
+  matches("regex:/v\\d+/", { "/v2/intro": true, "/latest/intro": false });
+  console.log("");
+
+  // Test 4
+  console.log("4. Rejected regular expressions...");
+  const rejected = [
+    "regex:(a+)+$",
+    "regex:(\\w*)*x",
+    "regex:(a|b+){2,}",
+    `regex:${"a".repeat(201)}`,
+    "regex:(",
+  ];
+  for (const pattern of rejected) {
+    const error = (() => {
+      try {
+        compileUrlPattern(pattern);
+        return undefined;
+      } catch (e) {
+        return e;
+      }
+    })();
+    check(
+      error instanceof DocsError && error.code === "VALIDATION_ERROR",
+      `${pattern.slice(0, 30)} is rejected`
+    );
+  }
+  check(!!compileUrlPattern("regex:(docs|guide)/[a-z]+").regex, "Simple groups are accepted");
+  console.log("");
+
+  // Test 5
+  console.log("5. Include and exclude...");
+  const filters = compileUrlFilters(["/docs/**"], ["*.pdf"]);
+  check(matchUrlFilters(`${BASE}/docs/a`, filters).isAllowed, "Included page allowed");
+  const excluded = matchUrlFilters(`${BASE}/docs/a.pdf`, filters);
+  check(
+    !excluded.isAllowed && !!excluded.reason?.includes("*.pdf"),
+    `Excluded page rejected (${excluded.reason})`
+  );
+  check(!matchUrlFilters(`${BASE}/blog/a`, filters).isAllowed, "Page outside the includes rejected");
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,145 @@
+/**
+ * Test script for semantic search and rank fusion.
+ *
+ * Tests:
+ * 1. The vector index ranks sections by similarity to the query
+ * 2. It round-trips through JSON
+ * 3. Reciprocal-rank fusion rewards items found by both rankings
+ * 4. Semantic and hybrid search_docs modes (offline, local docs set)
+ * 5. Without MCP_DOCS_SEMANTIC_INDEX no vector index is built and search
+ *    falls back to keywords
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { VectorIndex, fuseRankings } from "../src/services/vector-index.js";
+import { indexDocs } from "../src/tools/index-docs.js";
+import { searchDocs } from "../src/tools/search-docs.js";
+import { cacheManager } from "../src/services/cache-manager.js";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  console.log(`   ${condition ? "✅" : "❌"} ${label}`);
+  if (!condition) failures++;
+}
+
+const SECTIONS = [
+  {
+    id: "cancel.md#cancel",
+    text: "Cancelling requests. Pass an AbortController signal to fetch. Calling abort cancels the request.",
+  },
+  {
+    id: "timeout.md#timeout",
+    text: "Timeouts. Abort a request after a timeout with an AbortController signal and setTimeout.",
+  },
+  {
+    id: "styles.md#styles",
+    text: "Styling components. Use CSS modules or utility classes to style components and layouts.",
+  },
+  {
+    id: "theme.md#theme",
+    text: "Themes. Switch between light and dark themes with CSS variables for colors.",
+  },
+];
+
+/**
+ * Gets the best-scoring section ID of a score map.
+ */
+function best(scores: Map<string, number>): string | undefined {
+  return Array.from(scores.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+async function main() {
+  console.log("=== Vector Index Test ===\n");
+
+  const index = VectorIndex.build(SECTIONS);
+
+  // Test 1
+  console.log("1. Semantic matches...");
+  const abort = index.search("how do I abort fetch");
+  check(best(abort) === "cancel.md#cancel", `"abort fetch" finds the cancel section (${best(abort)})`);
+  const signal = index.search("abort signal");
+  check(signal.has("timeout.md#timeout"), "Sections sharing the words found");
+  check(!signal.has("styles.md#styles"), "Unrelated section left out");
+  check(index.search("zebra").size === 0, "Unknown words match nothing");
+  console.log("");
+
+  // Test 2
+  console.log("2. Serialization...");
+  const restored = VectorIndex.fromJSON(index.toJSON());
+  check(restored.sectionCount === SECTIONS.length, "Section count kept");
+  check(best(restored.search("dark colors")) === best(index.search("dark colors")), "Same best match");
+  console.log("");
+
+  // Test 3
+  console.log("3. Rank fusion...");
+  const item = (path: string) => ({ path, anchor: "", score: 0 });
+  const fused = fuseRankings(
+    [
+      [item("a"), item("b"), item("c")],
+      [item("d"), item("b"), item("e")],
+    ],
+    10
+  );
+  check(
+    fused[0]?.path === "b",
+    `Item ranked second in both wins (${fused.map((f) => f.path).join(", ")})`
+  );
+  check(fused.length === 5, "Items from either ranking kept");
+  check(fuseRankings([[item("a"), item("b")]], 1).length === 1, "Limit applied");
+  check(fuseRankings([[item("a"), item("b")]], 10, 0.0162).length === 1, "Minimum score applied");
+  console.log("");
+
+  // Test 4
+  console.log("4. search_docs modes...");
+  const dir = mkdtempSync(join(tmpdir(), "vector-test-"));
+  for (const section of SECTIONS) {
+    const [path, anchor] = section.id.split("#");
+    writeFileSync(join(dir, path), `# ${anchor}\n\n${section.text}\n`);
+  }
+
+  let docsId: string | undefined;
+  try {
+    process.env.MCP_DOCS_SEMANTIC_INDEX = "1";
+    docsId = (await indexDocs({ url: dir, force_refresh: true })).id;
+    for (const mode of ["semantic", "hybrid"] as const) {
+      const output = await searchDocs({ docs_id: docsId, query: "stop a fetch request", mode });
+      const top = output.results[0]?.path;
+      check(top === "cancel.md" || top === "timeout.md", `${mode} ranks a request section first (${top})`);
+      check(output.keyword_fallback === undefined, `${mode} uses the vector index`);
+    }
+    console.log("");
+
+    // Test 5
+    console.log("5. Without a vector index...");
+    delete process.env.MCP_DOCS_SEMANTIC_INDEX;
+    await indexDocs({ url: dir, force_refresh: true });
+    check(
+      (await cacheManager.getVectorIndex("local", docsId)) === null,
+      "Re-indexing removes the earlier vector index"
+    );
+    for (const mode of ["semantic", "hybrid"] as const) {
+      const output = await searchDocs({ docs_id: docsId, query: "abort controller", mode });
+      check(
+        output.results.length > 0 && output.keyword_fallback?.[0] === docsId,
+        `${mode} falls back to keywords (${output.results.length} results)`
+      );
+    }
+  } finally {
+    delete process.env.MCP_DOCS_SEMANTIC_INDEX;
+    if (docsId) {
+      await cacheManager.clearEntry("local", docsId);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n=== ${failures === 0 ? "All tests passed" : `${failures} check(s) failed`} ===`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Test failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,409 @@
+/**
+ * HTTP transport - Serves MCP over Streamable HTTP, with the legacy
+ * HTTP+SSE transport for older clients.
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp - Streamable HTTP (session in the Mcp-Session-Id header)
+ * - GET /sse, POST /messages?sessionId=... - legacy HTTP+SSE
+ * - GET /health - liveness check (no auth)
+ *
+ * Each session gets its own McpServer; all sessions share the docs cache
+ * and the in-memory index cache, so one instance can serve a whole team.
+ *
+ * Requests whose Host or Origin header names a host the server wasn't
+ * bound to are rejected, so web pages can't reach a local server through
+ * DNS rebinding.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * HTTP transport settings.
+ */
+export interface HttpServerOptions {
+  /** Address to bind (default: "127.0.0.1") */
+  host?: string;
+  /** Port to listen on (default: 3000, 0 = any free port) */
+  port?: number;
+  /** Bearer token required on every request (no auth if unset) */
+  authToken?: string;
+  /** Close sessions idle for this long, in ms (default: 30 minutes) */
+  sessionIdleMs?: number;
+  /**
+   * Hostnames clients may use in the Host header, besides the bound host
+   * (default: none; any hostname when bound to all interfaces)
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * A running HTTP server.
+ */
+export interface HttpServerHandle {
+  /** Base URL the server listens on */
+  url: string;
+  /** Closes all sessions and stops listening */
+  close(): Promise<void>;
+}
+
+/**
+ * An MCP session over either HTTP transport.
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  /** Responses still open (event streams, requests in progress) */
+  openResponses: number;
+}
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3000;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/** Hostnames that reach a server bound to a loopback address */
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/** Bind addresses that listen on all interfaces */
+const WILDCARD_HOSTS = ["0.0.0.0", "::", "[::]"];
+
+/** How often idle sessions are looked for */
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Largest accepted request body */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Endpoint legacy SSE clients post their messages to */
+const SSE_MESSAGES_PATH = "/messages";
+
+/**
+ * Starts the HTTP server.
+ *
+ * @param createMcpServer Creates the MCP server for a new session
+ * @param options Bind address, port, auth token, session timeout and allowed hosts
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions = {}
+): Promise<HttpServerHandle> {
+  const host = options.host ?? DEFAULT_HOST;
+  const port = options.port ?? DEFAULT_PORT;
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sessions = new Map<string, Session>();
+  const allowedHostnames = getAllowedHostnames(host, options.allowedHosts);
+
+  if (!options.authToken && !isLoopback(host)) {
+    console.error(
+      `[http] Warning: listening on ${host} without an auth token. Anyone who can reach this address can use the server.`
+    );
+  }
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => {});
+  };
+
+  /**
+   * Counts a response as session activity until it closes, so sessions
+   * holding an open stream or a long request aren't closed as idle.
+   */
+  const trackResponse = (session: Session, res: ServerResponse): void => {
+    session.openResponses++;
+    session.lastSeen = Date.now();
+    res.once("close", () => {
+      session.openResponses--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  /**
+   * Streamable HTTP: an initialize request without a session starts one;
+   * other requests go to the transport of their session.
+   */
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      trackResponse(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, -32000, "Missing Mcp-Session-Id header");
+      return;
+    }
+
+    const body = await readJsonBody(req, res);
+    if (body === undefined) return;
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "No session: send an initialize request first");
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastSeen: Date.now(), openResponses: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Legacy SSE: GET opens the event stream (and the session), and the
+   * client posts its messages to the endpoint announced on the stream.
+   */
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const session: Session = { transport, server, lastSeen: Date.now(), openResponses: 0 };
+    sessions.set(transport.sessionId, session);
+    // The session lives as long as its event stream
+    trackResponse(session, res);
+    transport.onclose = () => void closeSession(transport.sessionId);
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    trackResponse(session, res);
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (!isAllowedOrigin(req, allowedHostnames)) {
+        sendJsonRpcError(res, 403, -32000, "Forbidden: host or origin not allowed");
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="mcp-docs-scraper"');
+        sendJsonRpcError(res, 401, -32001, "Unauthorized: missing or invalid bearer token");
+        return;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseConnect(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url.searchParams.get("sessionId"));
+      } else {
+        sendJsonRpcError(res, 404, -32601, `Not found: ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      console.error(
+        `[http] ${req.method} ${url.pathname} failed:`,
+        error instanceof Error ? error.message : error
+      );
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Close sessions whose client went away without ending them
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - sessionIdleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.openResponses === 0 && session.lastSeen < cutoff) {
+        console.error(`[http] Closing idle session ${sessionId}`);
+        void closeSession(sessionId);
+      }
+    }
+  }, Math.min(SESSION_SWEEP_INTERVAL_MS, sessionIdleMs));
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const urlHost = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${urlHost}:${address.port}`,
+
+    async close(): Promise<void> {
+      clearInterval(sweeper);
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      // Open SSE streams would keep the server from closing
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Checks the bearer token of a request. Always true when no token is set.
+ */
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) return true;
+
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  // Compare digests, so the comparison takes the same time for any token length
+  const digest = (token: string) => createHash("sha256").update(token).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(authToken));
+}
+
+/**
+ * Gets the hostnames allowed in Host and Origin headers, or null to allow
+ * any (bound to all interfaces with no hosts configured).
+ */
+function getAllowedHostnames(host: string, allowedHosts: string[] = []): Set<string> | null {
+  if (WILDCARD_HOSTS.includes(host) && allowedHosts.length === 0) {
+    return null;
+  }
+
+  const hostnames = new Set(allowedHosts.map(normalizeHostname));
+  if (WILDCARD_HOSTS.includes(host) || isLoopback(host)) {
+    LOOPBACK_HOSTNAMES.forEach((hostname) => hostnames.add(hostname));
+  } else {
+    hostnames.add(normalizeHostname(host));
+  }
+  return hostnames;
+}
+
+/**
+ * Checks the Host and Origin headers of a request. Without an allowlist,
+ * the Origin (if sent) must match the Host.
+ */
+function isAllowedOrigin(req: IncomingMessage, allowedHostnames: Set<string> | null): boolean {
+  const hostname = parseHostname(req.headers.host && `http://${req.headers.host}`);
+  if (!hostname || (allowedHostnames && !allowedHostnames.has(hostname))) {
+    return false;
+  }
+
+  // Non-browser clients send no Origin
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+
+  const originHostname = parseHostname(origin);
+  return !!originHostname && (allowedHostnames?.has(originHostname) ?? originHostname === hostname);
+}
+
+/**
+ * Gets the hostname of an HTTP(S) origin. Returns null if it isn't one
+ * (e.g. the "null" origin of sandboxed pages).
+ */
+function parseHostname(origin: string | undefined): string | null {
+  if (!origin) return null;
+  try {
+    const url = new URL(origin);
+    const isOrigin = url.pathname === "/" && !url.search && !url.hash && !url.username;
+    return isOrigin && (url.protocol === "http:" || url.protocol === "https:")
+      ? url.hostname
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lowercases a hostname and brackets IPv6 addresses, as in Host headers.
+ */
+function normalizeHostname(hostname: string): string {
+  const lower = hostname.trim().toLowerCase();
+  return lower.includes(":") && !lower.startsWith("[") ? `[${lower}]` : lower;
+}
+
+/**
+ * Checks if a bind address is only reachable from this machine.
+ */
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+/**
+ * Reads and parses a JSON request body. Sends an error response and
+ * returns undefined if the body is too large or not valid JSON.
+ */
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      sendJsonRpcError(res, 413, -32600, "Request body too large");
+      return undefined;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON");
+    return undefined;
+  }
+}
+
+/**
+ * Sends a JSON response.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Sends a JSON-RPC error response (not tied to a request ID).
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
@@ -1,9 +1,58 @@
 #!/usr/bin/env node
 
-import { createServer } from "./server.js";
+import { parseArgs } from "node:util";
+import { createServer, type ServerOptions } from "./server.js";
+
+/**
+ * Reads the transport settings from command-line flags, falling back to
+ * environment variables:
+ *
+ * --transport stdio|http  MCP_DOCS_TRANSPORT  (default: stdio)
+ * --host <address>        MCP_DOCS_HOST       (default: 127.0.0.1)
+ * --port <number>         MCP_DOCS_PORT       (default: 3000)
+ * --auth-token <token>    MCP_DOCS_AUTH_TOKEN (default: none)
+ * --allowed-hosts <list>  MCP_DOCS_ALLOWED_HOSTS (comma-separated, default: none)
+ */
+function getServerOptions(): ServerOptions {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+      "auth-token": { type: "string" },
+      "allowed-hosts": { type: "string" },
+    },
+  });
+
+  const transport = values.transport ?? process.env.MCP_DOCS_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport: "${transport}". Expected "stdio" or "http".`);
+  }
+
+  const portValue = values.port ?? process.env.MCP_DOCS_PORT;
+  const port = portValue === undefined ? undefined : Number(portValue);
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new Error(`Invalid port: "${portValue}".`);
+  }
+
+  const allowedHosts = (values["allowed-hosts"] ?? process.env.MCP_DOCS_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim())
+    .filter(Boolean);
+
+  return {
+    transport,
+    http: {
+      host: values.host || process.env.MCP_DOCS_HOST || undefined,
+      port,
+      authToken: values["auth-token"] || process.env.MCP_DOCS_AUTH_TOKEN || undefined,
+      allowedHosts: allowedHosts.length > 0 ? allowedHosts : undefined,
+    },
+  };
+}
 
 async function main(): Promise<void> {
-  const server = createServer();
+  const server = createServer(getServerOptions());
 
   // Handle graceful shutdown
   process.on("SIGINT", async () => {
@@ -23,4 +72,3 @@ main().catch((error) => {
   console.error("Fatal error:", error);
   process.exit(1);
 });
-
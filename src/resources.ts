@@ -0,0 +1,245 @@
+/**
+ * MCP resources - Exposes cached docs so clients can attach them directly.
+ *
+ * Resource templates:
+ * - docs://{docs_id}/tree - file tree of a docs set (JSON)
+ * - docs://{docs_id}/file/{+path} - one cached file (markdown)
+ *
+ * resources/list pages through every docs set: its tree, then its files.
+ */
+
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  type ListResourcesResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { CacheMeta, DocsTreeNode } from "./types/cache.js";
+import { cacheManager } from "./services/cache-manager.js";
+import { getDocsTree } from "./tools/index.js";
+
+/**
+ * Position in the resource listing: docs set index, then resource index
+ * within that set (0 = tree, 1.. = files).
+ */
+interface ListCursor {
+  e: number;
+  r: number;
+}
+
+/** Resources per resources/list page */
+const PAGE_SIZE = 100;
+
+/** Most completion values returned */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Callbacks that send resources/list_changed, one per connected server.
+ */
+const listChangedListeners = new Set<() => void>();
+
+/**
+ * Registers the docs resources on a server.
+ */
+export function registerDocsResources(server: McpServer): void {
+  server.registerResource(
+    "docs-tree",
+    new ResourceTemplate("docs://{docs_id}/tree", {
+      // Listed by the paged resources/list handler below
+      list: undefined,
+      complete: { docs_id: completeDocsId },
+    }),
+    {
+      title: "Docs Tree",
+      description: "File tree of a cached docs set, with sizes and estimated tokens",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const docsId = decodeURIComponent(String(variables.docs_id));
+      const tree = await getDocsTree({ docs_id: docsId }).catch(() => {
+        throw new McpError(ErrorCode.InvalidParams, `Docs not found: ${docsId}`);
+      });
+      return {
+        contents: [
+          { uri: uri.href, mimeType: "application/json", text: JSON.stringify(tree, null, 2) },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    "docs-file",
+    new ResourceTemplate("docs://{docs_id}/file/{+path}", {
+      list: undefined,
+      complete: { docs_id: completeDocsId, path: completeFilePath },
+    }),
+    {
+      title: "Docs File",
+      description: "A cached documentation file",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const docsId = decodeURIComponent(String(variables.docs_id));
+      const path = String(variables.path).split("/").map(decodeURIComponent).join("/");
+
+      const meta = await cacheManager.findById(docsId);
+      // Only serve files listed in the tree, so paths can't leave the cache entry
+      if (!meta || !collectFilePaths(meta.tree).includes(path)) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri.href}`);
+      }
+
+      const content = await cacheManager.getContent(meta.source, meta.id, path);
+      if (content === null) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri.href}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: content }],
+      };
+    }
+  );
+
+  // McpServer lists template resources without paging; replace its handler
+  server.server.setRequestHandler(ListResourcesRequestSchema, (request) =>
+    listDocsResources(request.params?.cursor)
+  );
+
+  const notify = () => server.sendResourceListChanged();
+  listChangedListeners.add(notify);
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    listChangedListeners.delete(notify);
+    previousOnClose?.();
+  };
+}
+
+/**
+ * Tells every connected client that the docs resources changed
+ * (after docs were indexed or cleared).
+ */
+export function notifyResourceListChanged(): void {
+  for (const notify of listChangedListeners) {
+    notify();
+  }
+}
+
+/**
+ * Lists one page of docs resources.
+ */
+async function listDocsResources(cursor?: string): Promise<ListResourcesResult> {
+  const start = decodeCursor(cursor);
+  const entries = (await cacheManager.listEntries()).sort(
+    (a, b) => a.source.localeCompare(b.source) || a.id.localeCompare(b.id)
+  );
+  const resources: Resource[] = [];
+
+  for (let e = start.e; e < entries.length; e++) {
+    const meta = await cacheManager.getMeta(entries[e].source, entries[e].id);
+    if (!meta) continue;
+
+    const docsResources = getResources(meta);
+    for (let r = e === start.e ? start.r : 0; r < docsResources.length; r++) {
+      if (resources.length === PAGE_SIZE) {
+        return { resources, nextCursor: encodeCursor({ e, r }) };
+      }
+      resources.push(docsResources[r]);
+    }
+  }
+
+  return { resources };
+}
+
+/**
+ * Gets the resources of a docs set: its tree, then its files.
+ */
+function getResources(meta: CacheMeta): Resource[] {
+  const base = `docs://${encodeURIComponent(meta.id)}`;
+  const label = meta.repo ?? meta.base_url ?? meta.local_path ?? meta.id;
+
+  return [
+    {
+      uri: `${base}/tree`,
+      name: `${meta.id} tree`,
+      title: `${label} (file tree)`,
+      description: `File tree of ${label} (${meta.page_count} files)`,
+      mimeType: "application/json",
+    },
+    ...collectFileNodes(meta.tree).map((node) => ({
+      uri: `${base}/file/${node.path.split("/").map(encodeURIComponent).join("/")}`,
+      name: `${meta.id}/${node.path}`,
+      title: node.name,
+      mimeType: "text/markdown",
+      ...(node.size_bytes !== undefined && { size: node.size_bytes }),
+    })),
+  ];
+}
+
+/**
+ * Completes docs IDs.
+ */
+async function completeDocsId(value: string): Promise<string[]> {
+  return (await cacheManager.listEntries())
+    .map((entry) => entry.id)
+    .filter((id) => id.startsWith(value))
+    .slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Completes file paths of the docs set named in the other arguments.
+ */
+async function completeFilePath(
+  value: string,
+  context?: { arguments?: Record<string, string> }
+): Promise<string[]> {
+  const docsId = context?.arguments?.docs_id;
+  const meta = docsId ? await cacheManager.findById(docsId) : null;
+  if (!meta) return [];
+
+  return collectFilePaths(meta.tree)
+    .filter((path) => path.startsWith(value))
+    .slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Collects the file nodes of a tree, depth-first.
+ */
+function collectFileNodes(nodes: DocsTreeNode[]): DocsTreeNode[] {
+  return nodes.flatMap((node) =>
+    node.type === "file" ? [node] : collectFileNodes(node.children ?? [])
+  );
+}
+
+/**
+ * Collects the file paths of a tree.
+ */
+function collectFilePaths(nodes: DocsTreeNode[]): string[] {
+  return collectFileNodes(nodes).map((node) => node.path);
+}
+
+/**
+ * Encodes a listing position as an opaque cursor.
+ */
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor from encodeCursor (start of the listing if absent).
+ */
+function decodeCursor(cursor: string | undefined): ListCursor {
+  if (!cursor) return { e: 0, r: 0 };
+
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (Number.isInteger(parsed.e) && Number.isInteger(parsed.r) && parsed.e >= 0 && parsed.r >= 0) {
+      return parsed;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+}
@@ -0,0 +1,442 @@
+/**
+ * Output schemas - zod schemas of the tool outputs, declared as each
+ * tool's outputSchema so clients can parse structuredContent reliably.
+ *
+ * Every object schema is checked against its TypeScript interface at
+ * compile time (same fields, same types): the JSON Schema sent to
+ * clients forbids additional properties, so a field missing here would
+ * make valid results fail validation.
+ */
+
+import { z } from "zod";
+import type {
+  CacheSource,
+  DocsTreeNode,
+  IndexJob,
+  IndexJobPhase,
+  IndexJobStatus,
+} from "./types/cache.js";
+import type { DocsErrorCode } from "./types/errors.js";
+import type { RepoProviderId } from "./services/repo-provider.js";
+import type { ParsedQuery, QueryClause, QueryField } from "./services/query-parser.js";
+import type { CodeSearchResult } from "./services/search-index.js";
+import type {
+  CachedDocsEntry,
+  CachedDocsGroup,
+  CancelIndexJobOutput,
+  ClearCacheOutput,
+  ContentRange,
+  DetectGitHubOutput,
+  DocsSearchResult,
+  FileContent,
+  GetDocsContentOutput,
+  GetDocsTreeOutput,
+  GetIndexJobOutput,
+  IndexDocsJobOutput,
+  IndexDocsOutput,
+  ListCachedDocsOutput,
+  ListIndexJobsOutput,
+  SearchCodeOutput,
+  SearchDocsOutput,
+  SearchMode,
+  SelectedSection,
+} from "./tools/index.js";
+
+/**
+ * A zod shape with exactly the fields of T, each typed as in T.
+ */
+type ShapeOf<T> = { [K in keyof Required<T>]: z.ZodType<T[K]> };
+
+/**
+ * Creates an enum schema with exactly the members of a string union.
+ */
+function enumOf<T extends string>(values: { [K in T]: K }) {
+  return z.enum(values);
+}
+
+// =============================================================================
+// Shared
+// =============================================================================
+
+const cacheSourceSchema = enumOf<CacheSource>({
+  github: "github",
+  gitlab: "gitlab",
+  gitea: "gitea",
+  bitbucket: "bitbucket",
+  scraped: "scraped",
+  local: "local",
+});
+
+const docsErrorCodeSchema = enumOf<DocsErrorCode>({
+  INVALID_URL: "INVALID_URL",
+  GITHUB_RATE_LIMIT: "GITHUB_RATE_LIMIT",
+  GITHUB_NOT_FOUND: "GITHUB_NOT_FOUND",
+  GITHUB_ACCESS_DENIED: "GITHUB_ACCESS_DENIED",
+  REPO_NOT_FOUND: "REPO_NOT_FOUND",
+  REPO_ACCESS_DENIED: "REPO_ACCESS_DENIED",
+  REF_NOT_FOUND: "REF_NOT_FOUND",
+  CACHE_NOT_FOUND: "CACHE_NOT_FOUND",
+  JOB_NOT_FOUND: "JOB_NOT_FOUND",
+  LOCAL_PATH_NOT_FOUND: "LOCAL_PATH_NOT_FOUND",
+  GIT_ERROR: "GIT_ERROR",
+  SCRAPING_BLOCKED: "SCRAPING_BLOCKED",
+  NO_CONTENT: "NO_CONTENT",
+  NETWORK_ERROR: "NETWORK_ERROR",
+  PARSE_ERROR: "PARSE_ERROR",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
+  CANCELLED: "CANCELLED",
+  UNKNOWN_ERROR: "UNKNOWN_ERROR",
+});
+
+const docsTreeNodeSchema: z.ZodType<DocsTreeNode> = z.object({
+  name: z.string(),
+  path: z.string(),
+  type: z.enum(["file", "folder"]),
+  size_bytes: z.number().optional(),
+  estimated_tokens: z.number().optional(),
+  get children() {
+    return z.array(docsTreeNodeSchema).optional();
+  },
+} satisfies ShapeOf<DocsTreeNode>);
+
+const queryClauseSchema = z.object({
+  text: z.string(),
+  phrase: z.boolean(),
+  field: enumOf<QueryField>({
+    title: "title",
+    heading: "heading",
+    path: "path",
+    code: "code",
+  }).optional(),
+} satisfies ShapeOf<QueryClause>);
+
+const parsedQuerySchema = z.object({
+  groups: z.array(z.array(queryClauseSchema)),
+  required: z.array(queryClauseSchema),
+  excluded: z.array(queryClauseSchema),
+  fuzzy: z.union([z.number(), z.literal(false)]),
+  prefix: z.boolean(),
+} satisfies ShapeOf<ParsedQuery>);
+
+/**
+ * An error result (DocsError.toJSON()), sent as structuredContent with
+ * isError.
+ */
+const errorSchema = z.object({
+  error: z.literal(true),
+  code: docsErrorCodeSchema,
+  message: z.string(),
+  suggestions: z.array(z.string()).optional(),
+  context: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Gets the fields an object schema requires.
+ */
+function requiredKeys(schema: z.ZodObject): string[] {
+  return Object.keys(schema.shape).filter(
+    (key) => !schema.shape[key].safeParse(undefined).success
+  );
+}
+
+/**
+ * Turns result schemas into the outputSchema of a tool: one of the results,
+ * or an error. The SDK takes a single object schema, so every field is
+ * declared on it as optional, and `anyOf` in the JSON Schema sent to
+ * clients requires the fields of one shape. A check does the same for the
+ * results validated on the server.
+ */
+function toolOutput(...results: z.ZodObject[]) {
+  const shapes = [...results, errorSchema];
+  const union = z.union(shapes);
+
+  return z
+    .object(Object.assign({}, ...shapes.map((shape) => shape.partial().shape)))
+    .check((ctx) => {
+      if (!union.safeParse(ctx.value).success) {
+        ctx.issues.push({
+          code: "custom",
+          message: "Expected a tool result or an error",
+          input: ctx.value,
+        });
+      }
+    })
+    .meta({ anyOf: shapes.map((shape) => ({ required: requiredKeys(shape) })) });
+}
+
+// =============================================================================
+// list_cached_docs / clear_cache
+// =============================================================================
+
+const cachedDocsEntrySchema = z.object({
+  id: z.string(),
+  source: cacheSourceSchema,
+  repo: z.string().optional(),
+  host: z.string().optional(),
+  base_url: z.string().optional(),
+  local_path: z.string().optional(),
+  ref: z.string().optional(),
+  commit_sha: z.string().optional(),
+  indexed_at: z.string(),
+  page_count: z.number(),
+  total_size_bytes: z.number(),
+} satisfies ShapeOf<CachedDocsEntry>);
+
+const cachedDocsGroupSchema = z.object({
+  source: cacheSourceSchema,
+  name: z.string(),
+  host: z.string().optional(),
+  versions: z.array(cachedDocsEntrySchema),
+} satisfies ShapeOf<CachedDocsGroup>);
+
+export const listCachedDocsOutputSchema = toolOutput(
+  z.object({
+    docs: z.array(cachedDocsEntrySchema),
+    groups: z.array(cachedDocsGroupSchema).optional(),
+  } satisfies ShapeOf<ListCachedDocsOutput>)
+);
+
+export const clearCacheOutputSchema = toolOutput(
+  z.object({
+    cleared: z.array(z.string()),
+    remaining: z.number(),
+  } satisfies ShapeOf<ClearCacheOutput>)
+);
+
+// =============================================================================
+// index_docs
+// =============================================================================
+
+const indexDocsResultSchema = z.object({
+  id: z.string(),
+  source: cacheSourceSchema,
+  repo: z.string().optional(),
+  host: z.string().optional(),
+  base_url: z.string().optional(),
+  local_path: z.string().optional(),
+  ref: z.string().optional(),
+  commit_sha: z.string().optional(),
+  tree: z.array(docsTreeNodeSchema),
+  stats: z.object({
+    pages: z.number(),
+    total_size_bytes: z.number(),
+    indexed_at: z.string(),
+    listing_complete: z.boolean().optional(),
+    changes: z
+      .object({
+        added: z.number(),
+        changed: z.number(),
+        removed: z.number(),
+        unchanged: z.number(),
+      })
+      .optional(),
+  } satisfies ShapeOf<IndexDocsOutput["stats"]>),
+  detection_method: z.string().optional(),
+} satisfies ShapeOf<IndexDocsOutput>);
+
+const indexJobStatusSchema = enumOf<IndexJobStatus>({
+  running: "running",
+  completed: "completed",
+  failed: "failed",
+  cancelled: "cancelled",
+});
+
+const indexDocsJobSchema = z.object({
+  job_id: z.string(),
+  status: indexJobStatusSchema,
+  message: z.string(),
+} satisfies ShapeOf<IndexDocsJobOutput>);
+
+/**
+ * index_docs returns the indexed docs, or the started job with async: true
+ * (told apart by job_id).
+ */
+export const indexDocsOutputSchema = toolOutput(indexDocsResultSchema, indexDocsJobSchema);
+
+// =============================================================================
+// Background jobs
+// =============================================================================
+
+const indexJobSchema = z.object({
+  job_id: z.string(),
+  status: indexJobStatusSchema,
+  phase: enumOf<IndexJobPhase>({
+    starting: "starting",
+    crawling: "crawling",
+    downloading: "downloading",
+    finished: "finished",
+  }),
+  request: z.object({
+    url: z.string(),
+    type: z.string().optional(),
+    ref: z.string().optional(),
+    force_refresh: z.boolean().optional(),
+  } satisfies ShapeOf<IndexJob["request"]>),
+  progress: z.object({
+    current: z.number(),
+    total: z.number().optional(),
+    message: z.string(),
+  } satisfies ShapeOf<IndexJob["progress"]>),
+  docs_id: z.string().optional(),
+  source: cacheSourceSchema.optional(),
+  pages: z.number().optional(),
+  error: z
+    .object({
+      code: docsErrorCodeSchema,
+      message: z.string(),
+      suggestions: z.array(z.string()).optional(),
+    } satisfies ShapeOf<NonNullable<IndexJob["error"]>>)
+    .optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  finished_at: z.string().optional(),
+  pid: z.number(),
+} satisfies ShapeOf<IndexJob>);
+
+export const getIndexJobOutputSchema = toolOutput(
+  z.object({
+    job: indexJobSchema,
+  } satisfies ShapeOf<GetIndexJobOutput>)
+);
+
+export const listIndexJobsOutputSchema = toolOutput(
+  z.object({
+    jobs: z.array(indexJobSchema),
+    total: z.number(),
+  } satisfies ShapeOf<ListIndexJobsOutput>)
+);
+
+export const cancelIndexJobOutputSchema = toolOutput(
+  z.object({
+    cancelled: z.boolean(),
+    job: indexJobSchema,
+  } satisfies ShapeOf<CancelIndexJobOutput>)
+);
+
+// =============================================================================
+// get_docs_tree / get_docs_content
+// =============================================================================
+
+export const getDocsTreeOutputSchema = toolOutput(
+  z.object({
+    docs_id: z.string(),
+    path: z.string(),
+    tree: z.array(docsTreeNodeSchema),
+  } satisfies ShapeOf<GetDocsTreeOutput>)
+);
+
+const contentRangeSchema = z.object({
+  line_start: z.number(),
+  line_end: z.number(),
+  byte_start: z.number(),
+  byte_end: z.number(),
+  total_lines: z.number(),
+  total_bytes: z.number(),
+} satisfies ShapeOf<ContentRange>);
+
+const selectedSectionSchema = z.object({
+  heading: z.string(),
+  breadcrumb: z.array(z.string()),
+  anchor: z.string(),
+  match: z.enum(["exact", "fuzzy"]),
+} satisfies ShapeOf<SelectedSection>);
+
+const fileContentSchema = z.object({
+  content: z.string(),
+  title: z.string().optional(),
+  headings: z.array(z.string()),
+  size_bytes: z.number(),
+  estimated_tokens: z.number(),
+  range: contentRangeSchema.optional(),
+  section: selectedSectionSchema.optional(),
+  truncated: z.boolean().optional(),
+  next_cursor: z.string().optional(),
+} satisfies ShapeOf<FileContent>);
+
+export const getDocsContentOutputSchema = toolOutput(
+  z.object({
+    docs_id: z.string(),
+    contents: z.record(z.string(), fileContentSchema),
+    not_found: z.array(z.string()),
+    selection_errors: z.record(z.string(), z.string()).optional(),
+  } satisfies ShapeOf<GetDocsContentOutput>)
+);
+
+// =============================================================================
+// search_docs / search_code
+// =============================================================================
+
+const docsSearchResultSchema = z.object({
+  path: z.string(),
+  title: z.string(),
+  anchor: z.string(),
+  breadcrumb: z.array(z.string()),
+  line_start: z.number(),
+  line_end: z.number(),
+  snippet: z.string(),
+  score: z.number(),
+  docs_id: z.string().optional(),
+  source: cacheSourceSchema.optional(),
+  normalized_score: z.number().optional(),
+} satisfies ShapeOf<DocsSearchResult>);
+
+export const searchDocsOutputSchema = toolOutput(
+  z.object({
+    docs_id: z.string().optional(),
+    docs_ids: z.array(z.string()).optional(),
+    query: z.string(),
+    mode: enumOf<SearchMode>({
+      keyword: "keyword",
+      semantic: "semantic",
+      hybrid: "hybrid",
+    }),
+    parsed_query: parsedQuerySchema,
+    results: z.array(docsSearchResultSchema),
+    skipped: z
+      .array(z.object({ docs_id: z.string(), reason: z.string() }))
+      .optional(),
+    keyword_fallback: z.array(z.string()).optional(),
+  } satisfies ShapeOf<SearchDocsOutput>)
+);
+
+const codeSearchResultSchema = z.object({
+  path: z.string(),
+  anchor: z.string(),
+  breadcrumb: z.array(z.string()),
+  language: z.string(),
+  code: z.string(),
+  truncated: z.boolean(),
+  line_start: z.number(),
+  line_end: z.number(),
+  score: z.number(),
+} satisfies ShapeOf<CodeSearchResult>);
+
+export const searchCodeOutputSchema = toolOutput(
+  z.object({
+    docs_id: z.string(),
+    query: z.string(),
+    parsed_query: parsedQuerySchema,
+    results: z.array(codeSearchResultSchema),
+  } satisfies ShapeOf<SearchCodeOutput>)
+);
+
+// =============================================================================
+// detect_github_repo
+// =============================================================================
+
+export const detectGitHubOutputSchema = toolOutput(
+  z.object({
+    found: z.boolean(),
+    repo: z.string().optional(),
+    provider: enumOf<RepoProviderId>({
+      github: "github",
+      gitlab: "gitlab",
+      gitea: "gitea",
+      bitbucket: "bitbucket",
+    }).optional(),
+    host: z.string().optional(),
+    docs_path: z.string().optional(),
+    confidence: z.enum(["high", "medium", "low"]),
+    detection_method: z.string().optional(),
+  } satisfies ShapeOf<DetectGitHubOutput>)
+);
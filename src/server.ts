@@ -1,5 +1,11 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   listCachedDocs,
@@ -8,16 +14,127 @@ import {
   getDocsTree,
   getDocsContent,
   searchDocs,
+  searchCode,
   detectGitHub,
+  startIndexJob,
+  getIndexJob,
+  listIndexJobs,
+  cancelIndexJob,
+  type IndexProgress,
 } from "./tools/index.js";
 import { createErrorResponse } from "./types/errors.js";
+import {
+  cancelIndexJobOutputSchema,
+  clearCacheOutputSchema,
+  detectGitHubOutputSchema,
+  getDocsContentOutputSchema,
+  getDocsTreeOutputSchema,
+  getIndexJobOutputSchema,
+  indexDocsOutputSchema,
+  listCachedDocsOutputSchema,
+  listIndexJobsOutputSchema,
+  searchCodeOutputSchema,
+  searchDocsOutputSchema,
+} from "./schemas.js";
+import { notifyResourceListChanged, registerDocsResources } from "./resources.js";
+import {
+  startHttpServer,
+  type HttpServerHandle,
+  type HttpServerOptions,
+} from "./http-server.js";
 
 export interface DocsScraperServer {
   run(): Promise<void>;
   close(): Promise<void>;
 }
 
-export function createServer(): DocsScraperServer {
+/**
+ * Transport the server is reached over.
+ */
+export type TransportMode = "stdio" | "http";
+
+export interface ServerOptions {
+  /** Transport (default: "stdio") */
+  transport?: TransportMode;
+  /** Settings of the HTTP transport */
+  http?: HttpServerOptions;
+}
+
+export function createServer(options: ServerOptions = {}): DocsScraperServer {
+  if (options.transport === "http") {
+    let httpServer: HttpServerHandle | null = null;
+
+    return {
+      async run(): Promise<void> {
+        // Each HTTP session gets its own McpServer
+        httpServer = await startHttpServer(createMcpServer, options.http);
+        console.error(`MCP Docs Scraper server running on ${httpServer.url}`);
+      },
+
+      async close(): Promise<void> {
+        await httpServer?.close();
+      },
+    };
+  }
+
+  const server = createMcpServer();
+  const transport = new StdioServerTransport();
+
+  return {
+    async run(): Promise<void> {
+      await server.connect(transport);
+      console.error("MCP Docs Scraper server running on stdio");
+    },
+
+    async close(): Promise<void> {
+      await server.close();
+    },
+  };
+}
+
+/**
+ * Creates a tool response carrying the result both as JSON text and as
+ * structuredContent (validated against the tool's outputSchema).
+ */
+function createToolResponse(result: object): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    structuredContent: { ...result },
+  };
+}
+
+/**
+ * Creates a callback sending progress notifications for a request, or
+ * undefined if the client didn't ask for progress (no progress token).
+ * Progress never goes back, as the protocol requires: after a fallback
+ * to another source restarts the count, updates resume once it passes
+ * the last value sent.
+ */
+function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ((progress: IndexProgress) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  let lastProgress = -1;
+  return ({ current, total, message }) => {
+    if (current <= lastProgress) return;
+    lastProgress = current;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: current, total, message },
+      })
+      .catch(() => {
+        // The client may be gone; indexing goes on regardless
+      });
+  };
+}
+
+/**
+ * Creates an MCP server with all tools registered.
+ */
+function createMcpServer(): McpServer {
   const server = new McpServer({
     name: "mcp-docs-scraper",
     version: "0.1.0",
@@ -31,14 +148,18 @@ export function createServer(): DocsScraperServer {
     {
       title: "List Cached Docs",
       description:
-        "List all cached documentation sets. Use to find docs_id values for other tools, or check if docs need indexing. Returns: id, source (github/scraped), repo or base_url, indexed_at, page_count, total_size_bytes.",
-      inputSchema: {},
+        "List all cached documentation sets. Use to find docs_id values for other tools, or check if docs need indexing. Returns: id, source (github/gitlab/gitea/bitbucket/scraped/local), repo, base_url or local_path, ref, commit_sha, indexed_at, page_count, total_size_bytes.",
+      inputSchema: {
+        group_versions: z
+          .boolean()
+          .optional()
+          .describe("Also return groups of cached versions (refs) per repository"),
+      },
+      outputSchema: listCachedDocsOutputSchema,
     },
-    async () => {
-      const result = await listCachedDocs();
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-      };
+    async ({ group_versions }) => {
+      const result = await listCachedDocs({ group_versions });
+      return createToolResponse(result);
     }
   );
 
@@ -58,12 +179,14 @@ export function createServer(): DocsScraperServer {
           .describe("Specific docs ID to clear (e.g., 'colinhacks_zod')"),
         all: z.boolean().optional().describe("Clear all cached docs"),
       },
+      outputSchema: clearCacheOutputSchema,
     },
     async ({ docs_id, all }) => {
       const result = await clearCache({ docs_id, all });
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-      };
+      if (result.cleared.length > 0) {
+        notifyResourceListChanged();
+      }
+      return createToolResponse(result);
     }
   );
 
@@ -75,29 +198,208 @@ export function createServer(): DocsScraperServer {
     {
       title: "Index Docs",
       description:
-        "Fetch and cache documentation from GitHub or website. REQUIRED before search_docs/get_docs_content. Auto mode tries GitHub first (cleaner), falls back to scraping. Returns docs_id for subsequent operations.",
+        "Fetch and cache documentation from a GitHub, GitLab, Gitea/Forgejo or Bitbucket repository, a website, or a local directory. REQUIRED before search_docs/get_docs_content. Auto mode tries the source repository first (cleaner), then the site's llms.txt/llms-full.txt, then falls back to scraping. Returns docs_id for subsequent operations. For large sites, set async:true to get a job_id at once and poll get_index_job.",
       inputSchema: {
         url: z
           .string()
           .describe(
-            "GitHub repo URL (https://github.com/owner/repo) or docs website URL"
+            "Repository URL (e.g., https://github.com/owner/repo, https://gitlab.com/group/repo), docs website URL, or local path / file:// URL"
           ),
         type: z
-          .enum(["github", "scrape", "auto"])
+          .enum([
+            "github",
+            "gitlab",
+            "gitea",
+            "bitbucket",
+            "scrape",
+            "llms_txt",
+            "local",
+            "auto",
+          ])
+          .optional()
+          .describe(
+            "Source type (default: auto). Use github/gitlab/gitea for self-hosted instances on custom domains"
+          ),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA to index (repositories and local git repos). Use 'latest-release' for a repository's newest release. Each ref gets its own docs_id (e.g., 'owner_repo@v3.0.0')"
+          ),
+        api_base: z
+          .string()
           .optional()
-          .describe("Source type (default: auto)"),
+          .describe(
+            "Repository sources only: API base URL override (e.g., 'https://ghe.example.com/api/v3' for GitHub Enterprise Server)"
+          ),
+        raw_base: z
+          .string()
+          .optional()
+          .describe(
+            "GitHub only: raw content base URL override (e.g., 'https://ghe.example.com/raw')"
+          ),
+        include_patterns: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Scraping only: URL path globs to crawl (e.g., ['/docs/**']). Prefix with 'regex:' for a regular expression"
+          ),
+        exclude_patterns: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Scraping only: URL path globs to skip (e.g., ['/blog/**']). Prefix with 'regex:' for a regular expression"
+          ),
+        crawl_strategy: z
+          .enum(["links", "sitemap", "both"])
+          .optional()
+          .describe(
+            "Scraping only: follow links, crawl pages listed in sitemap.xml, or both (default: links). Use sitemap for large docs sites"
+          ),
+        concurrency: z
+          .number()
+          .optional()
+          .describe("Scraping only: max parallel requests per host (default: 4, max: 16)"),
+        request_delay_ms: z
+          .number()
+          .optional()
+          .describe(
+            "Scraping only: min average delay between requests to a host in ms (default: 500). robots.txt Crawl-delay still applies"
+          ),
         force_refresh: z
           .boolean()
           .optional()
-          .describe("Re-fetch even if cached"),
+          .describe(
+            "Re-fetch even if cached (repositories only download changed files)"
+          ),
+        async: z
+          .boolean()
+          .optional()
+          .describe(
+            "Return a job_id immediately and index in the background; poll get_index_job for the result. Use for large sites that could exceed the client's timeout"
+          ),
+      },
+      outputSchema: indexDocsOutputSchema,
+    },
+    async ({
+      url,
+      type,
+      ref,
+      api_base,
+      raw_base,
+      include_patterns,
+      exclude_patterns,
+      crawl_strategy,
+      concurrency,
+      request_delay_ms,
+      force_refresh,
+      async: runInBackground,
+    }, extra) => {
+      const input = {
+        url,
+        type,
+        ref,
+        api_base,
+        raw_base,
+        include_patterns,
+        exclude_patterns,
+        crawl_strategy,
+        concurrency,
+        request_delay_ms,
+        force_refresh,
+      };
+
+      try {
+        if (runInBackground) {
+          const job = await startIndexJob(input, () => notifyResourceListChanged());
+          return createToolResponse(job);
+        }
+
+        const result = await indexDocs(input, {
+          signal: extra.signal,
+          onProgress: createProgressReporter(extra),
+        });
+        notifyResourceListChanged();
+        return createToolResponse(result);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // get_index_job
+  // ===========================================================================
+  server.registerTool(
+    "get_index_job",
+    {
+      title: "Get Index Job",
+      description:
+        "Get the status of a background indexing job started with index_docs async:true. Returns status (running/completed/failed/cancelled), phase (starting/crawling/downloading/finished), progress counts, error, and the resulting docs_id once completed.",
+      inputSchema: {
+        job_id: z.string().describe("Job ID from index_docs with async:true"),
+      },
+      outputSchema: getIndexJobOutputSchema,
+    },
+    async ({ job_id }) => {
+      try {
+        const result = await getIndexJob({ job_id });
+        return createToolResponse(result);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // list_index_jobs
+  // ===========================================================================
+  server.registerTool(
+    "list_index_jobs",
+    {
+      title: "List Index Jobs",
+      description:
+        "List background indexing jobs, newest first, with status, phase, progress counts, errors and resulting docs_id. Jobs are kept for 7 days after they end.",
+      inputSchema: {
+        status: z
+          .enum(["running", "completed", "failed", "cancelled"])
+          .optional()
+          .describe("Only jobs with this status"),
+        limit: z
+          .number()
+          .optional()
+          .describe("Max jobs (default: 20, max: 100)"),
       },
+      outputSchema: listIndexJobsOutputSchema,
     },
-    async ({ url, type, force_refresh }) => {
+    async ({ status, limit }) => {
       try {
-        const result = await indexDocs({ url, type, force_refresh });
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
+        const result = await listIndexJobs({ status, limit });
+        return createToolResponse(result);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // cancel_index_job
+  // ===========================================================================
+  server.registerTool(
+    "cancel_index_job",
+    {
+      title: "Cancel Index Job",
+      description:
+        "Cancel a running background indexing job. The cache is left as it was before the job started. Returns whether it was cancelled and the job's final state.",
+      inputSchema: {
+        job_id: z.string().describe("Job ID from index_docs with async:true"),
+      },
+      outputSchema: cancelIndexJobOutputSchema,
+    },
+    async ({ job_id }) => {
+      try {
+        const result = await cancelIndexJob({ job_id });
+        return createToolResponse(result);
       } catch (error) {
         return createErrorResponse(error);
       }
@@ -112,7 +414,7 @@ export function createServer(): DocsScraperServer {
     {
       title: "Get Docs Tree",
       description:
-        "Get file/folder structure of cached docs. Use to discover file paths before get_docs_content. Optionally filter by path or limit depth.",
+        "Get file/folder structure of cached docs. Use to discover file paths before get_docs_content. File nodes include size and estimated tokens. Optionally filter by path or limit depth.",
       inputSchema: {
         docs_id: z
           .string()
@@ -120,13 +422,12 @@ export function createServer(): DocsScraperServer {
         path: z.string().optional().describe("Subtree path (e.g., 'docs/api')"),
         max_depth: z.number().optional().describe("Max folder depth to return"),
       },
+      outputSchema: getDocsTreeOutputSchema,
     },
     async ({ docs_id, path, max_depth }) => {
       try {
         const result = await getDocsTree({ docs_id, path, max_depth });
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
+        return createToolResponse(result);
       } catch (error) {
         return createErrorResponse(error);
       }
@@ -141,28 +442,82 @@ export function createServer(): DocsScraperServer {
     {
       title: "Get Docs Content",
       description:
-        "Retrieve markdown content of specific files. Use after search_docs to get full content of relevant files. Returns content, title, headings, and size for each path.",
+        "Retrieve markdown content of specific files. Use after search_docs to get full content of relevant files, or just one section (by heading path or the anchor from search_docs), a line range or a byte range. Use max_tokens to cap large files and next_cursor to continue. Returns content, title, headings, size and estimated tokens for each path, plus the position of the returned slice.",
       inputSchema: {
         docs_id: z
           .string()
           .describe("Docs ID from index_docs or list_cached_docs"),
         paths: z
           .array(z.string())
+          .optional()
           .describe(
-            "File paths to retrieve (e.g., ['README.md', 'docs/guide.md'])"
+            "File paths to retrieve (e.g., ['README.md', 'docs/guide.md']). Not needed with cursor"
           ),
         format: z
           .enum(["markdown", "raw"])
           .optional()
           .describe("Output format (default: markdown)"),
+        section: z
+          .string()
+          .optional()
+          .describe(
+            "Return only this section: heading path, exact or fuzzy (e.g., 'Guides > Routing > Dynamic routes' or 'dynamic routes'), or an anchor from search_docs"
+          ),
+        line_start: z
+          .number()
+          .optional()
+          .describe("Return lines from this line (1-based)"),
+        line_end: z
+          .number()
+          .optional()
+          .describe("Return lines up to this line (inclusive)"),
+        byte_offset: z
+          .number()
+          .optional()
+          .describe("Return content from this byte offset"),
+        byte_length: z
+          .number()
+          .optional()
+          .describe("Number of bytes to return from byte_offset"),
+        max_tokens: z
+          .number()
+          .optional()
+          .describe(
+            "Approximate token budget per file. Longer content is cut at a heading or paragraph boundary and a next_cursor is returned"
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe("next_cursor from a truncated response, to get the next part"),
       },
+      outputSchema: getDocsContentOutputSchema,
     },
-    async ({ docs_id, paths, format }) => {
+    async ({
+      docs_id,
+      paths,
+      format,
+      section,
+      line_start,
+      line_end,
+      byte_offset,
+      byte_length,
+      max_tokens,
+      cursor,
+    }) => {
       try {
-        const result = await getDocsContent({ docs_id, paths, format });
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
+        const result = await getDocsContent({
+          docs_id,
+          paths,
+          format,
+          section,
+          line_start,
+          line_end,
+          byte_offset,
+          byte_length,
+          max_tokens,
+          cursor,
+        });
+        return createToolResponse(result);
       } catch (error) {
         return createErrorResponse(error);
       }
@@ -177,28 +532,139 @@ export function createServer(): DocsScraperServer {
     {
       title: "Search Docs",
       description:
-        "Full-text search within cached docs. FASTEST way to find information—use before get_docs_content. Returns ranked results with file paths and snippets.",
+        "Full-text search within cached docs. FASTEST way to find information—use before get_docs_content. Returns ranked matching sections with file path, section anchor, heading breadcrumb, line range and snippet. Use docs_ids or all:true to search several docs sets when you don't know which one has the answer.",
       inputSchema: {
         docs_id: z
           .string()
+          .optional()
           .describe("Docs ID from index_docs or list_cached_docs"),
+        docs_ids: z
+          .array(z.string())
+          .optional()
+          .describe("Search these docs sets instead of one; hits are labeled with docs_id and source"),
+        all: z
+          .boolean()
+          .optional()
+          .describe("Search every cached docs set"),
         query: z
           .string()
           .describe(
-            "Search query—natural language works well (e.g., 'validate email')"
+            "Search query—natural language works well (e.g., 'validate email'). Also supports \"exact phrases\", +required and -excluded terms, field scoping (title:, heading:, path:, code:) and AND/OR"
           ),
         limit: z
           .number()
           .optional()
           .describe("Max results (default: 10, max: 50)"),
+        mode: z
+          .enum(["keyword", "semantic", "hybrid"])
+          .optional()
+          .describe(
+            "keyword: exact terms (default). semantic: by meaning, for conceptual questions like 'how do I cancel a request'. hybrid: both, merged by rank. Docs sets indexed without a semantic index (MCP_DOCS_SEMANTIC_INDEX) are searched by keyword and listed in keyword_fallback"
+          ),
+        fuzzy: z
+          .union([z.boolean(), z.number()])
+          .optional()
+          .describe(
+            "Fuzzy matching: true/false, or max edit distance as a fraction of term length (default: 0.2)"
+          ),
+        prefix: z
+          .boolean()
+          .optional()
+          .describe("Match terms as word prefixes (default: true)"),
+        path_prefix: z
+          .string()
+          .optional()
+          .describe("Only search files under this path (e.g., 'docs/api/')"),
+        include_paths: z
+          .array(z.string())
+          .optional()
+          .describe("Only search files matching one of these globs (e.g., ['docs/api/**'])"),
+        exclude_paths: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Skip files matching any of these globs (e.g., ['CHANGELOG*']). Globs without '/' match file names at any depth"
+          ),
+        min_score: z
+          .number()
+          .optional()
+          .describe("Skip results scoring below this"),
+      },
+      outputSchema: searchDocsOutputSchema,
+    },
+    async ({
+      docs_id,
+      docs_ids,
+      all,
+      query,
+      limit,
+      mode,
+      fuzzy,
+      prefix,
+      path_prefix,
+      include_paths,
+      exclude_paths,
+      min_score,
+    }) => {
+      try {
+        const result = await searchDocs({
+          docs_id,
+          docs_ids,
+          all,
+          query,
+          limit,
+          mode,
+          fuzzy,
+          prefix,
+          path_prefix,
+          include_paths,
+          exclude_paths,
+          min_score,
+        });
+        return createToolResponse(result);
+      } catch (error) {
+        return createErrorResponse(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // search_code
+  // ===========================================================================
+  server.registerTool(
+    "search_code",
+    {
+      title: "Search Code",
+      description:
+        "Search the code examples in cached docs by identifier (e.g., 'useEffect', 'z.object', 'snake_case_name') or words. Identifiers also match by their camelCase, snake_case and dotted parts. Returns matching code blocks with language tag, file path, surrounding heading breadcrumb and line range.",
+      inputSchema: {
+        docs_id: z
+          .string()
+          .describe("Docs ID from index_docs or list_cached_docs"),
+        query: z
+          .string()
+          .describe(
+            "Identifiers or words to find in code blocks. Supports the search_docs query syntax; unscoped terms only match code"
+          ),
+        limit: z
+          .number()
+          .optional()
+          .describe("Max code blocks (default: 10, max: 30)"),
+        language: z
+          .string()
+          .optional()
+          .describe("Only code blocks with this language tag (e.g., 'ts', 'python')"),
+        path_prefix: z
+          .string()
+          .optional()
+          .describe("Only search files under this path (e.g., 'docs/api/')"),
       },
+      outputSchema: searchCodeOutputSchema,
     },
-    async ({ docs_id, query, limit }) => {
+    async ({ docs_id, query, limit, language, path_prefix }) => {
       try {
-        const result = await searchDocs({ docs_id, query, limit });
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
+        const result = await searchCode({ docs_id, query, limit, language, path_prefix });
+        return createToolResponse(result);
       } catch (error) {
         return createErrorResponse(error);
       }
@@ -217,13 +683,12 @@ export function createServer(): DocsScraperServer {
       inputSchema: {
         url: z.string().describe("Docs website URL (e.g., 'https://zod.dev')"),
       },
+      outputSchema: detectGitHubOutputSchema,
     },
     async ({ url }) => {
       try {
         const result = await detectGitHub({ url });
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
+        return createToolResponse(result);
       } catch (error) {
         return createErrorResponse(error);
       }
@@ -231,18 +696,9 @@ export function createServer(): DocsScraperServer {
   );
 
   // ===========================================================================
-  // Server Transport
+  // Resources (docs://{docs_id}/tree, docs://{docs_id}/file/{path})
   // ===========================================================================
-  const transport = new StdioServerTransport();
+  registerDocsResources(server);
 
-  return {
-    async run(): Promise<void> {
-      await server.connect(transport);
-      console.error("MCP Docs Scraper server running on stdio");
-    },
-
-    async close(): Promise<void> {
-      await server.close();
-    },
-  };
+  return server;
 }
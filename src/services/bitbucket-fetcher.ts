@@ -0,0 +1,217 @@
+/**
+ * Bitbucket Fetcher Service - Lists and fetches docs from Bitbucket Cloud
+ * repositories. Uses BITBUCKET_TOKEN (an access token) if set.
+ */
+
+import {
+  DEFAULT_EXTENSIONS,
+  buildHierarchicalTree,
+  type FetchTreeResult,
+  type TreeListingItem,
+} from "./github-fetcher.js";
+import {
+  LATEST_RELEASE_REF,
+  encodeFilePath,
+  fetchRawFile,
+  fetchRefApi,
+  fetchRepoApi,
+  formatRepo,
+  isTokenHost,
+  splitRepoUrl,
+  type RepoLocation,
+  type RepoProvider,
+} from "./repo-provider.js";
+import { RefNotFoundError } from "../types/errors.js";
+
+const BITBUCKET_API_BASE = "https://api.bitbucket.org/2.0";
+
+/**
+ * Maximum number of listing pages (100 entries each) to request.
+ */
+const MAX_LISTING_PAGES = 100;
+
+/**
+ * Response page from the Bitbucket source API.
+ */
+interface BitbucketSrcPage {
+  values: Array<{
+    path: string;
+    type: "commit_file" | "commit_directory";
+    size?: number;
+  }>;
+  next?: string;
+}
+
+/**
+ * Gets Bitbucket API headers for a request URL. The access token is only
+ * sent to the Bitbucket Cloud API.
+ */
+function getBitbucketHeaders(url: string): Record<string, string> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  const token = process.env.BITBUCKET_TOKEN;
+  if (token && isTokenHost(url, ["api.bitbucket.org"])) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+/**
+ * Gets the API base URL for a repository.
+ */
+function getRepoApi(location: RepoLocation): string {
+  const apiBase = location.apiBase || BITBUCKET_API_BASE;
+  return `${apiBase}/repositories/${location.owner}/${location.repo}`;
+}
+
+/**
+ * Gets the main branch of a repository.
+ */
+async function getDefaultBranch(
+  location: RepoLocation,
+  headers: Record<string, string>
+): Promise<string> {
+  const response = await fetchRepoApi(location, getRepoApi(location), headers);
+  const repo = (await response.json()) as { mainbranch?: { name?: string } };
+  return repo.mainbranch?.name || "main";
+}
+
+/**
+ * Bitbucket Cloud repository provider.
+ */
+export const bitbucketProvider: RepoProvider = {
+  id: "bitbucket",
+  name: "Bitbucket",
+
+  matchesHost(host: string): boolean {
+    return host === "bitbucket.org";
+  },
+
+  /**
+   * Supports:
+   * - https://bitbucket.org/workspace/repo
+   * - https://bitbucket.org/workspace/repo/src/main/docs
+   */
+  parseUrl(url: string, force = false): RepoLocation | null {
+    const split = splitRepoUrl(url);
+    if (!split || (!force && !this.matchesHost(split.host))) {
+      return null;
+    }
+
+    const [owner, rawRepo, section, ref, ...rest] = split.parts;
+    if (!owner || !rawRepo) {
+      return null;
+    }
+
+    let branch: string | undefined;
+    let path: string | undefined;
+    if (section === "src" && ref) {
+      branch = ref;
+      path = rest.length > 0 ? rest.join("/") : undefined;
+    }
+
+    return {
+      provider: "bitbucket",
+      host: "bitbucket.org",
+      owner,
+      repo: rawRepo.replace(/\.git$/, ""),
+      branch,
+      path,
+    };
+  },
+
+  async resolveRef(location, ref) {
+    const repoApi = getRepoApi(location);
+    const headers = getBitbucketHeaders(repoApi);
+
+    const defaultBranch =
+      ref === LATEST_RELEASE_REF ? undefined : await getDefaultBranch(location, headers);
+    let name = ref || defaultBranch!;
+    if (name === LATEST_RELEASE_REF) {
+      // Bitbucket has no releases - use the most recent tag
+      const tags = await fetchRefApi<{ values: Array<{ name: string }> }>(
+        location,
+        name,
+        `${repoApi}/refs/tags?sort=-target.date&pagelen=1`,
+        headers
+      );
+      if (!tags.values?.[0]) {
+        throw new RefNotFoundError(formatRepo(location), name);
+      }
+      name = tags.values[0].name;
+    }
+
+    const commit = await fetchRefApi<{ hash: string }>(
+      location,
+      name,
+      `${repoApi}/commit/${encodeURIComponent(name)}`,
+      headers
+    );
+
+    return { ref: name, commitSha: commit.hash, isDefaultBranch: name === defaultBranch };
+  },
+
+  async fetchTree(location, options = {}): Promise<FetchTreeResult> {
+    const {
+      path = "",
+      extensions = DEFAULT_EXTENSIONS,
+      maxDepth = 10,
+    } = options;
+    const repoApi = getRepoApi(location);
+    const headers = getBitbucketHeaders(repoApi);
+
+    // Detect or use specified branch
+    const branch = options.branch || (await getDefaultBranch(location, headers));
+
+    // The source API walks directories itself when max_depth is given
+    const items: TreeListingItem[] = [];
+    const startPath = path ? `${encodeFilePath(path)}/` : "";
+    let next: string | undefined = `${repoApi}/src/${encodeURIComponent(
+      branch
+    )}/${startPath}?max_depth=${maxDepth}&pagelen=100`;
+    let pagesFetched = 0;
+
+    while (next && pagesFetched < MAX_LISTING_PAGES) {
+      // Page links come from the response, so check their host too
+      const response = await fetchRepoApi(location, next, getBitbucketHeaders(next));
+      const page = (await response.json()) as BitbucketSrcPage;
+
+      for (const item of page.values || []) {
+        items.push({
+          path: item.path,
+          type: item.type === "commit_directory" ? "tree" : "blob",
+          size: item.size,
+        });
+      }
+
+      next = page.next;
+      pagesFetched++;
+    }
+
+    const truncated = !!next;
+    if (truncated) {
+      console.error(
+        "Warning: Bitbucket source listing was truncated. Some files may be missing."
+      );
+    }
+
+    const result = buildHierarchicalTree(items, path, extensions, maxDepth);
+
+    return {
+      repo: formatRepo(location),
+      branch,
+      tree: result.tree,
+      fileCount: result.fileCount,
+      totalSize: result.totalSize,
+      truncated,
+      complete: !truncated,
+      fileShas: result.fileShas,
+    };
+  },
+
+  fetchFileContent(location, branch, filePath) {
+    const url = `${getRepoApi(location)}/src/${encodeURIComponent(
+      branch
+    )}/${encodeFilePath(filePath)}`;
+    return fetchRawFile(url, getBitbucketHeaders(url), filePath);
+  },
+};
@@ -1,5 +1,11 @@
 import { join } from "node:path";
-import type { CacheMeta, CacheEntrySummary } from "../types/cache.js";
+import type {
+  CacheMeta,
+  CacheEntrySummary,
+  CacheSource,
+  IndexJob,
+  ScrapedPageRecord,
+} from "../types/cache.js";
 import {
   CACHE_DIR,
   ensureDir,
@@ -9,15 +15,39 @@ import {
   writeText,
   remove,
   listDirectories,
+  listFiles,
   exists,
 } from "../utils/fs.js";
 
-/** Default TTL for GitHub-sourced docs (7 days) */
+/** Default TTL for repository-sourced docs (7 days) */
 const GITHUB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 /** Default TTL for scraped docs (24 hours) */
 const SCRAPED_TTL_MS = 24 * 60 * 60 * 1000;
 
+/** Default TTL for local docs (1 hour) - re-reading local files is cheap */
+const LOCAL_TTL_MS = 60 * 60 * 1000;
+
+/** TTL per source type */
+const TTL_BY_SOURCE: Record<CacheSource, number> = {
+  github: GITHUB_TTL_MS,
+  gitlab: GITHUB_TTL_MS,
+  gitea: GITHUB_TTL_MS,
+  bitbucket: GITHUB_TTL_MS,
+  scraped: SCRAPED_TTL_MS,
+  local: LOCAL_TTL_MS,
+};
+
+/** Source directories, in lookup order */
+const CACHE_SOURCES: CacheSource[] = [
+  "github",
+  "gitlab",
+  "gitea",
+  "bitbucket",
+  "scraped",
+  "local",
+];
+
 /**
  * Manages the local documentation cache.
  * Handles storing, retrieving, listing, and clearing cached docs.
@@ -40,43 +70,72 @@ export class CacheManager {
    * Initializes the cache directory structure.
    */
   async initialize(): Promise<void> {
-    await ensureDir(join(this.cacheDir, "github"));
-    await ensureDir(join(this.cacheDir, "scraped"));
+    for (const source of CACHE_SOURCES) {
+      await ensureDir(join(this.cacheDir, source));
+    }
   }
 
   /**
    * Gets the directory path for a specific docs entry.
    */
-  private getEntryDir(source: "github" | "scraped", id: string): string {
+  private getEntryDir(source: CacheSource, id: string): string {
     return join(this.cacheDir, source, id);
   }
 
   /**
    * Gets the meta.json file path for a docs entry.
    */
-  private getMetaPath(source: "github" | "scraped", id: string): string {
+  private getMetaPath(source: CacheSource, id: string): string {
     return join(this.getEntryDir(source, id), "meta.json");
   }
 
   /**
    * Gets the content directory path for a docs entry.
    */
-  private getContentDir(source: "github" | "scraped", id: string): string {
+  private getContentDir(source: CacheSource, id: string): string {
     return join(this.getEntryDir(source, id), "content");
   }
 
   /**
    * Gets the search index file path for a docs entry.
    */
-  private getSearchIndexPath(source: "github" | "scraped", id: string): string {
+  private getSearchIndexPath(source: CacheSource, id: string): string {
     return join(this.getEntryDir(source, id), "search-index.json");
   }
 
+  /**
+   * Gets the semantic vector index file path for a docs entry.
+   */
+  private getVectorIndexPath(source: CacheSource, id: string): string {
+    return join(this.getEntryDir(source, id), "vector-index.json");
+  }
+
+  /**
+   * Gets the scraped page records file path for a docs entry.
+   */
+  private getPageRecordsPath(source: CacheSource, id: string): string {
+    return join(this.getEntryDir(source, id), "pages.json");
+  }
+
+  /**
+   * Gets the directory holding background indexing jobs.
+   */
+  private getJobsDir(): string {
+    return join(this.cacheDir, "jobs");
+  }
+
+  /**
+   * Gets the file path of a background indexing job.
+   */
+  private getJobPath(jobId: string): string {
+    return join(this.getJobsDir(), `${jobId}.json`);
+  }
+
   /**
    * Generates an expiration timestamp based on source type.
    */
-  private getExpiresAt(source: "github" | "scraped"): string {
-    const ttl = source === "github" ? GITHUB_TTL_MS : SCRAPED_TTL_MS;
+  private getExpiresAt(source: CacheSource): string {
+    const ttl = TTL_BY_SOURCE[source];
     return new Date(Date.now() + ttl).toISOString();
   }
 
@@ -95,7 +154,7 @@ export class CacheManager {
    * Retrieves metadata for a docs entry.
    * Returns null if not found.
    */
-  async getMeta(source: "github" | "scraped", id: string): Promise<CacheMeta | null> {
+  async getMeta(source: CacheSource, id: string): Promise<CacheMeta | null> {
     return readJson<CacheMeta>(this.getMetaPath(source, id));
   }
 
@@ -103,7 +162,7 @@ export class CacheManager {
    * Stores content for a specific file path within a docs entry.
    */
   async storeContent(
-    source: "github" | "scraped",
+    source: CacheSource,
     id: string,
     filePath: string,
     content: string
@@ -117,7 +176,7 @@ export class CacheManager {
    * Returns null if not found.
    */
   async getContent(
-    source: "github" | "scraped",
+    source: CacheSource,
     id: string,
     filePath: string
   ): Promise<string | null> {
@@ -125,11 +184,33 @@ export class CacheManager {
     return readText(contentPath);
   }
 
+  /**
+   * Checks if content exists for a specific file path within a docs entry.
+   */
+  async hasContent(
+    source: CacheSource,
+    id: string,
+    filePath: string
+  ): Promise<boolean> {
+    return exists(join(this.getContentDir(source, id), filePath));
+  }
+
+  /**
+   * Removes content for a specific file path within a docs entry.
+   */
+  async removeContent(
+    source: CacheSource,
+    id: string,
+    filePath: string
+  ): Promise<void> {
+    await remove(join(this.getContentDir(source, id), filePath));
+  }
+
   /**
    * Stores a search index for a docs entry.
    */
   async storeSearchIndex(
-    source: "github" | "scraped",
+    source: CacheSource,
     id: string,
     indexJson: string
   ): Promise<void> {
@@ -142,7 +223,7 @@ export class CacheManager {
    * Returns null if not found.
    */
   async getSearchIndex(
-    source: "github" | "scraped",
+    source: CacheSource,
     id: string
   ): Promise<string | null> {
     const indexPath = this.getSearchIndexPath(source, id);
@@ -153,16 +234,106 @@ export class CacheManager {
    * Checks if a search index exists for a docs entry.
    */
   async hasSearchIndex(
-    source: "github" | "scraped",
+    source: CacheSource,
     id: string
   ): Promise<boolean> {
     return exists(this.getSearchIndexPath(source, id));
   }
 
+  /**
+   * Stores the semantic vector index for a docs entry.
+   */
+  async storeVectorIndex(
+    source: CacheSource,
+    id: string,
+    indexJson: string
+  ): Promise<void> {
+    await writeText(this.getVectorIndexPath(source, id), indexJson);
+  }
+
+  /**
+   * Retrieves the semantic vector index for a docs entry.
+   * Returns null if not found (e.g. indexed by an older version).
+   */
+  async getVectorIndex(
+    source: CacheSource,
+    id: string
+  ): Promise<string | null> {
+    return readText(this.getVectorIndexPath(source, id));
+  }
+
+  /**
+   * Removes the semantic vector index of a docs entry, if any.
+   */
+  async removeVectorIndex(source: CacheSource, id: string): Promise<void> {
+    await remove(this.getVectorIndexPath(source, id));
+  }
+
+  /**
+   * Stores the scraped page records (keyed by normalized URL) for a docs entry.
+   */
+  async storePageRecords(
+    source: CacheSource,
+    id: string,
+    records: Record<string, ScrapedPageRecord>
+  ): Promise<void> {
+    await writeJson(this.getPageRecordsPath(source, id), records);
+  }
+
+  /**
+   * Retrieves the scraped page records for a docs entry.
+   * Returns null if not found.
+   */
+  async getPageRecords(
+    source: CacheSource,
+    id: string
+  ): Promise<Record<string, ScrapedPageRecord> | null> {
+    return readJson<Record<string, ScrapedPageRecord>>(
+      this.getPageRecordsPath(source, id)
+    );
+  }
+
+  /**
+   * Stores a background indexing job.
+   */
+  async storeJob(job: IndexJob): Promise<void> {
+    await writeJson(this.getJobPath(job.job_id), job);
+  }
+
+  /**
+   * Retrieves a background indexing job.
+   * Returns null if not found.
+   */
+  async getJob(jobId: string): Promise<IndexJob | null> {
+    return readJson<IndexJob>(this.getJobPath(jobId));
+  }
+
+  /**
+   * Lists all stored background indexing jobs.
+   */
+  async listJobs(): Promise<IndexJob[]> {
+    const jobs: IndexJob[] = [];
+
+    for (const file of await listFiles(this.getJobsDir())) {
+      if (!file.endsWith(".json")) continue;
+      const job = await readJson<IndexJob>(join(this.getJobsDir(), file)).catch(() => null);
+      if (job) jobs.push(job);
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Removes a background indexing job.
+   */
+  async removeJob(jobId: string): Promise<void> {
+    await remove(this.getJobPath(jobId));
+  }
+
   /**
    * Checks if a docs entry exists in the cache.
    */
-  async hasEntry(source: "github" | "scraped", id: string): Promise<boolean> {
+  async hasEntry(source: CacheSource, id: string): Promise<boolean> {
     return exists(this.getMetaPath(source, id));
   }
 
@@ -172,35 +343,25 @@ export class CacheManager {
   async listEntries(): Promise<CacheEntrySummary[]> {
     const entries: CacheEntrySummary[] = [];
 
-    // List GitHub entries
-    const githubDirs = await listDirectories(join(this.cacheDir, "github"));
-    for (const id of githubDirs) {
-      const meta = await this.getMeta("github", id);
-      if (meta) {
-        entries.push({
-          id: meta.id,
-          source: meta.source,
-          repo: meta.repo,
-          indexed_at: meta.indexed_at,
-          page_count: meta.page_count,
-          total_size_bytes: meta.total_size_bytes,
-        });
-      }
-    }
-
-    // List scraped entries
-    const scrapedDirs = await listDirectories(join(this.cacheDir, "scraped"));
-    for (const id of scrapedDirs) {
-      const meta = await this.getMeta("scraped", id);
-      if (meta) {
-        entries.push({
-          id: meta.id,
-          source: meta.source,
-          base_url: meta.base_url,
-          indexed_at: meta.indexed_at,
-          page_count: meta.page_count,
-          total_size_bytes: meta.total_size_bytes,
-        });
+    for (const source of CACHE_SOURCES) {
+      const dirs = await listDirectories(join(this.cacheDir, source));
+      for (const id of dirs) {
+        const meta = await this.getMeta(source, id);
+        if (meta) {
+          entries.push({
+            id: meta.id,
+            source: meta.source,
+            repo: meta.repo,
+            host: meta.host,
+            base_url: meta.base_url,
+            local_path: meta.local_path,
+            ref: meta.ref,
+            commit_sha: meta.commit_sha,
+            indexed_at: meta.indexed_at,
+            page_count: meta.page_count,
+            total_size_bytes: meta.total_size_bytes,
+          });
+        }
       }
     }
 
@@ -210,7 +371,7 @@ export class CacheManager {
   /**
    * Clears a specific docs entry from the cache.
    */
-  async clearEntry(source: "github" | "scraped", id: string): Promise<boolean> {
+  async clearEntry(source: CacheSource, id: string): Promise<boolean> {
     const entryDir = this.getEntryDir(source, id);
     if (await exists(entryDir)) {
       await remove(entryDir);
@@ -225,18 +386,12 @@ export class CacheManager {
   async clearAll(): Promise<string[]> {
     const cleared: string[] = [];
 
-    // Clear GitHub entries
-    const githubDirs = await listDirectories(join(this.cacheDir, "github"));
-    for (const id of githubDirs) {
-      await this.clearEntry("github", id);
-      cleared.push(id);
-    }
-
-    // Clear scraped entries
-    const scrapedDirs = await listDirectories(join(this.cacheDir, "scraped"));
-    for (const id of scrapedDirs) {
-      await this.clearEntry("scraped", id);
-      cleared.push(id);
+    for (const source of CACHE_SOURCES) {
+      const dirs = await listDirectories(join(this.cacheDir, source));
+      for (const id of dirs) {
+        await this.clearEntry(source, id);
+        cleared.push(id);
+      }
     }
 
     return cleared;
@@ -250,17 +405,14 @@ export class CacheManager {
   }
 
   /**
-   * Finds a docs entry by ID, checking both github and scraped sources.
+   * Finds a docs entry by ID, checking all sources.
    * Returns null if not found.
    */
   async findById(id: string): Promise<CacheMeta | null> {
-    // Try GitHub first
-    const githubMeta = await this.getMeta("github", id);
-    if (githubMeta) return githubMeta;
-
-    // Try scraped
-    const scrapedMeta = await this.getMeta("scraped", id);
-    if (scrapedMeta) return scrapedMeta;
+    for (const source of CACHE_SOURCES) {
+      const meta = await this.getMeta(source, id);
+      if (meta) return meta;
+    }
 
     return null;
   }
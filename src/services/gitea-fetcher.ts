@@ -0,0 +1,276 @@
+/**
+ * Gitea Fetcher Service - Lists and fetches docs from Gitea and Forgejo
+ * repositories.
+ *
+ * Works with gitea.com, codeberg.org and self-hosted instances (hostnames
+ * starting with "gitea." / "forgejo." or listed in GITEA_HOSTS).
+ * Uses GITEA_TOKEN if set, for gitea.com, codeberg.org and hosts listed in
+ * GITEA_HOSTS only.
+ */
+
+import {
+  DEFAULT_EXTENSIONS,
+  buildHierarchicalTree,
+  type FetchTreeResult,
+  type TreeListingItem,
+} from "./github-fetcher.js";
+import {
+  LATEST_RELEASE_REF,
+  encodeFilePath,
+  fetchRawFile,
+  fetchRefApi,
+  fetchRepoApi,
+  formatRepo,
+  getConfiguredHosts,
+  isTokenHost,
+  splitRepoUrl,
+  type RepoLocation,
+  type RepoProvider,
+} from "./repo-provider.js";
+import { RefNotFoundError } from "../types/errors.js";
+
+/**
+ * Entries requested per tree page.
+ */
+const TREE_PAGE_SIZE = 1000;
+
+/**
+ * Public Gitea / Forgejo instances.
+ */
+const GITEA_PUBLIC_HOSTS = ["gitea.com", "codeberg.org"];
+
+/**
+ * Maximum number of tree pages to request.
+ */
+const MAX_TREE_PAGES = 50;
+
+/**
+ * Response from the Gitea Git Trees API.
+ */
+interface GiteaTreeResponse {
+  sha: string;
+  tree: Array<{
+    path: string;
+    type: "blob" | "tree" | "commit";
+    size?: number;
+    sha: string;
+  }>;
+  truncated: boolean;
+  page: number;
+  total_count: number;
+}
+
+/**
+ * Gets Gitea API headers for a request URL. The access token is only sent
+ * to gitea.com, codeberg.org and hosts listed in GITEA_HOSTS.
+ */
+function getGiteaHeaders(url: string): Record<string, string> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  const token = process.env.GITEA_TOKEN;
+  if (token && isTokenHost(url, GITEA_PUBLIC_HOSTS, "GITEA_HOSTS")) {
+    headers.Authorization = `token ${token}`;
+  }
+  return headers;
+}
+
+/**
+ * Gets the API base URL for a repository.
+ */
+function getRepoApi(location: RepoLocation): string {
+  const apiBase = location.apiBase || `https://${location.host}/api/v1`;
+  return `${apiBase}/repos/${location.owner}/${location.repo}`;
+}
+
+/**
+ * Gets the default branch of a repository.
+ */
+async function getDefaultBranch(
+  location: RepoLocation,
+  headers: Record<string, string>
+): Promise<string> {
+  const response = await fetchRepoApi(location, getRepoApi(location), headers);
+  const repo = (await response.json()) as { default_branch?: string };
+  return repo.default_branch || "main";
+}
+
+/**
+ * Resolves a branch name to its head commit SHA.
+ * Tags and commit SHAs are accepted by the trees API as-is.
+ */
+async function resolveTreeSha(
+  location: RepoLocation,
+  ref: string,
+  headers: Record<string, string>
+): Promise<string> {
+  try {
+    const response = await fetchRepoApi(
+      location,
+      `${getRepoApi(location)}/branches/${encodeURIComponent(ref)}`,
+      headers
+    );
+    const branch = (await response.json()) as { commit?: { id?: string } };
+    return branch.commit?.id || ref;
+  } catch {
+    return ref;
+  }
+}
+
+/**
+ * Gitea / Forgejo repository provider.
+ */
+export const giteaProvider: RepoProvider = {
+  id: "gitea",
+  name: "Gitea",
+
+  matchesHost(host: string): boolean {
+    return (
+      GITEA_PUBLIC_HOSTS.includes(host) ||
+      host.startsWith("gitea.") ||
+      host.startsWith("forgejo.") ||
+      getConfiguredHosts("GITEA_HOSTS").includes(host)
+    );
+  },
+
+  /**
+   * Supports:
+   * - https://codeberg.org/owner/repo
+   * - https://codeberg.org/owner/repo/src/branch/main/docs
+   * - https://codeberg.org/owner/repo/src/tag/v1.0/docs
+   */
+  parseUrl(url: string, force = false): RepoLocation | null {
+    const split = splitRepoUrl(url);
+    if (!split || (!force && !this.matchesHost(split.host))) {
+      return null;
+    }
+
+    const [owner, rawRepo, section, kind, ref, ...rest] = split.parts;
+    if (!owner || !rawRepo) {
+      return null;
+    }
+
+    let branch: string | undefined;
+    let path: string | undefined;
+    if (
+      section === "src" &&
+      (kind === "branch" || kind === "tag" || kind === "commit") &&
+      ref
+    ) {
+      branch = ref;
+      path = rest.length > 0 ? rest.join("/") : undefined;
+    }
+
+    return {
+      provider: "gitea",
+      host: split.host,
+      owner,
+      repo: rawRepo.replace(/\.git$/, ""),
+      branch,
+      path,
+    };
+  },
+
+  async resolveRef(location, ref) {
+    const repoApi = getRepoApi(location);
+    const headers = getGiteaHeaders(repoApi);
+
+    const defaultBranch =
+      ref === LATEST_RELEASE_REF ? undefined : await getDefaultBranch(location, headers);
+    let name = ref || defaultBranch!;
+    if (name === LATEST_RELEASE_REF) {
+      const release = await fetchRefApi<{ tag_name: string }>(
+        location,
+        name,
+        `${repoApi}/releases/latest`,
+        headers
+      );
+      name = release.tag_name;
+    }
+
+    // The commits endpoint accepts branch, tag or SHA via `sha`
+    const commits = await fetchRefApi<Array<{ sha: string }>>(
+      location,
+      name,
+      `${repoApi}/commits?sha=${encodeURIComponent(name)}&limit=1&stat=false`,
+      headers
+    );
+    if (!commits[0]) {
+      throw new RefNotFoundError(formatRepo(location), name);
+    }
+
+    return { ref: name, commitSha: commits[0].sha, isDefaultBranch: name === defaultBranch };
+  },
+
+  async fetchTree(location, options = {}): Promise<FetchTreeResult> {
+    const {
+      path = "",
+      extensions = DEFAULT_EXTENSIONS,
+      maxDepth = 10,
+    } = options;
+    const repoApi = getRepoApi(location);
+    const headers = getGiteaHeaders(repoApi);
+
+    // Detect or use specified branch
+    const branch = options.branch || (await getDefaultBranch(location, headers));
+
+    const sha = await resolveTreeSha(location, branch, headers);
+
+    // Page through the recursive tree listing
+    const items: TreeListingItem[] = [];
+    let seen = 0;
+    let truncated = false;
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const response = await fetchRepoApi(
+        location,
+        `${repoApi}/git/trees/${encodeURIComponent(
+          sha
+        )}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+        headers
+      );
+      const data = (await response.json()) as GiteaTreeResponse;
+
+      seen += data.tree?.length || 0;
+      for (const item of data.tree || []) {
+        if (item.type === "blob" || item.type === "tree") {
+          items.push({
+            path: item.path,
+            type: item.type,
+            size: item.size,
+            sha: item.sha,
+          });
+        }
+      }
+
+      const hasMore = data.truncated && seen < data.total_count;
+      if (!hasMore || !data.tree?.length) {
+        break;
+      }
+      truncated = page === MAX_TREE_PAGES;
+    }
+
+    if (truncated) {
+      console.error(
+        "Warning: Gitea tree listing was truncated. Some files may be missing."
+      );
+    }
+
+    const result = buildHierarchicalTree(items, path, extensions, maxDepth);
+
+    return {
+      repo: formatRepo(location),
+      branch,
+      tree: result.tree,
+      fileCount: result.fileCount,
+      totalSize: result.totalSize,
+      truncated,
+      complete: !truncated,
+      fileShas: result.fileShas,
+    };
+  },
+
+  fetchFileContent(location, branch, filePath) {
+    const url = `${getRepoApi(location)}/raw/${encodeFilePath(
+      filePath
+    )}?ref=${encodeURIComponent(branch)}`;
+    return fetchRawFile(url, getGiteaHeaders(url), filePath);
+  },
+};
@@ -7,9 +7,14 @@
  * 3. "Edit on GitHub" links → high confidence
  * 4. GitHub links in page content → medium confidence
  * 5. Meta tags with repo info → medium confidence
+ *
+ * GitLab, Gitea/Codeberg and Bitbucket repositories are detected the same
+ * way; `provider` and `host` tell them apart.
  */
 
-import { parseGitHubUrl } from "../tools/index-docs.js";
+import { parseGitHubUrl } from "./github-fetcher.js";
+import type { RepoProviderId } from "./repo-provider.js";
+import { parseRepositoryUrl } from "./repo-registry.js";
 
 /**
  * Result of GitHub repository detection.
@@ -19,6 +24,10 @@ export interface GitHubDetectionResult {
   found: boolean;
   /** Repository in "owner/repo" format */
   repo?: string;
+  /** Hosting provider of the repository (default: "github") */
+  provider?: RepoProviderId;
+  /** Repository host, e.g. "gitlab.com" */
+  host?: string;
   /** Path within the repo where docs are located */
   docs_path?: string;
   /** Confidence level of the detection */
@@ -52,6 +61,40 @@ const GITHUB_LINK_PATTERNS = [
   /href=["'](https?:\/\/github\.com\/([a-zA-Z0-9_-]+)\/([a-zA-Z0-9_.-]+))(?:\/[^"']*)?["']/gi,
 ];
 
+/**
+ * "Edit on GitLab" style links and edit URLs for other providers.
+ */
+const OTHER_EDIT_PATTERNS = [
+  /href=["'](https?:\/\/[^"']+)["'][^>]*>[^<]*(?:edit|view|source)[^<]*on[^<]*(?:gitlab|codeberg|gitea|forgejo|bitbucket)/gi,
+  /"editUrl":\s*"(https?:\/\/[^"]+)"/gi,
+  /"edit_uri":\s*"(https?:\/\/[^"]+)"/gi,
+  /"repo_url":\s*"(https?:\/\/[^"]+)"/gi,
+];
+
+/**
+ * Builds a detection result for a non-GitHub repository URL.
+ */
+function detectOtherProvider(
+  url: string,
+  confidence: GitHubDetectionResult["confidence"],
+  method: string
+): GitHubDetectionResult | null {
+  const location = parseRepositoryUrl(url);
+  if (!location || location.provider === "github") {
+    return null;
+  }
+
+  return {
+    found: true,
+    repo: `${location.owner}/${location.repo}`,
+    provider: location.provider,
+    host: location.host,
+    docs_path: location.path,
+    confidence,
+    detection_method: method,
+  };
+}
+
 /**
  * Extracts owner/repo from a GitHub URL.
  */
@@ -97,12 +140,19 @@ function detectFromUrl(url: string): GitHubDetectionResult | null {
     return {
       found: true,
       repo: `${githubInfo.owner}/${githubInfo.repo}`,
+      host: githubInfo.host === "github.com" ? undefined : githubInfo.host,
       docs_path: githubInfo.path,
       confidence: "high",
       detection_method: "direct_github_url",
     };
   }
 
+  // Check for GitLab, Gitea or Bitbucket URLs
+  const location = parseRepositoryUrl(url);
+  if (location) {
+    return detectOtherProvider(url, "high", `direct_${location.provider}_url`);
+  }
+
   // Check for github.io pattern
   try {
     const parsed = new URL(url);
@@ -169,29 +219,44 @@ function detectFromEditLinks(html: string): GitHubDetectionResult | null {
     pattern.lastIndex = 0;
   }
 
+  for (const pattern of OTHER_EDIT_PATTERNS) {
+    let match;
+    while ((match = pattern.exec(html)) !== null) {
+      const result = detectOtherProvider(match[1], "high", "edit_link");
+      if (result) {
+        pattern.lastIndex = 0;
+        return result;
+      }
+    }
+  }
+
   return null;
 }
 
 /**
- * Extracts GitHub repo from general GitHub links in HTML.
+ * Extracts the repo from general GitHub (or other public repo host) links
+ * in HTML. The most frequently linked repository wins.
  */
 function detectFromLinks(html: string): GitHubDetectionResult | null {
-  // Find all GitHub links
-  const linkPattern = /href=["'](https?:\/\/github\.com\/([a-zA-Z0-9_-]+)\/([a-zA-Z0-9_.-]+))(?:\/[^"']*)?["']/gi;
-  const repos = new Map<string, number>();
+  // Find all repository links
+  const linkPattern = /href=["'](https?:\/\/(?:www\.)?(github\.com|gitlab\.com|codeberg\.org|gitea\.com|bitbucket\.org)\/([a-zA-Z0-9_-]+)\/([a-zA-Z0-9_.-]+))(?:\/[^"']*)?["']/gi;
+  const repos = new Map<string, { host: string; repo: string; count: number }>();
 
   let match;
   while ((match = linkPattern.exec(html)) !== null) {
-    const owner = match[2];
-    const repo = match[3].replace(/\.git$/, "");
+    const host = match[2].toLowerCase();
+    const owner = match[3];
+    const repo = match[4].replace(/\.git$/, "");
     
     // Skip common non-repo patterns
-    if (["issues", "pulls", "discussions", "sponsors", "marketplace"].includes(repo)) {
+    if (["issues", "pulls", "discussions", "sponsors", "marketplace", "explore"].includes(repo)) {
       continue;
     }
     
-    const key = `${owner}/${repo}`;
-    repos.set(key, (repos.get(key) || 0) + 1);
+    const key = `${host}/${owner}/${repo}`;
+    const entry = repos.get(key) || { host, repo: `${owner}/${repo}`, count: 0 };
+    entry.count++;
+    repos.set(key, entry);
   }
 
   if (repos.size === 0) {
@@ -199,21 +264,29 @@ function detectFromLinks(html: string): GitHubDetectionResult | null {
   }
 
   // Find the most frequently linked repo
-  let bestRepo = "";
-  let maxCount = 0;
-  for (const [repo, count] of repos) {
-    if (count > maxCount) {
-      maxCount = count;
-      bestRepo = repo;
+  let best: { host: string; repo: string; count: number } | null = null;
+  for (const entry of repos.values()) {
+    if (!best || entry.count > best.count) {
+      best = entry;
     }
   }
 
-  if (bestRepo) {
+  if (best) {
+    const confidence = best.count >= 3 ? "medium" : "low";
+
+    if (best.host !== "github.com") {
+      return detectOtherProvider(
+        `https://${best.host}/${best.repo}`,
+        confidence,
+        `repo_links_found_${best.count}`
+      );
+    }
+
     return {
       found: true,
-      repo: bestRepo,
-      confidence: maxCount >= 3 ? "medium" : "low",
-      detection_method: `github_links_found_${maxCount}`,
+      repo: best.repo,
+      confidence,
+      detection_method: `github_links_found_${best.count}`,
     };
   }
 
@@ -1,13 +1,37 @@
 import type { DocsTreeNode } from "../types/index.js";
-import { githubRateLimit } from "../utils/rate-limit.js";
+import { getGitHubRateLimit } from "../utils/rate-limit.js";
 import {
   GitHubRateLimitError,
   GitHubNotFoundError,
   GitHubAccessDeniedError,
   NetworkError,
+  RefNotFoundError,
 } from "../types/errors.js";
-
+import {
+  LATEST_RELEASE_REF,
+  formatRepo,
+  getConfiguredHosts,
+  getUrlHost,
+  type RepoLocation,
+  type RepoProvider,
+  type ResolvedRef,
+} from "./repo-provider.js";
+
+const GITHUB_HOST = "github.com";
 const GITHUB_API_BASE = "https://api.github.com";
+const GITHUB_RAW_BASE = "https://raw.githubusercontent.com";
+
+/**
+ * Where to reach a GitHub instance: github.com or a GitHub Enterprise Server.
+ */
+export interface GitHubEndpoint {
+  /** Web hostname, e.g. "github.com" or "github.example.com" */
+  host: string;
+  /** REST API base URL, e.g. "https://github.example.com/api/v3" */
+  apiBase: string;
+  /** Raw content base URL, e.g. "https://github.example.com/raw" */
+  rawBase: string;
+}
 
 /**
  * Response item from GitHub Git Trees API.
@@ -21,6 +45,21 @@ interface GitHubTreeItem {
   url: string;
 }
 
+/**
+ * Minimal flat listing entry used to build a DocsTreeNode hierarchy.
+ * GitHub tree items and local directory walks both produce these.
+ */
+export interface TreeListingItem {
+  /** Path relative to the listing root */
+  path: string;
+  /** "blob" for files, "tree" for directories */
+  type: "blob" | "tree";
+  /** File size in bytes */
+  size?: number;
+  /** Blob SHA of the file, if the source provides one */
+  sha?: string;
+}
+
 /**
  * Response from GitHub Git Trees API.
  */
@@ -47,6 +86,10 @@ export interface FetchTreeResult {
   totalSize: number;
   /** Whether the tree was truncated due to size limits */
   truncated: boolean;
+  /** Whether the listing is complete (a truncated tree may be completed by a fallback walk) */
+  complete: boolean;
+  /** Blob SHA per file path in the tree, where the provider reports them */
+  fileShas: Record<string, string>;
 }
 
 /**
@@ -61,9 +104,11 @@ export interface FetchTreeOptions {
   extensions?: string[];
   /** Maximum depth to traverse (default: 10) */
   maxDepth?: number;
+  /** GitHub instance to use (default: from environment, else github.com) */
+  endpoint?: GitHubEndpoint;
 }
 
-const DEFAULT_EXTENSIONS = [".md", ".mdx", ".markdown"];
+export const DEFAULT_EXTENSIONS = [".md", ".mdx", ".markdown"];
 
 /**
  * Parses "owner/repo" format into separate parts.
@@ -82,16 +127,178 @@ export function parseRepoString(repoString: string): {
 }
 
 /**
- * Gets GitHub API headers, including auth token if available.
+ * Gets the default GitHub host (GITHUB_HOST, else github.com).
+ */
+function getDefaultGitHubHost(): string {
+  return (process.env.GITHUB_HOST || GITHUB_HOST).trim().toLowerCase();
+}
+
+/**
+ * Checks whether a hostname is github.com or one of its subdomains.
+ */
+function isGitHubDotCom(host: string): boolean {
+  return host === GITHUB_HOST || host.endsWith(`.${GITHUB_HOST}`);
+}
+
+/**
+ * Checks whether a hostname is github.com or a configured GitHub
+ * Enterprise Server host (GITHUB_HOST or GITHUB_ENTERPRISE_HOSTS).
+ */
+export function isGitHubHost(host: string): boolean {
+  const normalized = host.toLowerCase();
+  return (
+    isGitHubDotCom(normalized) ||
+    normalized === getDefaultGitHubHost() ||
+    getConfiguredHosts("GITHUB_ENTERPRISE_HOSTS").includes(normalized)
+  );
+}
+
+/**
+ * Resolves the API and raw content bases for a GitHub host.
+ *
+ * The environment (GITHUB_API_BASE, GITHUB_RAW_BASE) configures the default
+ * host; explicit overrides win over both. Enterprise hosts default to
+ * https://host/api/v3 and https://host/raw.
+ *
+ * @param host GitHub hostname (default: GITHUB_HOST, else github.com)
+ * @param overrides Per-call API/raw base URLs
+ * @returns The resolved endpoint
+ */
+export function resolveGitHubEndpoint(
+  host?: string,
+  overrides: { apiBase?: string; rawBase?: string } = {}
+): GitHubEndpoint {
+  const defaultHost = getDefaultGitHubHost();
+  const resolvedHost = (host || defaultHost).toLowerCase();
+  const isDotCom = resolvedHost === GITHUB_HOST;
+  const useEnv = resolvedHost === defaultHost;
+
+  const apiBase =
+    overrides.apiBase ||
+    (useEnv ? process.env.GITHUB_API_BASE : undefined) ||
+    (isDotCom ? GITHUB_API_BASE : `https://${resolvedHost}/api/v3`);
+  const rawBase =
+    overrides.rawBase ||
+    (useEnv ? process.env.GITHUB_RAW_BASE : undefined) ||
+    (isDotCom ? GITHUB_RAW_BASE : `https://${resolvedHost}/raw`);
+
+  return {
+    host: resolvedHost,
+    apiBase: apiBase.replace(/\/+$/, ""),
+    rawBase: rawBase.replace(/\/+$/, ""),
+  };
+}
+
+/**
+ * Parses a GitHub URL to extract owner and repo.
+ * Supports formats:
+ * - https://github.com/owner/repo
+ * - https://github.com/owner/repo/tree/branch/path
+ * - github.com/owner/repo
+ * - https://github.example.com/owner/repo (configured enterprise hosts)
+ *
+ * @param url URL to parse
+ * @param anyHost Accept any hostname (for enterprise hosts given per call)
+ */
+export function parseGitHubUrl(url: string, anyHost = false): {
+  owner: string;
+  repo: string;
+  branch?: string;
+  path?: string;
+  host: string;
+} | null {
+  // Normalize URL
+  let normalized = url.trim();
+  if (!normalized.startsWith("http")) {
+    normalized = "https://" + normalized;
+  }
+
+  try {
+    const parsed = new URL(normalized);
+    const host = parsed.hostname.toLowerCase();
+
+    // Must be github.com or a configured enterprise host
+    if (!anyHost && !isGitHubHost(host)) {
+      return null;
+    }
+
+    // Parse path: /owner/repo[/tree/branch/path]
+    const pathParts = parsed.pathname.split("/").filter(Boolean);
+
+    if (pathParts.length < 2) {
+      return null;
+    }
+
+    const owner = pathParts[0];
+    const repo = pathParts[1].replace(/\.git$/, ""); // Remove .git suffix if present
+
+    let branch: string | undefined;
+    let path: string | undefined;
+
+    // Check for /tree/branch/path or /blob/branch/path
+    if (
+      pathParts.length > 2 &&
+      (pathParts[2] === "tree" || pathParts[2] === "blob")
+    ) {
+      branch = pathParts[3];
+      if (pathParts.length > 4) {
+        path = pathParts.slice(4).join("/");
+      }
+    }
+
+    // *.github.com subdomains (e.g. www.) are github.com itself
+    return {
+      owner,
+      repo,
+      branch,
+      path,
+      host: isGitHubDotCom(host) ? GITHUB_HOST : host,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the token to send with a request, based on the host of its URL.
+ * github.com and its subdomains get GITHUB_TOKEN; configured hosts
+ * (GITHUB_HOST, GITHUB_ENTERPRISE_HOSTS and the hosts of GITHUB_API_BASE
+ * and GITHUB_RAW_BASE) get GITHUB_ENTERPRISE_TOKEN, falling back to
+ * GITHUB_TOKEN. Any other host, such as a per-call api_base, gets none.
  */
-function getGitHubHeaders(): Record<string, string> {
+function getGitHubToken(url: string): string | undefined {
+  const host = getUrlHost(url);
+  if (!host) {
+    return undefined;
+  }
+  if (isGitHubDotCom(host)) {
+    return process.env.GITHUB_TOKEN;
+  }
+
+  const configuredHosts = [
+    getDefaultGitHubHost(),
+    ...getConfiguredHosts("GITHUB_ENTERPRISE_HOSTS"),
+    ...[process.env.GITHUB_API_BASE, process.env.GITHUB_RAW_BASE].map(
+      (base) => base && getUrlHost(base)
+    ),
+  ];
+  return configuredHosts.includes(host)
+    ? process.env.GITHUB_ENTERPRISE_TOKEN || process.env.GITHUB_TOKEN
+    : undefined;
+}
+
+/**
+ * Gets GitHub API headers for a request URL, including the auth token if
+ * the URL's host may receive it (see getGitHubToken).
+ */
+function getGitHubHeaders(url: string): Record<string, string> {
   const headers: Record<string, string> = {
     Accept: "application/vnd.github.v3+json",
     "User-Agent": "mcp-docs-scraper",
   };
 
   // Use GITHUB_TOKEN if available (increases rate limit from 60 to 5000/hour)
-  const token = process.env.GITHUB_TOKEN;
+  const token = getGitHubToken(url);
   if (token) {
     headers.Authorization = `Bearer ${token}`;
   }
@@ -109,12 +316,19 @@ export function isAuthenticated(): boolean {
 /**
  * Makes a GitHub API request with proper headers and rate limit tracking.
  */
-async function githubFetch(url: string): Promise<Response> {
-  const response = await fetch(url, {
-    headers: getGitHubHeaders(),
-  });
+async function githubFetch(
+  url: string,
+  endpoint: GitHubEndpoint,
+  accept?: string
+): Promise<Response> {
+  const headers = getGitHubHeaders(url);
+  if (accept) {
+    headers.Accept = accept;
+  }
 
-  githubRateLimit.updateFromHeaders(response.headers);
+  const response = await fetch(url, { headers });
+
+  getGitHubRateLimit(endpoint.host).updateFromHeaders(response.headers);
 
   return response;
 }
@@ -125,19 +339,21 @@ async function githubFetch(url: string): Promise<Response> {
  */
 async function detectDefaultBranch(
   owner: string,
-  repo: string
+  repo: string,
+  endpoint: GitHubEndpoint
 ): Promise<string> {
   const repoString = `${owner}/${repo}`;
+  const rateLimit = getGitHubRateLimit(endpoint.host);
 
   // Check rate limit before making requests
-  if (githubRateLimit.isExhausted()) {
-    throw new GitHubRateLimitError(githubRateLimit.getResetTime());
+  if (rateLimit.isExhausted()) {
+    throw new GitHubRateLimitError(rateLimit.getResetTime(), endpoint.host);
   }
 
   try {
     // Try main first using Git Trees API
-    const mainUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/main`;
-    const mainResponse = await githubFetch(mainUrl);
+    const mainUrl = `${endpoint.apiBase}/repos/${owner}/${repo}/git/trees/main`;
+    const mainResponse = await githubFetch(mainUrl, endpoint);
 
     if (mainResponse.ok) {
       return "main";
@@ -149,8 +365,8 @@ async function detectDefaultBranch(
     }
 
     // Try master
-    const masterUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/master`;
-    const masterResponse = await githubFetch(masterUrl);
+    const masterUrl = `${endpoint.apiBase}/repos/${owner}/${repo}/git/trees/master`;
+    const masterResponse = await githubFetch(masterUrl, endpoint);
 
     if (masterResponse.ok) {
       return "master";
@@ -168,34 +384,121 @@ async function detectDefaultBranch(
         error instanceof GitHubNotFoundError) {
       throw error;
     }
-    throw new NetworkError(`https://github.com/${repoString}`, error instanceof Error ? error : undefined);
+    throw new NetworkError(`https://${endpoint.host}/${repoString}`, error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * Makes a GitHub API request while resolving a ref.
+ * 404/422 mean the ref does not exist; 403 is a rate limit or access problem.
+ */
+async function githubRefFetch(
+  url: string,
+  endpoint: GitHubEndpoint,
+  repoString: string,
+  ref: string,
+  accept?: string
+): Promise<Response> {
+  const rateLimit = getGitHubRateLimit(endpoint.host);
+  if (rateLimit.isExhausted()) {
+    throw new GitHubRateLimitError(rateLimit.getResetTime(), endpoint.host);
+  }
+
+  let response: Response;
+  try {
+    response = await githubFetch(url, endpoint, accept);
+  } catch (error) {
+    throw new NetworkError(url, error instanceof Error ? error : undefined);
+  }
+
+  if (response.ok) {
+    return response;
+  }
+  if (response.status === 404 || response.status === 422) {
+    throw new RefNotFoundError(repoString, ref);
+  }
+  if (response.status === 403) {
+    if (rateLimit.isExhausted()) {
+      throw new GitHubRateLimitError(rateLimit.getResetTime(), endpoint.host);
+    }
+    throw new GitHubAccessDeniedError(repoString);
   }
+  throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+}
+
+/**
+ * Resolves a branch, tag, commit SHA or "latest-release" to a commit SHA.
+ * Without a ref, the default branch is resolved.
+ *
+ * @param repoString Repository in "owner/repo" format
+ * @param ref Ref to resolve
+ * @param endpoint GitHub instance (default: from environment, else github.com)
+ * @returns The ref name and the commit it points at
+ */
+export async function resolveGitHubRef(
+  repoString: string,
+  ref?: string,
+  endpoint: GitHubEndpoint = resolveGitHubEndpoint()
+): Promise<ResolvedRef> {
+  const { owner, repo } = parseRepoString(repoString);
+
+  const defaultBranch =
+    ref === LATEST_RELEASE_REF ? undefined : await detectDefaultBranch(owner, repo, endpoint);
+  let name = ref || defaultBranch!;
+  if (name === LATEST_RELEASE_REF) {
+    const response = await githubRefFetch(
+      `${endpoint.apiBase}/repos/${owner}/${repo}/releases/latest`,
+      endpoint,
+      repoString,
+      name
+    );
+    const release = (await response.json()) as { tag_name: string };
+    name = release.tag_name;
+  }
+
+  // The sha media type returns just the commit SHA as plain text
+  const response = await githubRefFetch(
+    `${endpoint.apiBase}/repos/${owner}/${repo}/commits/${encodeURIComponent(name)}`,
+    endpoint,
+    repoString,
+    name,
+    "application/vnd.github.sha"
+  );
+  const commitSha = (await response.text()).trim();
+
+  return { ref: name, commitSha, isDefaultBranch: name === defaultBranch };
 }
 
 /**
  * Fetches the entire tree from GitHub using the Git Trees API.
  * This uses only 1 API request instead of 1 per directory.
+ * With `recursive` false, only the immediate children are listed.
  */
 async function fetchGitTree(
   owner: string,
   repo: string,
-  branch: string
+  branch: string,
+  endpoint: GitHubEndpoint,
+  recursive: boolean = true
 ): Promise<GitHubTreeResponse> {
   const repoString = `${owner}/${repo}`;
+  const rateLimit = getGitHubRateLimit(endpoint.host);
 
   // Check rate limit before making request
-  if (githubRateLimit.isExhausted()) {
-    throw new GitHubRateLimitError(githubRateLimit.getResetTime());
+  if (rateLimit.isExhausted()) {
+    throw new GitHubRateLimitError(rateLimit.getResetTime(), endpoint.host);
   }
 
-  if (githubRateLimit.isLow()) {
-    console.error(`Warning: ${githubRateLimit.getStatusMessage()}`);
+  if (rateLimit.isLow()) {
+    console.error(`Warning: ${rateLimit.getStatusMessage()}`);
   }
 
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`;
+  const url = `${endpoint.apiBase}/repos/${owner}/${repo}/git/trees/${branch}${
+    recursive ? "?recursive=1" : ""
+  }`;
   
   try {
-    const response = await githubFetch(url);
+    const response = await githubFetch(url, endpoint);
 
     if (!response.ok) {
       if (response.status === 404) {
@@ -203,8 +506,8 @@ async function fetchGitTree(
       }
       if (response.status === 403) {
         // Could be rate limit or access denied
-        if (githubRateLimit.isExhausted()) {
-          throw new GitHubRateLimitError(githubRateLimit.getResetTime());
+        if (rateLimit.isExhausted()) {
+          throw new GitHubRateLimitError(rateLimit.getResetTime(), endpoint.host);
         }
         throw new GitHubAccessDeniedError(repoString);
       }
@@ -230,7 +533,7 @@ async function fetchGitTree(
 /**
  * Checks if a file should be included based on extension filter.
  */
-function shouldIncludeFile(filename: string, extensions: string[]): boolean {
+export function shouldIncludeFile(filename: string, extensions: string[]): boolean {
   if (extensions.length === 0) return true;
   const lowerName = filename.toLowerCase();
   return extensions.some((ext) => lowerName.endsWith(ext.toLowerCase()));
@@ -264,12 +567,17 @@ function getParentPath(path: string): string {
 /**
  * Converts a flat list of tree items into a hierarchical DocsTreeNode structure.
  */
-function buildHierarchicalTree(
-  items: GitHubTreeItem[],
+export function buildHierarchicalTree(
+  items: TreeListingItem[],
   basePath: string,
   extensions: string[],
   maxDepth: number
-): { tree: DocsTreeNode[]; fileCount: number; totalSize: number } {
+): {
+  tree: DocsTreeNode[];
+  fileCount: number;
+  totalSize: number;
+  fileShas: Record<string, string>;
+} {
   // Filter items by base path and extensions
   const filteredItems = items.filter((item) => {
     // Must be under base path
@@ -300,6 +608,7 @@ function buildHierarchicalTree(
 
   // Build a map of path -> node for quick lookups
   const nodeMap = new Map<string, DocsTreeNode>();
+  const fileShas: Record<string, string> = {};
   let fileCount = 0;
   let totalSize = 0;
 
@@ -315,6 +624,9 @@ function buildHierarchicalTree(
       nodeMap.set(item.path, node);
       fileCount++;
       totalSize += item.size || 0;
+      if (item.sha) {
+        fileShas[item.path] = item.sha;
+      }
     }
   }
 
@@ -403,7 +715,125 @@ function buildHierarchicalTree(
   };
   sortNodes(rootNodes);
 
-  return { tree: rootNodes, fileCount, totalSize };
+  return { tree: rootNodes, fileCount, totalSize, fileShas };
+}
+
+/**
+ * Maximum API requests spent completing a truncated tree listing.
+ */
+const MAX_TREE_FALLBACK_REQUESTS = 200;
+
+/**
+ * Directory names walked first when completing a truncated listing,
+ * so the request budget goes to likely docs locations.
+ */
+const DOCS_DIR_NAMES = new Set(["docs", "doc", "documentation", "guides", "website", "content"]);
+
+/**
+ * A subtree waiting to be listed by listTruncatedTree.
+ */
+interface PendingSubtree {
+  /** Tree SHA */
+  sha: string;
+  /** Path of the subtree within the repo ("" for root) */
+  path: string;
+  /** Depth of the subtree below the requested path */
+  depth: number;
+  /** Whether a recursive listing is already known to be truncated */
+  knownTruncated: boolean;
+}
+
+/**
+ * Lists a repository whose recursive tree was truncated by walking it
+ * subtree by subtree, starting at the requested path.
+ *
+ * Each subtree is first listed recursively; only subtrees that are still
+ * too large are listed one level at a time. Stops when the request budget
+ * or the rate limit runs low.
+ *
+ * @returns The listed items (paths relative to the repo root) and whether
+ *   the listing is complete
+ */
+async function listTruncatedTree(
+  owner: string,
+  repo: string,
+  rootSha: string,
+  basePath: string,
+  maxDepth: number,
+  endpoint: GitHubEndpoint
+): Promise<{ items: TreeListingItem[]; complete: boolean }> {
+  const rateLimit = getGitHubRateLimit(endpoint.host);
+  const items: TreeListingItem[] = [];
+  let requests = 0;
+
+  // Locate the requested path one level at a time
+  let start: PendingSubtree = { sha: rootSha, path: "", depth: 0, knownTruncated: true };
+  for (const segment of basePath.split("/").filter(Boolean)) {
+    const level = await fetchGitTree(owner, repo, start.sha, endpoint, false);
+    requests++;
+    const entry = level.tree.find(
+      (item) => item.type === "tree" && item.path === segment
+    );
+    if (!entry) {
+      // Requested path does not exist - nothing to list
+      return { items, complete: true };
+    }
+    start = {
+      sha: entry.sha,
+      path: start.path ? `${start.path}/${segment}` : segment,
+      depth: 0,
+      knownTruncated: false,
+    };
+  }
+
+  const queue: PendingSubtree[] = [start];
+  const withPrefix = (prefix: string, path: string) =>
+    prefix ? `${prefix}/${path}` : path;
+
+  while (queue.length > 0) {
+    if (requests >= MAX_TREE_FALLBACK_REQUESTS || rateLimit.isLow()) {
+      return { items, complete: false };
+    }
+
+    const subtree = queue.shift()!;
+
+    // Try the whole subtree in one request
+    if (!subtree.knownTruncated) {
+      const listing = await fetchGitTree(owner, repo, subtree.sha, endpoint);
+      requests++;
+      if (!listing.truncated) {
+        for (const item of listing.tree) {
+          items.push({ ...item, path: withPrefix(subtree.path, item.path) });
+        }
+        continue;
+      }
+    }
+
+    // Still too large - list one level and queue its subtrees
+    const level = await fetchGitTree(owner, repo, subtree.sha, endpoint, false);
+    requests++;
+    for (const item of level.tree) {
+      const path = withPrefix(subtree.path, item.path);
+      items.push({ ...item, path });
+
+      // Directories at maxDepth can only hold files beyond it
+      if (item.type === "tree" && subtree.depth + 1 < maxDepth) {
+        const pending: PendingSubtree = {
+          sha: item.sha,
+          path,
+          depth: subtree.depth + 1,
+          knownTruncated: false,
+        };
+        if (DOCS_DIR_NAMES.has(item.path.toLowerCase())) {
+          queue.unshift(pending);
+        } else {
+          queue.push(pending);
+        }
+      }
+    }
+  }
+
+  return { items, complete: true };
 }
 
 /**
@@ -424,27 +854,50 @@ export async function fetchRepoTree(
     branch: requestedBranch,
     extensions = DEFAULT_EXTENSIONS,
     maxDepth = 10,
+    endpoint = resolveGitHubEndpoint(),
   } = options;
 
   // Detect or use specified branch
-  const branch = requestedBranch || (await detectDefaultBranch(owner, repo));
+  const branch =
+    requestedBranch || (await detectDefaultBranch(owner, repo, endpoint));
 
   // Fetch the entire tree in one API call
-  const gitTree = await fetchGitTree(owner, repo, branch);
+  const gitTree = await fetchGitTree(owner, repo, branch, endpoint);
+  let items: TreeListingItem[] = gitTree.tree;
+  let complete = !gitTree.truncated;
 
   if (gitTree.truncated) {
     console.error(
-      "Warning: Repository tree was truncated due to size. Some files may be missing."
+      "Repository tree was truncated due to size. Listing subtrees individually..."
+    );
+    const fallback = await listTruncatedTree(
+      owner,
+      repo,
+      gitTree.sha,
+      path,
+      maxDepth,
+      endpoint
+    );
+
+    // Keep anything the truncated listing had that the walk did not reach
+    const merged = new Map<string, TreeListingItem>(
+      gitTree.tree.map((item) => [item.path, item])
     );
+    for (const item of fallback.items) {
+      merged.set(item.path, item);
+    }
+    items = Array.from(merged.values());
+    complete = fallback.complete;
+
+    if (!complete) {
+      console.error(
+        "Warning: Could not complete the repository listing. Some files may be missing."
+      );
+    }
   }
 
   // Build hierarchical tree from flat list
-  const result = buildHierarchicalTree(
-    gitTree.tree,
-    path,
-    extensions,
-    maxDepth
-  );
+  const result = buildHierarchicalTree(items, path, extensions, maxDepth);
 
   return {
     repo: `${owner}/${repo}`,
@@ -453,6 +906,8 @@ export async function fetchRepoTree(
     fileCount: result.fileCount,
     totalSize: result.totalSize,
     truncated: gitTree.truncated,
+    complete,
+    fileShas: result.fileShas,
   };
 }
 
@@ -469,29 +924,34 @@ export interface FetchContentResult {
 }
 
 /**
- * Fetches raw file content from GitHub via raw.githubusercontent.com.
- * This endpoint has no rate limits (served from CDN).
+ * Fetches raw file content from GitHub via raw.githubusercontent.com
+ * (or the enterprise host's /raw endpoint).
+ * raw.githubusercontent.com has no rate limits (served from CDN).
  *
  * @param repoString Repository in "owner/repo" format
  * @param branch Branch name
  * @param filePath Path to the file within the repo
+ * @param endpoint GitHub instance (default: from environment, else github.com)
  * @returns File content or null if not found
  */
 export async function fetchFileContent(
   repoString: string,
   branch: string,
-  filePath: string
+  filePath: string,
+  endpoint: GitHubEndpoint = resolveGitHubEndpoint()
 ): Promise<FetchContentResult | null> {
   const { owner, repo } = parseRepoString(repoString);
 
   // Use raw.githubusercontent.com - no rate limits, served from CDN
-  const url = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${filePath}`;
+  const url = `${endpoint.rawBase}/${owner}/${repo}/${branch}/${filePath}`;
 
-  const response = await fetch(url, {
-    headers: {
-      "User-Agent": "mcp-docs-scraper",
-    },
-  });
+  // Enterprise raw endpoints need auth for private instances
+  const headers: Record<string, string> =
+    endpoint.host === GITHUB_HOST
+      ? { "User-Agent": "mcp-docs-scraper" }
+      : getGitHubHeaders(url);
+
+  const response = await fetch(url, { headers });
 
   if (!response.ok) {
     if (response.status === 404) {
@@ -519,12 +979,14 @@ export async function fetchFileContent(
  * @param repoString Repository in "owner/repo" format
  * @param branch Branch name
  * @param filePaths Array of file paths to fetch
+ * @param endpoint GitHub instance (default: from environment, else github.com)
  * @returns Array of successfully fetched files and array of not found paths
  */
 export async function fetchMultipleFiles(
   repoString: string,
   branch: string,
-  filePaths: string[]
+  filePaths: string[],
+  endpoint: GitHubEndpoint = resolveGitHubEndpoint()
 ): Promise<{
   files: FetchContentResult[];
   notFound: string[];
@@ -536,7 +998,12 @@ export async function fetchMultipleFiles(
   const results = await Promise.all(
     filePaths.map(async (filePath) => {
       try {
-        const result = await fetchFileContent(repoString, branch, filePath);
+        const result = await fetchFileContent(
+          repoString,
+          branch,
+          filePath,
+          endpoint
+        );
         return { filePath, result };
       } catch (error) {
         // Log error but don't fail the whole batch
@@ -558,15 +1025,62 @@ export async function fetchMultipleFiles(
 }
 
 /**
- * Gets the current GitHub API rate limit status.
+ * Gets the current GitHub API rate limit status for a host.
  */
-export function getRateLimitStatus(): string {
-  return githubRateLimit.getStatusMessage();
+export function getRateLimitStatus(host: string = GITHUB_HOST): string {
+  return getGitHubRateLimit(host).getStatusMessage();
 }
 
 /**
- * Gets the raw rate limit info.
+ * Gets the raw rate limit info for a host.
  */
-export function getRateLimitInfo() {
-  return githubRateLimit.getInfo();
+export function getRateLimitInfo(host: string = GITHUB_HOST) {
+  return getGitHubRateLimit(host).getInfo();
 }
+
+/**
+ * Gets the endpoint for a GitHub repository location.
+ */
+function getLocationEndpoint(location: RepoLocation): GitHubEndpoint {
+  return resolveGitHubEndpoint(location.host, {
+    apiBase: location.apiBase,
+    rawBase: location.rawBase,
+  });
+}
+
+/**
+ * GitHub repository provider.
+ */
+export const githubProvider: RepoProvider = {
+  id: "github",
+  name: "GitHub",
+
+  matchesHost(host: string): boolean {
+    return isGitHubHost(host);
+  },
+
+  parseUrl(url: string, force = false): RepoLocation | null {
+    const info = parseGitHubUrl(url, force);
+    return info ? { provider: "github", ...info } : null;
+  },
+
+  resolveRef(location, ref) {
+    return resolveGitHubRef(formatRepo(location), ref, getLocationEndpoint(location));
+  },
+
+  fetchTree(location, options) {
+    return fetchRepoTree(formatRepo(location), {
+      ...options,
+      endpoint: getLocationEndpoint(location),
+    });
+  },
+
+  fetchFileContent(location, branch, filePath) {
+    return fetchFileContent(
+      formatRepo(location),
+      branch,
+      filePath,
+      getLocationEndpoint(location)
+    );
+  },
+};
@@ -0,0 +1,239 @@
+/**
+ * GitLab Fetcher Service - Lists and fetches docs from GitLab repositories.
+ *
+ * Works with gitlab.com and self-hosted instances (hostnames starting with
+ * "gitlab." or listed in GITLAB_HOSTS). Uses GITLAB_TOKEN if set, for
+ * gitlab.com and hosts listed in GITLAB_HOSTS only.
+ */
+
+import {
+  DEFAULT_EXTENSIONS,
+  buildHierarchicalTree,
+  type FetchTreeResult,
+  type TreeListingItem,
+} from "./github-fetcher.js";
+import {
+  LATEST_RELEASE_REF,
+  fetchRawFile,
+  fetchRefApi,
+  fetchRepoApi,
+  formatRepo,
+  getConfiguredHosts,
+  isTokenHost,
+  splitRepoUrl,
+  type RepoLocation,
+  type RepoProvider,
+} from "./repo-provider.js";
+import { RefNotFoundError } from "../types/errors.js";
+
+/**
+ * Maximum number of tree pages (100 entries each) to request.
+ */
+const MAX_TREE_PAGES = 100;
+
+/**
+ * Item returned by the GitLab repository tree API.
+ */
+interface GitLabTreeItem {
+  id: string;
+  name: string;
+  type: "blob" | "tree" | "commit";
+  path: string;
+  mode: string;
+}
+
+/**
+ * Gets GitLab API headers for a request URL. The access token is only sent
+ * to gitlab.com and hosts listed in GITLAB_HOSTS.
+ */
+function getGitLabHeaders(url: string): Record<string, string> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  const token = process.env.GITLAB_TOKEN;
+  if (token && isTokenHost(url, ["gitlab.com"], "GITLAB_HOSTS")) {
+    headers["PRIVATE-TOKEN"] = token;
+  }
+  return headers;
+}
+
+/**
+ * Gets the API base URL and URL-encoded project ID for a location.
+ */
+function getProjectApi(location: RepoLocation): string {
+  const projectId = encodeURIComponent(formatRepo(location));
+  const apiBase = location.apiBase || `https://${location.host}/api/v4`;
+  return `${apiBase}/projects/${projectId}`;
+}
+
+/**
+ * Gets the default branch of a project.
+ */
+async function getDefaultBranch(
+  location: RepoLocation,
+  headers: Record<string, string>
+): Promise<string> {
+  const response = await fetchRepoApi(location, getProjectApi(location), headers);
+  const project = (await response.json()) as { default_branch?: string };
+  return project.default_branch || "main";
+}
+
+/**
+ * GitLab repository provider.
+ */
+export const gitlabProvider: RepoProvider = {
+  id: "gitlab",
+  name: "GitLab",
+
+  matchesHost(host: string): boolean {
+    return (
+      host === "gitlab.com" ||
+      host.startsWith("gitlab.") ||
+      getConfiguredHosts("GITLAB_HOSTS").includes(host)
+    );
+  },
+
+  /**
+   * Supports:
+   * - https://gitlab.com/group/subgroup/repo
+   * - https://gitlab.com/group/repo/-/tree/branch/path
+   * - https://gitlab.com/group/repo/-/blob/branch/path
+   */
+  parseUrl(url: string, force = false): RepoLocation | null {
+    const split = splitRepoUrl(url);
+    if (!split || (!force && !this.matchesHost(split.host))) {
+      return null;
+    }
+
+    // Everything before "/-/" is the (possibly nested) project path
+    const separator = split.parts.indexOf("-");
+    const projectParts =
+      separator === -1 ? split.parts : split.parts.slice(0, separator);
+    if (projectParts.length < 2) {
+      return null;
+    }
+
+    let branch: string | undefined;
+    let path: string | undefined;
+    if (separator !== -1) {
+      const [kind, ref, ...rest] = split.parts.slice(separator + 1);
+      if ((kind === "tree" || kind === "blob") && ref) {
+        branch = ref;
+        path = rest.length > 0 ? rest.join("/") : undefined;
+      }
+    }
+
+    return {
+      provider: "gitlab",
+      host: split.host,
+      owner: projectParts.slice(0, -1).join("/"),
+      repo: projectParts[projectParts.length - 1].replace(/\.git$/, ""),
+      branch,
+      path,
+    };
+  },
+
+  async resolveRef(location, ref) {
+    const projectApi = getProjectApi(location);
+    const headers = getGitLabHeaders(projectApi);
+
+    const defaultBranch =
+      ref === LATEST_RELEASE_REF ? undefined : await getDefaultBranch(location, headers);
+    let name = ref || defaultBranch!;
+    if (name === LATEST_RELEASE_REF) {
+      // Releases are listed newest first
+      const releases = await fetchRefApi<Array<{ tag_name: string }>>(
+        location,
+        name,
+        `${projectApi}/releases?per_page=1`,
+        headers
+      );
+      if (!releases[0]) {
+        throw new RefNotFoundError(formatRepo(location), name);
+      }
+      name = releases[0].tag_name;
+    }
+
+    const commit = await fetchRefApi<{ id: string }>(
+      location,
+      name,
+      `${projectApi}/repository/commits/${encodeURIComponent(name)}`,
+      headers
+    );
+
+    return { ref: name, commitSha: commit.id, isDefaultBranch: name === defaultBranch };
+  },
+
+  async fetchTree(location, options = {}): Promise<FetchTreeResult> {
+    const {
+      path = "",
+      extensions = DEFAULT_EXTENSIONS,
+      maxDepth = 10,
+    } = options;
+    const projectApi = getProjectApi(location);
+    const headers = getGitLabHeaders(projectApi);
+
+    // Detect or use specified branch
+    const branch = options.branch || (await getDefaultBranch(location, headers));
+
+    // Page through the recursive tree listing
+    const items: TreeListingItem[] = [];
+    let page = "1";
+    let pagesFetched = 0;
+    while (page && pagesFetched < MAX_TREE_PAGES) {
+      const params = new URLSearchParams({
+        recursive: "true",
+        per_page: "100",
+        ref: branch,
+        page,
+      });
+      if (path) {
+        params.set("path", path);
+      }
+
+      const response = await fetchRepoApi(
+        location,
+        `${projectApi}/repository/tree?${params}`,
+        headers
+      );
+      const pageItems = (await response.json()) as GitLabTreeItem[];
+      for (const item of pageItems) {
+        if (item.type === "blob" || item.type === "tree") {
+          items.push({
+            path: item.path,
+            type: item.type,
+            sha: item.type === "blob" ? item.id : undefined,
+          });
+        }
+      }
+
+      page = response.headers.get("x-next-page") || "";
+      pagesFetched++;
+    }
+
+    const truncated = !!page;
+    if (truncated) {
+      console.error(
+        "Warning: GitLab tree listing was truncated. Some files may be missing."
+      );
+    }
+
+    const result = buildHierarchicalTree(items, path, extensions, maxDepth);
+
+    return {
+      repo: formatRepo(location),
+      branch,
+      tree: result.tree,
+      fileCount: result.fileCount,
+      totalSize: result.totalSize,
+      truncated,
+      complete: !truncated,
+      fileShas: result.fileShas,
+    };
+  },
+
+  fetchFileContent(location, branch, filePath) {
+    const url = `${getProjectApi(location)}/repository/files/${encodeURIComponent(
+      filePath
+    )}/raw?ref=${encodeURIComponent(branch)}`;
+    return fetchRawFile(url, getGitLabHeaders(url), filePath);
+  },
+};
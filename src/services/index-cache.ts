@@ -0,0 +1,198 @@
+/**
+ * Index cache service - Keeps deserialized search indexes in memory.
+ *
+ * Parsing a large search-index.json on every search is slow, so loaded
+ * indexes are kept in an LRU keyed by docs ID and indexed_at: re-indexing
+ * changes indexed_at, so stale indexes are never served. Entries are
+ * evicted once their total size passes a memory ceiling.
+ */
+
+import type { CacheMeta } from "../types/cache.js";
+import { DocsError } from "../types/errors.js";
+import { cacheManager } from "./cache-manager.js";
+import { SearchIndex } from "./search-index.js";
+import { VectorIndex } from "./vector-index.js";
+
+/**
+ * Kinds of index kept in the cache.
+ */
+type IndexKind = "search" | "vector";
+
+/**
+ * A cached index.
+ */
+interface CacheEntry {
+  docsId: string;
+  index: SearchIndex | VectorIndex;
+  /** Approximate memory use (size of the serialized index) */
+  bytes: number;
+}
+
+/**
+ * Default memory ceiling in megabytes (override with MCP_DOCS_INDEX_CACHE_MB).
+ */
+const DEFAULT_MAX_MB = 256;
+
+/**
+ * Gets the memory ceiling in bytes from the environment.
+ */
+function getMaxBytes(): number {
+  const configured = Number(process.env.MCP_DOCS_INDEX_CACHE_MB);
+  const megabytes = Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MAX_MB;
+  return megabytes * 1024 * 1024;
+}
+
+/**
+ * LRU cache of deserialized indexes.
+ * Returned indexes are shared: callers must not modify them.
+ */
+export class IndexCache {
+  // Map iteration order is insertion order, so the first entry is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private readonly maxBytes: number;
+
+  constructor(maxBytes: number = getMaxBytes()) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Gets the full-text search index of a docs set.
+   * Throws DocsError if it is missing or can't be read.
+   */
+  async getSearchIndex(meta: CacheMeta): Promise<SearchIndex> {
+    const rebuildHint = "Run index_docs with force_refresh: true to rebuild the search index";
+
+    return this.load("search", meta, async () => {
+      const indexJson = await cacheManager.getSearchIndex(meta.source, meta.id);
+      if (!indexJson) {
+        throw new DocsError("CACHE_NOT_FOUND", `Search index not found for "${meta.id}"`, {
+          userMessage: `Search index not found for "${meta.id}". Please re-index the documentation.`,
+          suggestions: [rebuildHint],
+          context: { docs_id: meta.id },
+        });
+      }
+
+      try {
+        return { index: SearchIndex.fromJSON(indexJson), bytes: indexJson.length };
+      } catch (error) {
+        throw new DocsError("PARSE_ERROR", "Failed to load search index", {
+          userMessage:
+            "Search index is corrupted or from an older version. Please re-index the documentation.",
+          suggestions: [rebuildHint],
+          context: { docs_id: meta.id },
+          cause: error instanceof Error ? error : undefined,
+        });
+      }
+    });
+  }
+
+  /**
+   * Gets the semantic vector index of a docs set.
+   * Throws DocsError if it is missing or can't be read.
+   */
+  async getVectorIndex(meta: CacheMeta): Promise<VectorIndex> {
+    const rebuildHint =
+      "Set MCP_DOCS_SEMANTIC_INDEX=1 and run index_docs with force_refresh: true to build the semantic index";
+
+    return this.load("vector", meta, async () => {
+      const indexJson = await cacheManager.getVectorIndex(meta.source, meta.id);
+      if (!indexJson) {
+        throw new DocsError("CACHE_NOT_FOUND", `Semantic index not found for "${meta.id}"`, {
+          userMessage: `"${meta.id}" has no semantic index (it was indexed without one). Use mode "keyword" or re-index the documentation.`,
+          suggestions: [rebuildHint],
+          context: { docs_id: meta.id },
+        });
+      }
+
+      try {
+        return { index: VectorIndex.fromJSON(indexJson), bytes: indexJson.length };
+      } catch (error) {
+        throw new DocsError("PARSE_ERROR", "Failed to load semantic index", {
+          userMessage:
+            "Semantic index is corrupted or from an older version. Please re-index the documentation.",
+          suggestions: [rebuildHint],
+          context: { docs_id: meta.id },
+          cause: error instanceof Error ? error : undefined,
+        });
+      }
+    });
+  }
+
+  /**
+   * Drops the cached indexes of a docs set (after re-indexing or clearing it).
+   */
+  invalidate(docsId: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.docsId === docsId) this.remove(key);
+    }
+  }
+
+  /**
+   * Drops all cached indexes.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Returns a cached index, or loads, caches and returns it.
+   */
+  private async load<T extends SearchIndex | VectorIndex>(
+    kind: IndexKind,
+    meta: CacheMeta,
+    read: () => Promise<{ index: T; bytes: number }>
+  ): Promise<T> {
+    const key = `${kind}:${meta.source}/${meta.id}@${meta.indexed_at}`;
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Move to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached.index as T;
+    }
+
+    const { index, bytes } = await read();
+
+    // Older versions of this docs set can't be requested any more
+    for (const [otherKey, entry] of this.entries) {
+      if (entry.docsId === meta.id && otherKey.startsWith(`${kind}:`)) this.remove(otherKey);
+    }
+
+    // Indexes bigger than the whole ceiling are used once, not cached
+    if (bytes <= this.maxBytes) {
+      this.entries.set(key, { docsId: meta.id, index, bytes });
+      this.totalBytes += bytes;
+      this.evict();
+    }
+
+    return index;
+  }
+
+  /**
+   * Evicts least recently used entries until the cache fits the ceiling.
+   */
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.remove(key);
+    }
+  }
+
+  /**
+   * Removes one entry.
+   */
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+}
+
+/**
+ * Default index cache instance.
+ */
+export const indexCache = new IndexCache();
@@ -0,0 +1,324 @@
+/**
+ * Job manager service - Runs indexing in the background.
+ *
+ * Jobs are stored as JSON files in the jobs/ directory of the cache, so
+ * their status can be queried after the tool call that started them has
+ * returned. Running jobs are tracked in memory; a job left "running" by a
+ * server process that no longer exists is reported as failed.
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+  CacheSource,
+  IndexJob,
+  IndexJobPhase,
+  IndexJobRequest,
+  IndexJobStatus,
+} from "../types/cache.js";
+import {
+  CancelledError,
+  JobNotFoundError,
+  ValidationError,
+  throwIfCancelled,
+  wrapError,
+} from "../types/errors.js";
+import { cacheManager } from "./cache-manager.js";
+
+/**
+ * Progress reported by a running job.
+ */
+export interface JobProgress {
+  phase: Exclude<IndexJobPhase, "starting" | "finished">;
+  current: number;
+  total?: number;
+  message: string;
+}
+
+/**
+ * What a job produced.
+ */
+export interface JobResult {
+  docs_id: string;
+  source: CacheSource;
+  pages: number;
+}
+
+/**
+ * Does the work of a job. Must stop with a CancelledError once the
+ * signal is aborted.
+ */
+export type JobRunner = (
+  signal: AbortSignal,
+  onProgress: (progress: JobProgress) => void
+) => Promise<JobResult>;
+
+/**
+ * A job running in this process.
+ */
+interface ActiveJob {
+  job: IndexJob;
+  /** Cache entry the job writes */
+  key: string;
+  controller: AbortController;
+  /** Settles when the job has ended and been stored */
+  done: Promise<void>;
+  /** Last store of the job, so writes happen in order */
+  writing: Promise<void>;
+  /** When the job was last stored (ms) */
+  storedAt: number;
+}
+
+/** Least time between stores of a running job's progress */
+const PROGRESS_STORE_INTERVAL_MS = 1000;
+
+/** How long ended jobs are kept (7 days) */
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Format of generated job IDs (also keeps IDs from reaching outside the jobs directory) */
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Starts, tracks and cancels background indexing jobs.
+ */
+export class JobManager {
+  private active = new Map<string, ActiveJob>();
+
+  /**
+   * Starts a job, or returns the running job for the same cache entry
+   * (two jobs writing the same cache entry would corrupt it).
+   *
+   * @param request What the job indexes (stored with the job)
+   * @param key Cache entry the job writes; jobs with the same key never run at once
+   * @returns The job, and whether it was started by this call
+   */
+  start(
+    request: IndexJobRequest,
+    key: string,
+    run: JobRunner
+  ): { job: IndexJob; started: boolean } {
+    // Synchronous, so concurrent calls for the same key can't both start a job
+    for (const active of this.active.values()) {
+      if (active.key === key) {
+        return { job: copyJob(active.job), started: false };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const job: IndexJob = {
+      job_id: randomUUID(),
+      status: "running",
+      phase: "starting",
+      request,
+      progress: { current: 0, message: "Starting" },
+      created_at: now,
+      updated_at: now,
+      pid: process.pid,
+    };
+
+    const active: ActiveJob = {
+      job,
+      key,
+      controller: new AbortController(),
+      done: Promise.resolve(),
+      writing: Promise.resolve(),
+      storedAt: 0,
+    };
+    this.active.set(job.job_id, active);
+    active.done = this.run(active, run);
+    console.error(`[jobs] Started job ${job.job_id} for ${request.url}`);
+
+    return { job: copyJob(job), started: true };
+  }
+
+  /**
+   * Gets a job. Throws JobNotFoundError if there is none with this ID.
+   */
+  async get(jobId: string): Promise<IndexJob> {
+    const active = this.active.get(jobId);
+    if (active) {
+      return copyJob(active.job);
+    }
+
+    const job = JOB_ID_PATTERN.test(jobId) ? await cacheManager.getJob(jobId) : null;
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+    return this.checkInterrupted(job);
+  }
+
+  /**
+   * Lists jobs, newest first.
+   */
+  async list(status?: IndexJobStatus): Promise<IndexJob[]> {
+    const jobs = await Promise.all(
+      (await cacheManager.listJobs()).map((job) => {
+        const active = this.active.get(job.job_id);
+        return active ? copyJob(active.job) : this.checkInterrupted(job);
+      })
+    );
+
+    return jobs
+      .filter((job) => !status || job.status === status)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Cancels a running job and waits for it to stop. Jobs that already
+   * ended are returned unchanged.
+   */
+  async cancel(jobId: string): Promise<IndexJob> {
+    const active = this.active.get(jobId);
+    if (active) {
+      active.controller.abort();
+      await active.done;
+      return copyJob(active.job);
+    }
+
+    const job = await this.get(jobId);
+    if (job.status === "running") {
+      throw new ValidationError(
+        `Job "${jobId}" is running in another server process (pid ${job.pid}) and can only be cancelled there`,
+        "job_id"
+      );
+    }
+    return job;
+  }
+
+  /**
+   * Runs a job to its end and stores the outcome.
+   */
+  private async run(active: ActiveJob, run: JobRunner): Promise<void> {
+    const { job } = active;
+
+    try {
+      await this.removeOldJobs();
+      await this.store(active);
+      throwIfCancelled(active.controller.signal, "Indexing");
+
+      const result = await run(active.controller.signal, (progress) => {
+        job.phase = progress.phase;
+        job.progress = {
+          current: progress.current,
+          total: progress.total,
+          message: progress.message,
+        };
+        job.updated_at = new Date().toISOString();
+        if (Date.now() - active.storedAt >= PROGRESS_STORE_INTERVAL_MS) {
+          void this.store(active);
+        }
+      });
+
+      job.status = "completed";
+      job.phase = "finished";
+      job.docs_id = result.docs_id;
+      job.source = result.source;
+      job.pages = result.pages;
+      job.progress = {
+        current: result.pages,
+        total: result.pages,
+        message: `Indexed ${result.pages} pages as "${result.docs_id}"`,
+      };
+    } catch (error) {
+      const docsError = wrapError(error);
+      job.status = docsError instanceof CancelledError ? "cancelled" : "failed";
+      job.error = {
+        code: docsError.code,
+        message: docsError.userMessage,
+        suggestions: docsError.suggestions.length > 0 ? docsError.suggestions : undefined,
+      };
+    }
+
+    job.finished_at = job.updated_at = new Date().toISOString();
+    await this.store(active);
+    this.active.delete(job.job_id);
+    console.error(`[jobs] Job ${job.job_id} ${job.status}`);
+  }
+
+  /**
+   * Stores a snapshot of a job, after any store still in progress.
+   */
+  private store(active: ActiveJob): Promise<void> {
+    const snapshot = copyJob(active.job);
+    active.storedAt = Date.now();
+    active.writing = active.writing
+      .then(() => cacheManager.storeJob(snapshot))
+      .catch((error) => {
+        console.error(
+          `[jobs] Failed to store job ${snapshot.job_id}:`,
+          error instanceof Error ? error.message : error
+        );
+      });
+    return active.writing;
+  }
+
+  /**
+   * Marks a stored running job as failed if its process is gone
+   * (the server stopped or crashed before the job ended).
+   */
+  private async checkInterrupted(job: IndexJob): Promise<IndexJob> {
+    if (job.status !== "running" || (job.pid !== process.pid && isProcessAlive(job.pid))) {
+      return job;
+    }
+
+    const now = new Date().toISOString();
+    const interrupted: IndexJob = {
+      ...job,
+      status: "failed",
+      error: {
+        code: "UNKNOWN_ERROR",
+        message: "The server stopped before the job finished.",
+        suggestions: ["Run index_docs again"],
+      },
+      updated_at: now,
+      finished_at: now,
+    };
+    await cacheManager.storeJob(interrupted);
+    return interrupted;
+  }
+
+  /**
+   * Removes jobs that ended more than JOB_RETENTION_MS ago. Failures are
+   * logged, not thrown: they must not fail the job being started.
+   */
+  private async removeOldJobs(): Promise<void> {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+
+    try {
+      for (const job of await cacheManager.listJobs()) {
+        if (job.finished_at && new Date(job.finished_at).getTime() < cutoff) {
+          await cacheManager.removeJob(job.job_id);
+        }
+      }
+    } catch (error) {
+      console.error(
+        "[jobs] Failed to remove old jobs:",
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
+
+/**
+ * Copies a job, so callers can't change the tracked one.
+ */
+function copyJob(job: IndexJob): IndexJob {
+  return { ...job, request: { ...job.request }, progress: { ...job.progress } };
+}
+
+/**
+ * Checks if a process is running.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Default job manager instance.
+ */
+export const jobManager = new JobManager();
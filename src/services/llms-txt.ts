@@ -0,0 +1,302 @@
+/**
+ * llms.txt Service - Reads documentation published for LLMs.
+ *
+ * Responsibilities:
+ * - Probe a site for /llms.txt and /llms-full.txt
+ * - Parse the llms.txt link list into sections
+ * - Fetch linked markdown directly (no HTML cleaning needed)
+ * - Split llms-full.txt into per-page documents
+ */
+
+import { normalizeUrl, resolveUrl } from "../utils/url.js";
+
+/**
+ * A link listed in llms.txt.
+ */
+export interface LlmsTxtLink {
+  /** Link text */
+  title: string;
+  /** Absolute URL of the linked document */
+  url: string;
+  /** Optional description after the link */
+  notes?: string;
+}
+
+/**
+ * A `## Section` of llms.txt with its links.
+ */
+export interface LlmsTxtSection {
+  /** Section heading */
+  name: string;
+  /** Links listed in the section */
+  links: LlmsTxtLink[];
+}
+
+/**
+ * Parsed llms.txt file.
+ */
+export interface LlmsTxtDocument {
+  /** Project name from the H1 heading */
+  title: string;
+  /** Summary from the blockquote following the title */
+  summary?: string;
+  /** Link sections in file order */
+  sections: LlmsTxtSection[];
+}
+
+/**
+ * An llms.txt or llms-full.txt file found on a site.
+ */
+export interface LlmsTxtFile {
+  /** URL the file was fetched from */
+  url: string;
+  /** Raw file content */
+  content: string;
+}
+
+/**
+ * A page split out of llms-full.txt.
+ */
+export interface LlmsFullPage {
+  /** Page title (H1 text) */
+  title: string;
+  /** Markdown content including the H1 */
+  content: string;
+}
+
+const USER_AGENT = "mcp-docs-scraper/1.0 (documentation indexer)";
+
+/**
+ * Fetches a text resource. Returns null for errors, HTML responses (many
+ * sites answer unknown paths with their SPA shell) and aborted requests.
+ */
+async function fetchText(
+  url: string,
+  timeout = 10000,
+  signal?: AbortSignal
+): Promise<string | null> {
+  try {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/markdown,text/plain;q=0.9,*/*;q=0.5",
+      },
+      redirect: "follow",
+      signal: signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal,
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("text/html") || contentType.includes("application/xhtml")) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const text = await response.text();
+    if (text.trimStart().startsWith("<")) {
+      return null;
+    }
+
+    return text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets candidate directories to probe: the URL's own path, then the site root.
+ */
+function getProbeBases(url: string): string[] {
+  const parsed = new URL(normalizeUrl(url));
+  const bases = new Set<string>();
+
+  const path = parsed.pathname.replace(/\/+$/, "");
+  if (path) {
+    bases.add(`${parsed.origin}${path}/`);
+  }
+  bases.add(`${parsed.origin}/`);
+
+  return Array.from(bases);
+}
+
+/**
+ * Looks for llms.txt on a site.
+ * Checks the URL's own path first (e.g. /docs/llms.txt), then the site root.
+ *
+ * @param url Any URL on the documentation site
+ * @param signal Stops probing (resolves to null)
+ * @returns The file's URL and content, or null if none was found
+ */
+export async function findLlmsTxt(
+  url: string,
+  signal?: AbortSignal
+): Promise<LlmsTxtFile | null> {
+  for (const base of getProbeBases(url)) {
+    const fileUrl = new URL("llms.txt", base).href;
+    const content = await fetchText(fileUrl, 5000, signal);
+    if (content && /^#\s+\S/m.test(content)) {
+      return { url: fileUrl, content };
+    }
+  }
+  return null;
+}
+
+/**
+ * Looks for llms-full.txt on a site, using the same locations as findLlmsTxt.
+ *
+ * @param url Any URL on the documentation site
+ * @param signal Stops probing (resolves to null)
+ * @returns The file's URL and content, or null if none was found
+ */
+export async function findLlmsFullTxt(
+  url: string,
+  signal?: AbortSignal
+): Promise<LlmsTxtFile | null> {
+  for (const base of getProbeBases(url)) {
+    const fileUrl = new URL("llms-full.txt", base).href;
+    const content = await fetchText(fileUrl, 30000, signal);
+    if (content && content.trim()) {
+      return { url: fileUrl, content };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses llms.txt content.
+ *
+ * Format (https://llmstxt.org): an H1 title, an optional blockquote summary,
+ * free text, then H2 sections containing `- [title](url): notes` lists.
+ *
+ * @param text Raw llms.txt content
+ * @param baseUrl URL of the llms.txt file, for resolving relative links
+ * @returns Parsed document
+ */
+export function parseLlmsTxt(text: string, baseUrl: string): LlmsTxtDocument {
+  const doc: LlmsTxtDocument = { title: "", sections: [] };
+  const summaryLines: string[] = [];
+  let current: LlmsTxtSection | null = null;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+
+    const h1 = line.match(/^#\s+(.+)$/);
+    if (h1 && !doc.title) {
+      doc.title = h1[1].trim();
+      continue;
+    }
+
+    const h2 = line.match(/^##\s+(.+)$/);
+    if (h2) {
+      current = { name: h2[1].trim(), links: [] };
+      doc.sections.push(current);
+      continue;
+    }
+
+    if (!current && line.startsWith(">")) {
+      summaryLines.push(line.replace(/^>\s?/, ""));
+      continue;
+    }
+
+    const link = line.match(/^[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)\s*(?::\s*(.*))?$/);
+    if (link) {
+      const url = resolveUrl(link[2], baseUrl);
+      if (!url) continue;
+
+      // Links before the first H2 go into an implicit section
+      if (!current) {
+        current = { name: "Docs", links: [] };
+        doc.sections.push(current);
+      }
+      current.links.push({
+        title: link[1].trim(),
+        url,
+        notes: link[3]?.trim() || undefined,
+      });
+    }
+  }
+
+  if (summaryLines.length > 0) {
+    doc.summary = summaryLines.join(" ").trim();
+  }
+
+  doc.sections = doc.sections.filter((section) => section.links.length > 0);
+  return doc;
+}
+
+/**
+ * Fetches the markdown behind an llms.txt link.
+ * Links to HTML pages are retried with the `.md` suffix convention
+ * (page.html.md or page.md); returns null if no markdown is available.
+ *
+ * @param url Link URL
+ * @param signal Stops the download (resolves to null)
+ * @returns Markdown content or null
+ */
+export async function fetchLinkedMarkdown(
+  url: string,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const direct = await fetchText(url, undefined, signal);
+  if (direct !== null || signal?.aborted) {
+    return direct;
+  }
+
+  const parsed = new URL(url);
+  if (/\.(md|mdx|txt)$/i.test(parsed.pathname)) {
+    return null;
+  }
+
+  parsed.pathname = parsed.pathname.endsWith("/")
+    ? `${parsed.pathname}index.html.md`
+    : `${parsed.pathname}.md`;
+  return fetchText(parsed.href, undefined, signal);
+}
+
+/**
+ * Splits llms-full.txt into pages at top-level (H1) headings.
+ * Headings inside fenced code blocks are ignored.
+ *
+ * @param text Raw llms-full.txt content
+ * @returns Pages in file order
+ */
+export function splitLlmsFull(text: string): LlmsFullPage[] {
+  const pages: LlmsFullPage[] = [];
+  let lines: string[] = [];
+  let title = "";
+  let fence: string | null = null;
+
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    if (content) {
+      pages.push({ title: title || "Overview", content });
+    }
+    lines = [];
+  };
+
+  for (const line of text.split("\n")) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1] === fence) {
+        fence = null;
+      }
+    }
+
+    const h1 = !fence && line.match(/^#\s+(.+)$/);
+    if (h1) {
+      flush();
+      title = h1[1].trim();
+    }
+
+    lines.push(line);
+  }
+  flush();
+
+  return pages;
+}
@@ -0,0 +1,295 @@
+/**
+ * Local Fetcher Service - Reads documentation from the local filesystem.
+ *
+ * Responsibilities:
+ * - Resolve filesystem paths and file:// URLs
+ * - Walk a directory with the same extension filter as fetchRepoTree
+ * - Read a specific git ref from a local repository via git plumbing
+ */
+
+import { execFile } from "node:child_process";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import type { DocsTreeNode } from "../types/index.js";
+import {
+  GitCommandError,
+  LocalPathNotFoundError,
+  ValidationError,
+} from "../types/errors.js";
+import {
+  DEFAULT_EXTENSIONS,
+  buildHierarchicalTree,
+  type FetchContentResult,
+  type TreeListingItem,
+} from "./github-fetcher.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Directories never descended into when walking the filesystem.
+ */
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+/**
+ * Result of listing a local docs directory.
+ */
+export interface LocalTreeResult {
+  /** Absolute path of the directory */
+  rootPath: string;
+  /** The hierarchical file tree */
+  tree: DocsTreeNode[];
+  /** Total number of files found */
+  fileCount: number;
+  /** Total size of all files in bytes */
+  totalSize: number;
+  /** Git ref that was listed (working tree if absent) */
+  ref?: string;
+  /** Commit SHA the ref resolved to */
+  commitSha?: string;
+}
+
+/**
+ * Options for local tree listing.
+ */
+export interface LocalTreeOptions {
+  /** Starting path within the directory (default: root) */
+  path?: string;
+  /** Git ref to read instead of the working tree */
+  ref?: string;
+  /** File extensions to include (default: all markdown) */
+  extensions?: string[];
+  /** Maximum depth to traverse (default: 10) */
+  maxDepth?: number;
+}
+
+/**
+ * Checks whether a string looks like a local path or file:// URL
+ * rather than a web URL.
+ */
+export function isLocalPath(input: string): boolean {
+  const trimmed = input.trim();
+  return (
+    trimmed.startsWith("file://") ||
+    trimmed.startsWith("/") ||
+    trimmed.startsWith("./") ||
+    trimmed.startsWith("../") ||
+    trimmed.startsWith("~") ||
+    /^[a-zA-Z]:[\\/]/.test(trimmed)
+  );
+}
+
+/**
+ * Resolves a filesystem path or file:// URL to an absolute path.
+ */
+export function resolveLocalPath(input: string): string {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith("file://")) {
+    return resolve(fileURLToPath(trimmed));
+  }
+
+  if (trimmed === "~" || trimmed.startsWith("~/")) {
+    return resolve(join(homedir(), trimmed.slice(1)));
+  }
+
+  return isAbsolute(trimmed) ? resolve(trimmed) : resolve(process.cwd(), trimmed);
+}
+
+/**
+ * Runs a git command in a directory and returns stdout.
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new GitCommandError(
+      cwd,
+      stderr || (error instanceof Error ? error.message : String(error)),
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Resolves a git ref to a commit SHA.
+ * Refs starting with "-" are rejected, since git would read them as options.
+ */
+async function resolveGitRef(rootPath: string, ref: string): Promise<string> {
+  if (ref.startsWith("-")) {
+    throw new ValidationError(`Invalid git ref: ${ref}`, "ref");
+  }
+  const output = await git(rootPath, ["rev-parse", "--verify", `${ref}^{commit}`]);
+  return output.trim();
+}
+
+/**
+ * Lists files at a commit with `git ls-tree`, relative to rootPath.
+ */
+async function listGitTree(
+  rootPath: string,
+  commitSha: string
+): Promise<TreeListingItem[]> {
+  // Without --full-tree, paths are limited and relative to the working directory
+  const output = await git(rootPath, ["ls-tree", "-r", "-l", "-z", commitSha]);
+  const items: TreeListingItem[] = [];
+
+  for (const record of output.split("\0")) {
+    if (!record) continue;
+
+    // Format: "<mode> <type> <sha> <size>\t<path>"
+    const tab = record.indexOf("\t");
+    const [, type, , size] = record.slice(0, tab).trim().split(/\s+/);
+    if (type !== "blob") continue;
+
+    items.push({
+      path: record.slice(tab + 1),
+      type: "blob",
+      size: parseInt(size, 10) || 0,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Walks a directory recursively, skipping hidden and ignored directories.
+ */
+async function walkDirectory(
+  rootPath: string,
+  maxDepth: number
+): Promise<TreeListingItem[]> {
+  const items: TreeListingItem[] = [];
+
+  async function walk(relativeDir: string, depth: number) {
+    if (depth > maxDepth) return;
+
+    const entries = await readdir(join(rootPath, relativeDir), {
+      withFileTypes: true,
+    });
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith(".") || IGNORED_DIRECTORIES.has(entry.name)) {
+          continue;
+        }
+        items.push({ path: relativePath, type: "tree" });
+        await walk(relativePath, depth + 1);
+      } else if (entry.isFile()) {
+        const stats = await stat(join(rootPath, relativePath));
+        items.push({ path: relativePath, type: "blob", size: stats.size });
+      }
+    }
+  }
+
+  await walk("", 1);
+  return items;
+}
+
+/**
+ * Gets the number of segments in a sub-path.
+ */
+function getSubPathDepth(path: string): number {
+  return path.split("/").filter(Boolean).length;
+}
+
+/**
+ * Lists the docs files in a local directory, or in a git ref of a local
+ * repository when `ref` is given.
+ *
+ * @param rootPath Absolute directory path
+ * @param options Listing options
+ * @returns Tree structure with metadata
+ */
+export async function fetchLocalTree(
+  rootPath: string,
+  options: LocalTreeOptions = {}
+): Promise<LocalTreeResult> {
+  const {
+    path = "",
+    ref,
+    extensions = DEFAULT_EXTENSIONS,
+    maxDepth = 10,
+  } = options;
+
+  const rootStats = await stat(rootPath).catch(() => null);
+  if (!rootStats?.isDirectory()) {
+    throw new LocalPathNotFoundError(rootPath);
+  }
+
+  let items: TreeListingItem[];
+  let commitSha: string | undefined;
+
+  if (ref) {
+    commitSha = await resolveGitRef(rootPath, ref);
+    items = await listGitTree(rootPath, commitSha);
+  } else {
+    items = await walkDirectory(rootPath, maxDepth + getSubPathDepth(path));
+  }
+
+  const result = buildHierarchicalTree(
+    items,
+    path.replace(/^\/+|\/+$/g, ""),
+    extensions,
+    maxDepth
+  );
+
+  return {
+    rootPath,
+    tree: result.tree,
+    fileCount: result.fileCount,
+    totalSize: result.totalSize,
+    ref,
+    commitSha,
+  };
+}
+
+/**
+ * Reads a docs file from a local directory, or from a commit of a local
+ * git repository when `commitSha` is given.
+ *
+ * @param rootPath Absolute directory path
+ * @param filePath Path relative to rootPath
+ * @param commitSha Commit to read from (working tree if absent)
+ * @returns File content or null if not found
+ */
+export async function readLocalFileContent(
+  rootPath: string,
+  filePath: string,
+  commitSha?: string
+): Promise<FetchContentResult | null> {
+  let content: string;
+
+  if (commitSha) {
+    try {
+      // "./" makes the path relative to rootPath rather than the repo root
+      content = await git(rootPath, ["show", `${commitSha}:./${filePath}`]);
+    } catch {
+      return null;
+    }
+  } else {
+    try {
+      content = await readFile(join(rootPath, filePath), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    path: filePath,
+    content,
+    size: Buffer.byteLength(content, "utf8"),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Query parser - Parses the search_docs query syntax.
+ *
+ * Supported syntax:
+ * - `"exact phrase"` - words must appear next to each other
+ * - `+term` / `-term` - term must / must not match
+ * - `title:`, `heading:`, `path:`, `code:` - match only in that field
+ * - `a AND b`, `a OR b` - boolean combination (AND binds tighter; adjacent
+ *   terms without an operator are OR'ed, as in plain queries)
+ */
+
+/**
+ * Fields a query clause can be scoped to.
+ */
+export type QueryField = "title" | "heading" | "path" | "code";
+
+/**
+ * A single term, phrase or field-scoped term of a query.
+ */
+export interface QueryClause {
+  /** Term or phrase text (without quotes, operators or field prefix) */
+  text: string;
+  /** Whether the text was quoted (matched exactly, words next to each other) */
+  phrase: boolean;
+  /** Field the clause is restricted to (all text fields if absent) */
+  field?: QueryField;
+}
+
+/**
+ * A query as understood by the search index.
+ */
+export interface ParsedQuery {
+  /** Alternatives (OR'ed), each a list of clauses that must all match (AND) */
+  groups: QueryClause[][];
+  /** Clauses every result must match (`+term`) */
+  required: QueryClause[];
+  /** Clauses no result may match (`-term`) */
+  excluded: QueryClause[];
+  /** Fuzzy matching: edit distance as a fraction of term length, or false */
+  fuzzy: number | false;
+  /** Whether terms also match as word prefixes */
+  prefix: boolean;
+}
+
+/**
+ * Per-query matching overrides.
+ */
+export interface QueryOptions {
+  /** Fuzzy matching (true = default 0.2, false = off, number = fraction of term length) */
+  fuzzy?: number | boolean;
+  /** Prefix matching (default: true) */
+  prefix?: boolean;
+}
+
+/**
+ * Default fuzziness, as a fraction of term length.
+ */
+export const DEFAULT_FUZZY = 0.2;
+
+/**
+ * Field prefixes recognized in queries.
+ */
+const QUERY_FIELDS: readonly QueryField[] = ["title", "heading", "path", "code"];
+
+/**
+ * Matches one query token: optional +/-, optional field, then a quoted
+ * phrase or a bare word.
+ */
+const TOKEN_PATTERN = /([+-]?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Parses a query string.
+ *
+ * @param query Query text
+ * @param options Fuzzy/prefix overrides
+ * @returns The parsed query
+ */
+export function parseQuery(query: string, options: QueryOptions = {}): ParsedQuery {
+  const parsed: ParsedQuery = {
+    groups: [],
+    required: [],
+    excluded: [],
+    fuzzy: resolveFuzzy(options.fuzzy),
+    prefix: options.prefix ?? true,
+  };
+
+  let group: QueryClause[] = [];
+  let pendingAnd = false;
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, operator, fieldName, phrase, word] = match;
+
+    // Boolean operators (uppercase only, so "and"/"or" stay searchable)
+    if (!operator && !fieldName && phrase === undefined) {
+      if (word === "AND") {
+        pendingAnd = group.length > 0;
+        continue;
+      }
+      if (word === "OR") {
+        pendingAnd = false;
+        continue;
+      }
+    }
+
+    // Unknown "field:" prefixes are part of the term (e.g. "http:" or "std::vec")
+    const field = QUERY_FIELDS.find((f) => f === fieldName?.toLowerCase());
+    let text = phrase ?? word;
+    if (fieldName && !field) {
+      text = raw.slice(operator.length);
+    }
+
+    text = text.trim();
+    if (!text) continue;
+
+    const clause: QueryClause = {
+      text,
+      phrase: phrase !== undefined,
+      ...(field && { field }),
+    };
+
+    if (operator === "+") {
+      parsed.required.push(clause);
+    } else if (operator === "-") {
+      parsed.excluded.push(clause);
+    } else if (pendingAnd) {
+      group.push(clause);
+    } else {
+      if (group.length > 0) parsed.groups.push(group);
+      group = [clause];
+    }
+    pendingAnd = false;
+  }
+
+  if (group.length > 0) parsed.groups.push(group);
+
+  return parsed;
+}
+
+/**
+ * Resolves the fuzzy option to a fraction of term length, or false.
+ */
+function resolveFuzzy(fuzzy: number | boolean | undefined): number | false {
+  if (fuzzy === undefined || fuzzy === true) return DEFAULT_FUZZY;
+  if (fuzzy === false || fuzzy <= 0) return false;
+  return fuzzy;
+}
+
+/**
+ * Gets the text of all positive clauses, for choosing snippets.
+ */
+export function getPositiveText(parsed: ParsedQuery): string {
+  return [...parsed.required, ...parsed.groups.flat()]
+    .map((clause) => clause.text)
+    .join(" ");
+}
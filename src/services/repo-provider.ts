@@ -0,0 +1,275 @@
+/**
+ * Repository provider abstraction.
+ *
+ * A provider knows how to recognize repository URLs for a git hosting
+ * service, list the docs files in a repository, and fetch raw file content.
+ * Implementations: GitHub, GitLab, Gitea/Forgejo, Bitbucket Cloud.
+ */
+
+import type {
+  FetchTreeOptions,
+  FetchTreeResult,
+  FetchContentResult,
+} from "./github-fetcher.js";
+import {
+  NetworkError,
+  RefNotFoundError,
+  RepoAccessDeniedError,
+  RepoNotFoundError,
+} from "../types/errors.js";
+
+/**
+ * Supported repository hosting providers.
+ */
+export type RepoProviderId = "github" | "gitlab" | "gitea" | "bitbucket";
+
+/**
+ * A repository (and optional branch/path within it) on a specific host.
+ */
+export interface RepoLocation {
+  /** Hosting provider */
+  provider: RepoProviderId;
+  /** Hostname, e.g. "gitlab.com" or a self-hosted instance */
+  host: string;
+  /** Owner, workspace or (nested) group path */
+  owner: string;
+  /** Repository name */
+  repo: string;
+  /** Branch, tag or commit from the URL */
+  branch?: string;
+  /** Path within the repository from the URL */
+  path?: string;
+  /** API base URL override (e.g. for GitHub Enterprise Server) */
+  apiBase?: string;
+  /** Raw content base URL override (GitHub only) */
+  rawBase?: string;
+}
+
+/**
+ * Special ref that resolves to the newest release (or, for hosts without
+ * releases, the newest tag).
+ */
+export const LATEST_RELEASE_REF = "latest-release";
+
+/**
+ * A ref resolved to the commit it points at.
+ */
+export interface ResolvedRef {
+  /** Branch or tag name, or the commit SHA if one was requested */
+  ref: string;
+  /** Full commit SHA */
+  commitSha: string;
+  /** Whether the ref is the repository's default branch */
+  isDefaultBranch: boolean;
+}
+
+/**
+ * Operations a repository provider must implement.
+ */
+export interface RepoProvider {
+  /** Provider identifier */
+  readonly id: RepoProviderId;
+  /** Human-readable provider name */
+  readonly name: string;
+  /** Whether this provider handles the given hostname without a type hint */
+  matchesHost(host: string): boolean;
+  /**
+   * Parses a repository URL. With `force`, the hostname is not checked,
+   * which allows self-hosted instances on arbitrary domains.
+   */
+  parseUrl(url: string, force?: boolean): RepoLocation | null;
+  /**
+   * Resolves a branch, tag, commit SHA or LATEST_RELEASE_REF to a commit.
+   * Without a ref, resolves the default branch.
+   */
+  resolveRef(location: RepoLocation, ref?: string): Promise<ResolvedRef>;
+  /** Lists docs files in the repository */
+  fetchTree(location: RepoLocation, options?: FetchTreeOptions): Promise<FetchTreeResult>;
+  /** Fetches raw content of a single file; null if it does not exist */
+  fetchFileContent(
+    location: RepoLocation,
+    branch: string,
+    filePath: string
+  ): Promise<FetchContentResult | null>;
+}
+
+/**
+ * Reads a comma-separated list of extra hostnames from an environment variable.
+ */
+export function getConfiguredHosts(envVar: string): string[] {
+  return (process.env[envVar] || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Gets the lowercase hostname of a URL, or undefined if it is invalid.
+ */
+export function getUrlHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a request URL may be sent a provider's access token.
+ * Its host must be one of the provider's public hosts or listed in the
+ * given environment variable; hosts named only by a request (a forced
+ * type or an api_base override) never get a token.
+ *
+ * @param url URL being fetched
+ * @param publicHosts Hosts of the provider's public service
+ * @param envVar Variable listing self-hosted instances, if any
+ */
+export function isTokenHost(
+  url: string,
+  publicHosts: readonly string[],
+  envVar?: string
+): boolean {
+  const host = getUrlHost(url);
+  if (!host) return false;
+  return (
+    publicHosts.includes(host) ||
+    (envVar !== undefined && getConfiguredHosts(envVar).includes(host))
+  );
+}
+
+/**
+ * Parses a URL (adding https:// if missing) into hostname and path segments.
+ */
+export function splitRepoUrl(url: string): { host: string; parts: string[] } | null {
+  let normalized = url.trim();
+  if (!normalized.startsWith("http")) {
+    normalized = "https://" + normalized;
+  }
+
+  try {
+    const parsed = new URL(normalized);
+    return {
+      host: parsed.hostname.toLowerCase(),
+      parts: parsed.pathname.split("/").filter(Boolean).map(decodeURIComponent),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats a location as "owner/repo".
+ */
+export function formatRepo(location: RepoLocation): string {
+  return `${location.owner}/${location.repo}`;
+}
+
+/**
+ * Makes an API request for a provider and maps HTTP errors to DocsErrors.
+ *
+ * @param location Repository the request is about (for error messages)
+ * @param url API URL
+ * @param headers Request headers (auth etc.)
+ * @returns The successful response
+ */
+export async function fetchRepoApi(
+  location: RepoLocation,
+  url: string,
+  headers: Record<string, string>
+): Promise<Response> {
+  const repoString = formatRepo(location);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { "User-Agent": "mcp-docs-scraper", ...headers },
+    });
+  } catch (error) {
+    throw new NetworkError(url, error instanceof Error ? error : undefined);
+  }
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new RepoNotFoundError(location.provider, location.host, repoString);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new RepoAccessDeniedError(location.provider, location.host, repoString);
+    }
+    throw new Error(
+      `${location.host} API error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Makes an API request for a ref lookup, reporting a 404 as a missing ref
+ * rather than a missing repository.
+ *
+ * @param location Repository the request is about
+ * @param ref Ref being resolved (for error messages)
+ * @param url API URL
+ * @param headers Request headers (auth etc.)
+ * @returns The parsed JSON body
+ */
+export async function fetchRefApi<T>(
+  location: RepoLocation,
+  ref: string,
+  url: string,
+  headers: Record<string, string>
+): Promise<T> {
+  try {
+    const response = await fetchRepoApi(location, url, headers);
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error instanceof RepoNotFoundError) {
+      throw new RefNotFoundError(formatRepo(location), ref);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches a raw file for a provider.
+ * Returns null if the file does not exist.
+ *
+ * @param url Raw file URL
+ * @param headers Request headers (auth etc.)
+ * @param filePath Path of the file within the repository
+ * @returns File content or null if not found
+ */
+export async function fetchRawFile(
+  url: string,
+  headers: Record<string, string>,
+  filePath: string
+): Promise<FetchContentResult | null> {
+  const response = await fetch(url, {
+    headers: { "User-Agent": "mcp-docs-scraper", ...headers },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      // File not found - return null gracefully
+      return null;
+    }
+    throw new Error(
+      `Failed to fetch file content: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const content = await response.text();
+
+  return {
+    path: filePath,
+    content,
+    size: new TextEncoder().encode(content).length,
+  };
+}
+
+/**
+ * Encodes each segment of a repository file path for use in a URL.
+ */
+export function encodeFilePath(filePath: string): string {
+  return filePath.split("/").map(encodeURIComponent).join("/");
+}
@@ -0,0 +1,60 @@
+/**
+ * Repository provider registry - maps URLs to the provider that can read them.
+ */
+
+import { bitbucketProvider } from "./bitbucket-fetcher.js";
+import { giteaProvider } from "./gitea-fetcher.js";
+import { githubProvider } from "./github-fetcher.js";
+import { gitlabProvider } from "./gitlab-fetcher.js";
+import type {
+  RepoLocation,
+  RepoProvider,
+  RepoProviderId,
+} from "./repo-provider.js";
+
+/**
+ * All supported providers, in matching order.
+ */
+const providers: RepoProvider[] = [
+  githubProvider,
+  gitlabProvider,
+  giteaProvider,
+  bitbucketProvider,
+];
+
+/**
+ * Gets a provider by ID.
+ */
+export function getRepoProvider(id: RepoProviderId): RepoProvider {
+  const provider = providers.find((p) => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown repository provider: ${id}`);
+  }
+  return provider;
+}
+
+/**
+ * Parses a repository URL on any supported host.
+ *
+ * @param url Repository URL
+ * @param providerHint Provider to use regardless of hostname (for self-hosted
+ *   instances on custom domains)
+ * @returns The parsed location, or null if no provider recognizes the URL
+ */
+export function parseRepositoryUrl(
+  url: string,
+  providerHint?: RepoProviderId
+): RepoLocation | null {
+  if (providerHint) {
+    return getRepoProvider(providerHint).parseUrl(url, true);
+  }
+
+  for (const provider of providers) {
+    const location = provider.parseUrl(url);
+    if (location) {
+      return location;
+    }
+  }
+
+  return null;
+}
@@ -2,10 +2,21 @@
  * Search index service - Full-text search using MiniSearch.
  *
  * Indexes documentation content for fast searching.
+ * Each file is split into heading-delimited sections, which are indexed
+ * as separate entries so results point at the matching section. Fenced
+ * code blocks get their own field with an identifier-aware tokenizer.
  * Index is built during docs indexing and stored in cache.
  */
 
-import MiniSearch, { SearchResult as MiniSearchResult } from "minisearch";
+import MiniSearch, { type SearchOptions } from "minisearch";
+import {
+  getPositiveText,
+  parseQuery,
+  type ParsedQuery,
+  type QueryClause,
+  type QueryField,
+} from "./query-parser.js";
+import { compilePathGlob } from "../utils/url.js";
 
 /**
  * Document to be indexed.
@@ -15,12 +26,30 @@ export interface IndexableDocument {
   id: string;
   /** Document title (from first H1 or filename) */
   title: string;
-  /** All headings concatenated */
-  headings: string;
   /** Full text content */
   content: string;
 }
 
+/**
+ * A heading-delimited section of a markdown document.
+ */
+export interface MarkdownSection {
+  /** Heading text (empty for content before the first heading) */
+  heading: string;
+  /** Heading level 1-6 (0 for content before the first heading) */
+  level: number;
+  /** Heading texts from the top level down to this section */
+  breadcrumb: string[];
+  /** GitHub-style anchor slug, unique within the document */
+  anchor: string;
+  /** First line of the section, 1-based (the heading line itself) */
+  startLine: number;
+  /** Last line of the section, 1-based and inclusive */
+  endLine: number;
+  /** Section text including its heading line */
+  content: string;
+}
+
 /**
  * Search result with snippet.
  */
@@ -29,63 +58,267 @@ export interface SearchResult {
   path: string;
   /** Document title */
   title: string;
+  /** Anchor of the matching section (empty for content before the first heading) */
+  anchor: string;
+  /** Headings leading to the matching section */
+  breadcrumb: string[];
+  /** First line of the matching section (1-based) */
+  line_start: number;
+  /** Last line of the matching section (1-based, inclusive) */
+  line_end: number;
   /** Matching excerpt with context */
   snippet: string;
   /** Relevance score (higher = more relevant) */
   score: number;
 }
 
+/**
+ * Code search result - one fenced code block.
+ */
+export interface CodeSearchResult {
+  /** File path */
+  path: string;
+  /** Anchor of the section containing the block */
+  anchor: string;
+  /** Headings leading to the block */
+  breadcrumb: string[];
+  /** Language tag of the fence (empty if none) */
+  language: string;
+  /** Code, without the fences (cut to MAX_CODE_LINES lines) */
+  code: string;
+  /** Whether the code was cut */
+  truncated: boolean;
+  /** Line of the opening fence (1-based) */
+  line_start: number;
+  /** Line of the closing fence (1-based, inclusive) */
+  line_end: number;
+  /** Relevance score of the containing section */
+  score: number;
+}
+
+/**
+ * A fenced code block found in markdown.
+ */
+interface CodeBlock {
+  /** Language tag (first word of the info string) */
+  language: string;
+  code: string;
+  /** Line of the opening fence, 1-based within the scanned text */
+  startLine: number;
+  /** Line of the closing fence (or last line if unclosed) */
+  endLine: number;
+}
+
+/**
+ * Plain text of an indexed section, for building other indexes.
+ */
+export interface SectionText {
+  /** Section ID ("path#anchor") */
+  id: string;
+  /** Document title, heading breadcrumb and section content */
+  text: string;
+}
+
+/**
+ * Filters applied to search results before they are limited.
+ */
+export interface SearchFilters {
+  /** Only files whose path starts with this */
+  pathPrefix?: string;
+  /** Only files matching at least one of these globs */
+  includePaths?: string[];
+  /** Skip files matching any of these globs */
+  excludePaths?: string[];
+  /** Skip results scoring below this */
+  minScore?: number;
+}
+
+/**
+ * Section entry as stored with the index.
+ */
+interface StoredSection {
+  anchor: string;
+  breadcrumb: string[];
+  start_line: number;
+  end_line: number;
+  content: string;
+}
+
+/**
+ * Stored metadata of an indexed document.
+ */
+interface StoredDocument {
+  title: string;
+  sections: StoredSection[];
+}
+
+/**
+ * Entry added to MiniSearch - one per section.
+ */
+interface IndexedSection {
+  /** "{path}#{anchor}" */
+  id: string;
+  path: string;
+  anchor: string;
+  title: string;
+  /** Breadcrumb joined with " > " */
+  headings: string;
+  content: string;
+  /** Fenced code blocks of the section */
+  code: string;
+}
+
+/**
+ * Markdown text split into prose and fenced code blocks.
+ */
+interface SplitCode {
+  /** Text outside code blocks */
+  prose: string;
+  blocks: CodeBlock[];
+}
+
 /**
  * Serialized index format for storage.
  */
 export interface SerializedSearchIndex {
   /** MiniSearch serialized index */
-  index: ReturnType<MiniSearch<IndexableDocument>["toJSON"]>;
+  index: ReturnType<MiniSearch<IndexedSection>["toJSON"]>;
   /** Document metadata for generating snippets */
-  documents: Map<string, { title: string; content: string }>;
+  documents: Map<string, StoredDocument>;
   /** Version for future compatibility */
   version: number;
 }
 
-// Current index version
-const INDEX_VERSION = 1;
+// Current index version (2: section-level entries, 3: path and code fields,
+// 4: code tokenizer and prose-only content field)
+const INDEX_VERSION = 4;
 
 // Snippet configuration
 const SNIPPET_LENGTH = 150;
 const SNIPPET_CONTEXT = 50;
 
+// Longest code block returned by code search, in lines
+const MAX_CODE_LINES = 60;
+
+/**
+ * MiniSearch configuration, shared by new and loaded indexes.
+ */
+const MINISEARCH_OPTIONS = {
+  fields: ["title", "headings", "content", "path", "code"],
+  storeFields: ["path", "anchor"],
+  // Queries are tokenized without a field name, i.e. by the default tokenizer.
+  // That still matches code, as code is indexed with whole identifiers too.
+  tokenize: (text: string, fieldName?: string): string[] =>
+    fieldName === "code" ? tokenizeCode(text) : defaultTokenize(text),
+  searchOptions: {
+    fields: ["title", "headings", "content", "code"],
+    boost: { title: 3, headings: 2, content: 1, code: 1 },
+    fuzzy: 0.2,
+    prefix: true,
+  },
+};
+
+/**
+ * Index field searched for each query field prefix.
+ */
+const QUERY_FIELD_MAP: Record<QueryField, keyof IndexedSection> = {
+  title: "title",
+  heading: "headings",
+  path: "path",
+  code: "code",
+};
+
 /**
  * Creates and manages a full-text search index for documentation.
  */
 export class SearchIndex {
-  private miniSearch: MiniSearch<IndexableDocument>;
-  private documents: Map<string, { title: string; content: string }>;
+  private miniSearch: MiniSearch<IndexedSection>;
+  private documents: Map<string, StoredDocument>;
 
   constructor() {
-    this.miniSearch = new MiniSearch<IndexableDocument>({
-      fields: ["title", "headings", "content"],
-      storeFields: ["title"],
-      searchOptions: {
-        boost: { title: 3, headings: 2, content: 1 },
-        fuzzy: 0.2,
-        prefix: true,
-      },
-    });
+    this.miniSearch = new MiniSearch<IndexedSection>(MINISEARCH_OPTIONS);
     this.documents = new Map();
   }
 
   /**
-   * Adds a document to the index.
+   * Adds a document to the index, one entry per section.
    */
   addDocument(doc: IndexableDocument): void {
+    const sections: StoredSection[] = splitSections(doc.content).map(
+      (section) => ({
+        anchor: section.anchor,
+        breadcrumb: section.breadcrumb,
+        start_line: section.startLine,
+        end_line: section.endLine,
+        content: section.content,
+      })
+    );
+
     // Store document for snippet generation
-    this.documents.set(doc.id, {
-      title: doc.title,
-      content: doc.content,
-    });
+    this.documents.set(doc.id, { title: doc.title, sections });
 
     // Add to search index
-    this.miniSearch.add(doc);
+    this.miniSearch.addAll(
+      sections.map((section) => {
+        const { prose, blocks } = splitCode(section.content);
+        return {
+          id: sectionId(doc.id, section.anchor),
+          path: doc.id,
+          anchor: section.anchor,
+          title: doc.title,
+          headings: section.breadcrumb.join(" > "),
+          content: prose,
+          code: blocks.map((block) => block.code).join("\n"),
+        };
+      })
+    );
+  }
+
+  /**
+   * Removes a document and all its sections from the index.
+   * Returns false if the document was not indexed.
+   */
+  removeDocument(id: string): boolean {
+    const doc = this.documents.get(id);
+    if (!doc) {
+      return false;
+    }
+
+    for (const section of doc.sections) {
+      this.miniSearch.discard(sectionId(id, section.anchor));
+    }
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   * Checks if a document is in the index.
+   */
+  hasDocument(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Gets the IDs (file paths) of all indexed documents.
+   */
+  getDocumentIds(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * Gets the text of every indexed section.
+   */
+  getSectionTexts(): SectionText[] {
+    const texts: SectionText[] = [];
+    for (const [path, doc] of this.documents) {
+      for (const section of doc.sections) {
+        texts.push({
+          id: sectionId(path, section.anchor),
+          text: [doc.title, ...section.breadcrumb, section.content].join("\n"),
+        });
+      }
+    }
+    return texts;
   }
 
   /**
@@ -98,37 +331,277 @@ export class SearchIndex {
   }
 
   /**
-   * Searches the index and returns results with snippets.
+   * Searches the index and returns matching sections with snippets.
+   * Accepts a query string (see query-parser for the syntax) or a parsed query.
+   *
+   * Each clause is searched separately and the results are combined:
+   * groups are intersected (AND) and merged (OR), required clauses filter
+   * the results (and other clauses then only add to the score), and
+   * excluded clauses remove results. Scores of matching clauses are summed.
    */
-  search(query: string, limit: number = 10): SearchResult[] {
-    if (!query.trim()) {
-      return [];
+  search(
+    query: string | ParsedQuery,
+    limit: number = 10,
+    filters: SearchFilters = {}
+  ): SearchResult[] {
+    const parsed = typeof query === "string" ? parseQuery(query) : query;
+    const scores = this.scoreSections(parsed);
+    return scores.size === 0 ? [] : this.rankSections(scores, parsed, limit, filters);
+  }
+
+  /**
+   * Scores the sections matching a query (see search). Excluded clauses
+   * and filters are applied when ranking.
+   */
+  private scoreSections(parsed: ParsedQuery): Map<string, number> {
+    let scores: Map<string, number> | null = null;
+
+    // Required clauses: every result must match all of them
+    for (const clause of parsed.required) {
+      const clauseScores = this.searchClause(clause, parsed);
+      scores = scores ? intersectScores(scores, clauseScores) : clauseScores;
     }
 
-    // MiniSearch returns all results, we slice them to the limit
-    const results = this.miniSearch.search(query);
+    // Groups: OR of ANDs. They select results only without required clauses
+    let groupScores: Map<string, number> | null = null;
+    for (const group of parsed.groups) {
+      let andScores: Map<string, number> | null = null;
+      for (const clause of group) {
+        const clauseScores = this.searchClause(clause, parsed);
+        andScores = andScores ? intersectScores(andScores, clauseScores) : clauseScores;
+      }
+      groupScores = groupScores ? mergeScores(groupScores, andScores!) : andScores;
+    }
 
-    return results
+    if (scores && groupScores) {
+      for (const [id, score] of groupScores) {
+        if (scores.has(id)) scores.set(id, scores.get(id)! + score);
+      }
+    } else {
+      scores = scores ?? groupScores;
+    }
+
+    return scores ?? new Map();
+  }
+
+  /**
+   * Turns section scores (from this index or another, e.g. semantic
+   * similarity) into results: drops sections matching the query's excluded
+   * clauses, applies the filters, and returns the best sections.
+   */
+  rankSections(
+    scores: Map<string, number>,
+    query: ParsedQuery,
+    limit: number,
+    filters: SearchFilters = {}
+  ): SearchResult[] {
+    const snippetQuery = getPositiveText(query);
+    return this.filterSections(scores, query, filters)
       .slice(0, limit)
-      .map((result) => this.toSearchResult(result, query));
+      .map(([id, score]) => this.toSearchResult(id, score, snippetQuery));
   }
 
   /**
-   * Converts a MiniSearch result to our SearchResult format.
+   * Drops sections matching the query's excluded clauses or rejected by
+   * the filters. Returns the remaining section IDs and scores, best first.
+   */
+  private filterSections(
+    scores: Map<string, number>,
+    query: ParsedQuery,
+    filters: SearchFilters
+  ): Array<[string, number]> {
+    const remaining = new Map(scores);
+
+    // Excluded clauses, matched exactly
+    for (const clause of query.excluded) {
+      const excludeOptions: ParsedQuery = { ...query, fuzzy: false, prefix: false };
+      for (const id of this.searchClause(clause, excludeOptions).keys()) {
+        remaining.delete(id);
+      }
+    }
+
+    // Filter before limiting, so filtered results don't take up slots
+    const acceptPath = compilePathFilter(filters);
+    const minScore = filters.minScore ?? -Infinity;
+
+    return Array.from(remaining.entries())
+      .filter(([id, score]) => {
+        if (score < minScore) return false;
+        const path = this.miniSearch.getStoredFields(id)?.path as string | undefined;
+        return path !== undefined && acceptPath(path);
+      })
+      .sort((a, b) => b[1] - a[1]);
+  }
+
+  /**
+   * Searches code blocks. Unscoped query clauses only match code; the
+   * matching blocks of each section are returned, best section first.
+   *
+   * @param query Query string or parsed query
+   * @param limit Maximum number of code blocks
+   * @param filters Path and score filters
+   * @param language Only blocks with this language tag (case-insensitive)
+   */
+  searchCode(
+    query: string | ParsedQuery,
+    limit: number = 10,
+    filters: SearchFilters = {},
+    language?: string
+  ): CodeSearchResult[] {
+    const parsed = typeof query === "string" ? parseQuery(query) : query;
+    const toCode = (clause: QueryClause): QueryClause =>
+      clause.field ? clause : { ...clause, field: "code" };
+    const codeQuery: ParsedQuery = {
+      ...parsed,
+      groups: parsed.groups.map((group) => group.map(toCode)),
+      required: parsed.required.map(toCode),
+    };
+
+    // Terms used to pick the matching blocks within a section
+    const queryTerms = defaultTokenize(getPositiveText(codeQuery))
+      .map((term) => term.toLowerCase())
+      .filter((term) => term.length > 0);
+    const wantedLanguage = language?.toLowerCase();
+
+    const results: CodeSearchResult[] = [];
+    // Walk the ranked sections (without building snippets) until the limit
+    // is filled with blocks
+    const sections = this.filterSections(this.scoreSections(codeQuery), codeQuery, filters);
+
+    for (const [id, score] of sections) {
+      const found = this.findSection(id);
+      if (!found) continue;
+      const { path, section } = found;
+
+      const blocks = splitCode(section.content).blocks.filter(
+        (block) => !wantedLanguage || block.language.toLowerCase() === wantedLanguage
+      );
+
+      // Blocks containing the most query terms first; keep all if none do
+      const ranked = blocks
+        .map((block) => {
+          const tokens = tokenizeCode(block.code).map((t) => t.toLowerCase());
+          const matched = queryTerms.filter((term) =>
+            tokens.some((token) => (codeQuery.prefix ? token.startsWith(term) : token === term))
+          ).length;
+          return { block, matched };
+        })
+        .sort((a, b) => b.matched - a.matched);
+      const best = ranked.some((r) => r.matched > 0)
+        ? ranked.filter((r) => r.matched > 0)
+        : ranked;
+
+      for (const { block } of best) {
+        const lines = block.code.split("\n");
+        results.push({
+          path,
+          anchor: section.anchor,
+          breadcrumb: section.breadcrumb,
+          language: block.language,
+          code: lines.slice(0, MAX_CODE_LINES).join("\n"),
+          truncated: lines.length > MAX_CODE_LINES,
+          line_start: section.start_line + block.startLine - 1,
+          line_end: section.start_line + block.endLine - 1,
+          score,
+        });
+        if (results.length >= limit) return results;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Searches one query clause. Returns the score per matching section ID.
+   * Phrases match their words exactly and are then checked for adjacency.
+   */
+  private searchClause(
+    clause: QueryClause,
+    parsed: ParsedQuery
+  ): Map<string, number> {
+    const options: SearchOptions = {
+      combineWith: "AND",
+      fuzzy: clause.phrase ? false : parsed.fuzzy,
+      prefix: clause.phrase ? false : parsed.prefix,
+    };
+    if (clause.field) {
+      options.fields = [QUERY_FIELD_MAP[clause.field]];
+    }
+
+    const scores = new Map<string, number>();
+    for (const result of this.miniSearch.search(clause.text, options)) {
+      if (clause.phrase && !this.containsPhrase(result.id, clause)) {
+        continue;
+      }
+      scores.set(result.id, result.score);
+    }
+    return scores;
+  }
+
+  /**
+   * Checks whether a section contains a phrase in the clause's field.
+   */
+  private containsPhrase(id: string, clause: QueryClause): boolean {
+    const found = this.findSection(id);
+    if (!found) return false;
+
+    const { path, doc, section } = found;
+    let text: string;
+    switch (clause.field) {
+      case "title":
+        text = doc.title;
+        break;
+      case "heading":
+        text = section.breadcrumb.join(" > ");
+        break;
+      case "path":
+        text = path;
+        break;
+      case "code":
+        text = splitCode(section.content).blocks.map((b) => b.code).join("\n");
+        break;
+      default:
+        text = `${doc.title}\n${section.breadcrumb.join(" > ")}\n${section.content}`;
+    }
+
+    return normalizePhraseText(text).includes(normalizePhraseText(clause.text));
+  }
+
+  /**
+   * Looks up the stored document and section of a section ID.
+   */
+  private findSection(
+    id: string
+  ): { path: string; doc: StoredDocument; section: StoredSection } | null {
+    const stored = this.miniSearch.getStoredFields(id);
+    if (!stored) return null;
+
+    const path = stored.path as string;
+    const doc = this.documents.get(path);
+    const section = doc?.sections.find((s) => s.anchor === stored.anchor);
+    return doc && section ? { path, doc, section } : null;
+  }
+
+  /**
+   * Converts a matching section to our SearchResult format.
    */
   private toSearchResult(
-    result: MiniSearchResult,
+    id: string,
+    score: number,
     query: string
   ): SearchResult {
-    const doc = this.documents.get(result.id);
-    const title = doc?.title || result.id;
-    const content = doc?.content || "";
+    const found = this.findSection(id);
+    const path = found?.path ?? id;
 
     return {
-      path: result.id,
-      title,
-      snippet: this.generateSnippet(content, query),
-      score: result.score,
+      path,
+      title: found?.doc.title || path,
+      anchor: found?.section.anchor ?? "",
+      breadcrumb: found?.section.breadcrumb ?? [],
+      line_start: found?.section.start_line ?? 1,
+      line_end: found?.section.end_line ?? 1,
+      snippet: this.generateSnippet(found?.section.content || "", query),
+      score,
     };
   }
 
@@ -226,15 +699,10 @@ export class SearchIndex {
     const searchIndex = new SearchIndex();
 
     // Restore MiniSearch index
-    searchIndex.miniSearch = MiniSearch.loadJSON(JSON.stringify(parsed.index), {
-      fields: ["title", "headings", "content"],
-      storeFields: ["title"],
-      searchOptions: {
-        boost: { title: 3, headings: 2, content: 1 },
-        fuzzy: 0.2,
-        prefix: true,
-      },
-    });
+    searchIndex.miniSearch = MiniSearch.loadJSON<IndexedSection>(
+      JSON.stringify(parsed.index),
+      MINISEARCH_OPTIONS
+    );
 
     // Restore documents map
     searchIndex.documents = new Map(parsed.documents);
@@ -261,19 +729,236 @@ export function extractTitle(content: string): string | undefined {
 }
 
 /**
- * Extracts all headings from markdown content.
- * Returns a concatenated string of all headings.
+ * Builds a predicate for the path filters of a search.
  */
-export function extractHeadings(content: string): string {
-  const headings: string[] = [];
-  const regex = /^#{1,6}\s+(.+)$/gm;
-  let match;
+function compilePathFilter(filters: SearchFilters): (path: string) => boolean {
+  const prefix = filters.pathPrefix?.replace(/^\.?\/+/, "") ?? "";
+  const include = (filters.includePaths ?? []).map(compilePathGlob);
+  const exclude = (filters.excludePaths ?? []).map(compilePathGlob);
+
+  return (path) =>
+    path.startsWith(prefix) &&
+    (include.length === 0 || include.some((glob) => glob.test(path))) &&
+    !exclude.some((glob) => glob.test(path));
+}
+
+/**
+ * Keeps the scores of IDs present in both maps, summed.
+ */
+function intersectScores(
+  a: Map<string, number>,
+  b: Map<string, number>
+): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const [id, score] of a) {
+    const other = b.get(id);
+    if (other !== undefined) result.set(id, score + other);
+  }
+  return result;
+}
+
+/**
+ * Combines the scores of IDs present in either map, summed.
+ */
+function mergeScores(
+  a: Map<string, number>,
+  b: Map<string, number>
+): Map<string, number> {
+  const result = new Map(a);
+  for (const [id, score] of b) {
+    result.set(id, (result.get(id) ?? 0) + score);
+  }
+  return result;
+}
+
+/**
+ * Lowercases text and collapses whitespace, for phrase matching.
+ */
+function normalizePhraseText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
 
-  while ((match = regex.exec(content)) !== null) {
-    headings.push(match[1].trim());
+/**
+ * MiniSearch's default tokenizer: splits on whitespace and punctuation.
+ */
+const defaultTokenize = MiniSearch.getDefault("tokenize") as (
+  text: string
+) => string[];
+
+/**
+ * Tokenizes code so API identifiers can be found whole or by their parts.
+ * `z.object()` yields "z.object", "z" and "object"; `useEffect` yields
+ * "useEffect", "use" and "Effect"; `snake_case` yields "snake_case", "snake"
+ * and "case".
+ */
+export function tokenizeCode(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}_$]+(?:\.[\p{L}\p{N}_$]+)*/gu)) {
+    const identifier = match[0];
+    tokens.push(identifier);
+
+    const parts = identifier.split(".");
+    for (const part of parts.length > 1 ? parts : [identifier]) {
+      if (part !== identifier) tokens.push(part);
+
+      // Split snake_case, then camelCase / PascalCase (keeping acronyms together)
+      const words = part
+        .split(/_+/)
+        .flatMap((word) => word.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+|\$/gu) ?? []);
+      if (words.length > 1) tokens.push(...words);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits markdown into prose and fenced code blocks.
+ */
+function splitCode(content: string): SplitCode {
+  const prose: string[] = [];
+  const blocks: CodeBlock[] = [];
+  const lines = content.split("\n");
+  let fence: string | null = null;
+  let current: { language: string; lines: string[]; startLine: number } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/);
+
+    if (fence === null) {
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        current = { language: fenceMatch[2] ?? "", lines: [], startLine: i + 1 };
+      } else {
+        prose.push(line);
+      }
+      continue;
+    }
+
+    if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+      blocks.push({
+        language: current!.language,
+        code: current!.lines.join("\n"),
+        startLine: current!.startLine,
+        endLine: i + 1,
+      });
+      fence = null;
+      current = null;
+      continue;
+    }
+
+    current!.lines.push(line);
+  }
+
+  // Unclosed fence runs to the end
+  if (current) {
+    blocks.push({
+      language: current.language,
+      code: current.lines.join("\n"),
+      startLine: current.startLine,
+      endLine: lines.length,
+    });
+  }
+
+  return { prose: prose.join("\n"), blocks };
+}
+
+/**
+ * Builds the MiniSearch ID of a section.
+ */
+function sectionId(path: string, anchor: string): string {
+  return `${path}#${anchor}`;
+}
+
+/**
+ * Converts heading text to a GitHub-style anchor slug.
+ */
+export function slugifyHeading(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1") // Links and images -> text
+    .replace(/<[^>]+>/g, "") // Inline HTML
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Splits markdown content into heading-delimited sections.
+ * Headings inside fenced code blocks are ignored. Content before the first
+ * heading becomes a section with an empty heading, if it has any text.
+ */
+export function splitSections(content: string): MarkdownSection[] {
+  const lines = content.split("\n");
+  const sections: MarkdownSection[] = [];
+  // "" is reserved for content before the first heading
+  const usedAnchors = new Set<string>([""]);
+  const stack: Array<{ level: number; text: string }> = [];
+
+  let current: Omit<MarkdownSection, "endLine" | "content"> = {
+    heading: "",
+    level: 0,
+    breadcrumb: [],
+    anchor: "",
+    startLine: 1,
+  };
+  let fence: string | null = null;
+
+  const closeSection = (endLine: number): void => {
+    const text = lines.slice(current.startLine - 1, endLine).join("\n");
+    if (current.level > 0 || text.trim()) {
+      sections.push({ ...current, endLine, content: text });
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Track fenced code blocks so "# comments" in code aren't headings
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (!match) continue;
+
+    closeSection(i);
+
+    const level = match[1].length;
+    const text = match[2].trim();
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, text });
+
+    // Duplicate headings get -1, -2, ... suffixes like on GitHub
+    const slug = slugifyHeading(text);
+    let anchor = slug;
+    for (let n = 1; usedAnchors.has(anchor); n++) {
+      anchor = `${slug}-${n}`;
+    }
+    usedAnchors.add(anchor);
+
+    current = {
+      heading: text,
+      level,
+      breadcrumb: stack.map((h) => h.text),
+      anchor,
+      startLine: i + 1,
+    };
   }
 
-  return headings.join(" ");
+  closeSection(lines.length);
+  return sections;
 }
 
 /**
@@ -284,12 +969,10 @@ export function createIndexableDocument(
   content: string
 ): IndexableDocument {
   const title = extractTitle(content) || path.split("/").pop() || path;
-  const headings = extractHeadings(content);
 
   return {
     id: path,
     title,
-    headings,
     content,
   };
 }
@@ -0,0 +1,201 @@
+/**
+ * Sitemap Parser Service - Discovers page URLs from sitemap.xml files.
+ *
+ * Responsibilities:
+ * - Locate sitemaps via robots.txt `Sitemap:` lines or /sitemap.xml
+ * - Follow nested sitemap indexes
+ * - Decompress gzip sitemaps
+ * - Filter entries by `lastmod`
+ */
+
+import { gunzipSync } from "node:zlib";
+import * as cheerio from "cheerio";
+import { normalizeUrl } from "../utils/url.js";
+
+/**
+ * A page URL listed in a sitemap.
+ */
+export interface SitemapEntry {
+  /** Normalized page URL */
+  url: string;
+  /** Last modification time as given by the sitemap (ISO 8601) */
+  lastmod?: string;
+}
+
+/**
+ * Options for sitemap discovery.
+ */
+export interface SitemapOptions {
+  /** Sitemap URLs announced in robots.txt */
+  robotsSitemaps?: string[];
+  /** Only keep entries modified at or after this time */
+  modifiedSince?: Date;
+  /** User agent for requests */
+  userAgent?: string;
+  /** Maximum number of sitemap files to fetch (default: 50) */
+  maxSitemaps?: number;
+  /** Maximum number of page URLs to collect (default: 50000) */
+  maxUrls?: number;
+}
+
+/**
+ * Result of sitemap discovery.
+ */
+export interface SitemapResult {
+  /** Page URLs found, in sitemap order */
+  entries: SitemapEntry[];
+  /** Sitemap files that were read successfully */
+  sitemaps: string[];
+}
+
+/**
+ * Maximum nesting of sitemap indexes to follow.
+ */
+const MAX_SITEMAP_NESTING = 3;
+
+/**
+ * Fetches a sitemap and returns its XML text, decompressing gzip if needed.
+ */
+async function fetchSitemap(url: string, userAgent: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": userAgent,
+        Accept: "application/xml,text/xml,application/gzip,*/*",
+      },
+      redirect: "follow",
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const bytes = Buffer.from(await response.arrayBuffer());
+
+    // Gzip magic bytes - .xml.gz files are served as-is, not content-encoded
+    if (bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      return gunzipSync(bytes).toString("utf-8");
+    }
+
+    return bytes.toString("utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a lastmod value passes the modifiedSince filter.
+ * Entries without a (parseable) lastmod are always kept.
+ */
+function isModifiedSince(lastmod: string | undefined, since?: Date): boolean {
+  if (!since || !lastmod) return true;
+  const time = Date.parse(lastmod);
+  return isNaN(time) || time >= since.getTime();
+}
+
+/**
+ * Parses sitemap XML into child sitemaps (for sitemap indexes) and page entries.
+ */
+export function parseSitemapXml(xml: string): {
+  sitemaps: SitemapEntry[];
+  urls: SitemapEntry[];
+} {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const readEntries = (selector: string): SitemapEntry[] => {
+    const entries: SitemapEntry[] = [];
+    $(selector).each((_, element) => {
+      const loc = $(element).children("loc").first().text().trim();
+      if (!loc) return;
+      const lastmod = $(element).children("lastmod").first().text().trim();
+      entries.push({ url: loc, lastmod: lastmod || undefined });
+    });
+    return entries;
+  };
+
+  return {
+    sitemaps: readEntries("sitemapindex > sitemap"),
+    urls: readEntries("urlset > url"),
+  };
+}
+
+/**
+ * Discovers page URLs for a site from its sitemaps.
+ *
+ * Uses the sitemaps announced in robots.txt, falling back to /sitemap.xml.
+ * Sitemap indexes are followed up to a fixed nesting depth; child sitemaps
+ * whose lastmod predates `modifiedSince` are not fetched.
+ *
+ * @param baseUrl Any URL on the site
+ * @param options Discovery options
+ * @returns Page entries and the sitemap files that were read
+ */
+export async function discoverSitemapUrls(
+  baseUrl: string,
+  options: SitemapOptions = {}
+): Promise<SitemapResult> {
+  const {
+    robotsSitemaps = [],
+    modifiedSince,
+    userAgent = "mcp-docs-scraper/1.0 (documentation indexer)",
+    maxSitemaps = 50,
+    maxUrls = 50000,
+  } = options;
+
+  const result: SitemapResult = { entries: [], sitemaps: [] };
+
+  const initial =
+    robotsSitemaps.length > 0
+      ? robotsSitemaps
+      : [new URL("/sitemap.xml", baseUrl).href];
+
+  const queue: Array<{ url: string; nesting: number }> = initial.map((url) => ({
+    url,
+    nesting: 0,
+  }));
+  const fetched = new Set<string>();
+  const seenUrls = new Set<string>();
+
+  while (
+    queue.length > 0 &&
+    fetched.size < maxSitemaps &&
+    result.entries.length < maxUrls
+  ) {
+    const { url, nesting } = queue.shift()!;
+    if (fetched.has(url)) {
+      continue;
+    }
+    fetched.add(url);
+
+    const xml = await fetchSitemap(url, userAgent);
+    if (!xml) {
+      continue;
+    }
+
+    const parsed = parseSitemapXml(xml);
+    result.sitemaps.push(url);
+
+    // Queue nested sitemaps from a sitemap index
+    if (nesting < MAX_SITEMAP_NESTING) {
+      for (const child of parsed.sitemaps) {
+        if (isModifiedSince(child.lastmod, modifiedSince)) {
+          queue.push({ url: child.url, nesting: nesting + 1 });
+        }
+      }
+    }
+
+    for (const entry of parsed.urls) {
+      if (result.entries.length >= maxUrls) break;
+      if (!isModifiedSince(entry.lastmod, modifiedSince)) continue;
+
+      const normalized = normalizeUrl(entry.url);
+      if (seenUrls.has(normalized)) continue;
+      seenUrls.add(normalized);
+
+      result.entries.push({ url: normalized, lastmod: entry.lastmod });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,565 @@
+/**
+ * Vector index service - Offline semantic search over indexed sections.
+ *
+ * Sections are embedded with latent semantic analysis: a TF-IDF matrix of
+ * word stems is reduced with a randomized truncated SVD, so words used in
+ * similar sections (e.g. "cancel" and "abort") end up close together and a
+ * query can match a section that shares none of its words. The model is
+ * computed from the docs set itself; no download or network access needed.
+ * Index is built during docs indexing and stored in cache next to the
+ * search index.
+ */
+
+import type { SectionText } from "./search-index.js";
+
+/**
+ * Serialized vector index format.
+ */
+interface SerializedVectorIndex {
+  version: number;
+  /** Embedding dimensions */
+  dimensions: number;
+  /** Stems, in matrix column order */
+  vocabulary: string[];
+  /** Inverse document frequency per stem (base64 Float32Array) */
+  idf: string;
+  /** Stem-to-embedding projection, vocabulary x dimensions (base64 Float32Array) */
+  projection: string;
+  /** Section IDs, in vector order */
+  ids: string[];
+  /** Normalized section embeddings, ids x dimensions (base64 Float32Array) */
+  vectors: string;
+}
+
+/**
+ * A row of the term matrix: stem indices and weights.
+ */
+interface SparseRow {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Ranked item that can be fused with reciprocal-rank fusion.
+ */
+interface RankedSection {
+  path: string;
+  anchor: string;
+  score: number;
+}
+
+// Current vector index version
+const VECTOR_INDEX_VERSION = 1;
+
+// Embedding size, and extra dimensions sampled by the randomized SVD
+const EMBEDDING_DIMENSIONS = 64;
+const OVERSAMPLING = 10;
+
+// Power iterations of the randomized SVD (more = more accurate, slower)
+const POWER_ITERATIONS = 2;
+
+// Most frequent stems kept in the vocabulary
+const MAX_VOCABULARY = 20000;
+
+// Lowest cosine similarity counted as a match (below it is mostly noise)
+const MIN_SIMILARITY = 0.05;
+
+// Rank offset of reciprocal-rank fusion (the usual value from the literature)
+const RRF_K = 60;
+
+/**
+ * Words too common to carry meaning.
+ */
+const STOP_WORDS = new Set([
+  "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at",
+  "be", "been", "but", "by", "can", "could", "do", "does", "each", "for",
+  "from", "get", "has", "have", "how", "i", "if", "in", "into", "is", "it",
+  "its", "just", "may", "more", "most", "my", "no", "not", "of", "on", "one",
+  "or", "other", "our", "should", "so", "some", "such", "than", "that", "the",
+  "their", "them", "then", "there", "these", "they", "this", "those", "to",
+  "up", "use", "used", "using", "was", "we", "what", "when", "where", "which",
+  "while", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+/**
+ * Suffixes stripped by the stemmer, with their replacements (first match wins).
+ */
+const SUFFIX_RULES: ReadonlyArray<[string, string]> = [
+  ["ations", "at"],
+  ["ation", "at"],
+  ["ings", ""],
+  ["ing", ""],
+  ["sses", "ss"],
+  ["ies", "y"],
+  ["ied", "y"],
+  ["ed", ""],
+  ["ly", ""],
+  ["ss", "ss"],
+  ["s", ""],
+];
+
+/**
+ * Semantic index of section embeddings.
+ */
+export class VectorIndex {
+  private constructor(
+    private dimensions: number,
+    private vocabulary: Map<string, number>,
+    private idf: Float32Array,
+    private projection: Float32Array,
+    private ids: string[],
+    private vectors: Float32Array
+  ) {}
+
+  /**
+   * Builds the index from section texts.
+   */
+  static build(sections: SectionText[]): VectorIndex {
+    const termCounts = sections.map((section) => countStems(section.text));
+
+    // Vocabulary: the stems found in the most sections
+    const documentFrequency = new Map<string, number>();
+    for (const counts of termCounts) {
+      for (const stem of counts.keys()) {
+        documentFrequency.set(stem, (documentFrequency.get(stem) ?? 0) + 1);
+      }
+    }
+    const vocabularyList = Array.from(documentFrequency.entries())
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, MAX_VOCABULARY)
+      .map(([stem]) => stem);
+    const vocabulary = new Map(vocabularyList.map((stem, i) => [stem, i]));
+
+    const idf = new Float32Array(vocabularyList.length);
+    vocabularyList.forEach((stem, i) => {
+      idf[i] = Math.log((sections.length + 1) / (documentFrequency.get(stem)! + 1)) + 1;
+    });
+
+    const rows = termCounts.map((counts) => weighRow(counts, vocabulary, idf));
+    const columns = truncatedSvd(rows, vocabularyList.length, EMBEDDING_DIMENSIONS);
+    const dimensions = columns.length;
+
+    // Row-major stem x dimension projection
+    const projection = new Float32Array(vocabularyList.length * dimensions);
+    columns.forEach((column, d) => {
+      for (let t = 0; t < column.length; t++) {
+        projection[t * dimensions + d] = column[t];
+      }
+    });
+
+    const index = new VectorIndex(
+      dimensions,
+      vocabulary,
+      idf,
+      projection,
+      sections.map((section) => section.id),
+      new Float32Array(sections.length * dimensions)
+    );
+    rows.forEach((row, i) => {
+      index.vectors.set(index.embedRow(row), i * dimensions);
+    });
+
+    return index;
+  }
+
+  /**
+   * Returns the cosine similarity of every section to the query text,
+   * keeping sections above MIN_SIMILARITY.
+   */
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (this.dimensions === 0) return scores;
+
+    const queryVector = this.embedRow(weighRow(countStems(query), this.vocabulary, this.idf));
+    if (queryVector.every((value) => value === 0)) return scores;
+
+    for (let i = 0; i < this.ids.length; i++) {
+      let similarity = 0;
+      for (let d = 0; d < this.dimensions; d++) {
+        similarity += queryVector[d] * this.vectors[i * this.dimensions + d];
+      }
+      if (similarity >= MIN_SIMILARITY) scores.set(this.ids[i], similarity);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Projects a weighted term row into the embedding space (L2-normalized).
+   */
+  private embedRow(row: SparseRow): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    for (let k = 0; k < row.indices.length; k++) {
+      const offset = row.indices[k] * this.dimensions;
+      for (let d = 0; d < this.dimensions; d++) {
+        vector[d] += row.values[k] * this.projection[offset + d];
+      }
+    }
+    return normalize(vector);
+  }
+
+  /**
+   * Returns the number of indexed sections.
+   */
+  get sectionCount(): number {
+    return this.ids.length;
+  }
+
+  /**
+   * Serializes the index for storage.
+   */
+  toJSON(): string {
+    const serialized: SerializedVectorIndex = {
+      version: VECTOR_INDEX_VERSION,
+      dimensions: this.dimensions,
+      vocabulary: Array.from(this.vocabulary.keys()),
+      idf: encodeFloats(this.idf),
+      projection: encodeFloats(this.projection),
+      ids: this.ids,
+      vectors: encodeFloats(this.vectors),
+    };
+    return JSON.stringify(serialized);
+  }
+
+  /**
+   * Creates a VectorIndex from serialized JSON.
+   */
+  static fromJSON(json: string): VectorIndex {
+    const parsed = JSON.parse(json) as SerializedVectorIndex;
+
+    // Check version
+    if (parsed.version !== VECTOR_INDEX_VERSION) {
+      throw new Error(
+        `Vector index version mismatch: expected ${VECTOR_INDEX_VERSION}, got ${parsed.version}`
+      );
+    }
+
+    return new VectorIndex(
+      parsed.dimensions,
+      new Map(parsed.vocabulary.map((stem, i) => [stem, i])),
+      decodeFloats(parsed.idf),
+      decodeFloats(parsed.projection),
+      parsed.ids,
+      decodeFloats(parsed.vectors)
+    );
+  }
+}
+
+/**
+ * Merges rankings with reciprocal-rank fusion: each item scores the sum of
+ * 1 / (RRF_K + rank) over the rankings it appears in. Scores of the input
+ * rankings are not comparable, so only the ranks are used.
+ *
+ * @param rankings Rankings to merge, best first
+ * @param limit Maximum number of results
+ * @param minScore Skip results with a fused score below this
+ */
+export function fuseRankings<T extends RankedSection>(
+  rankings: T[][],
+  limit: number,
+  minScore: number = -Infinity
+): T[] {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const key = `${item.path}#${item.anchor}`;
+      const entry = fused.get(key) ?? { item, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .filter((entry) => entry.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => ({ ...entry.item, score: entry.score }));
+}
+
+/**
+ * Counts the stems of a text.
+ */
+function countStems(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  // Split camelCase identifiers, so "AbortController" also counts as "abort"
+  const words = text
+    .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+    .toLowerCase()
+    .match(/\p{L}[\p{L}\p{N}]*/gu) ?? [];
+
+  for (const word of words) {
+    if (word.length < 2 || STOP_WORDS.has(word)) continue;
+    const stem = stemWord(word);
+    counts.set(stem, (counts.get(stem) ?? 0) + 1);
+  }
+
+  return counts;
+}
+
+/**
+ * Reduces a word to a stem with a few suffix rules, so "cancels",
+ * "cancelled" and "canceling" all become "cancel".
+ */
+function stemWord(word: string): string {
+  if (word.length <= 4) return word;
+
+  let stem = word;
+  for (const [suffix, replacement] of SUFFIX_RULES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  if (stem.length > 4 && stem.endsWith("e")) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "cancell" -> "cancel", "runn" -> "run"
+  return stem.replace(/([b-df-hj-np-rt-z])\1$/, "$1");
+}
+
+/**
+ * Weighs stem counts with sublinear TF-IDF and L2-normalizes the row.
+ * Stems outside the vocabulary are ignored.
+ */
+function weighRow(
+  counts: Map<string, number>,
+  vocabulary: Map<string, number>,
+  idf: Float32Array
+): SparseRow {
+  const row: SparseRow = { indices: [], values: [] };
+  let norm = 0;
+
+  for (const [stem, count] of counts) {
+    const index = vocabulary.get(stem);
+    if (index === undefined) continue;
+    const weight = (1 + Math.log(count)) * idf[index];
+    row.indices.push(index);
+    row.values.push(weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    row.values = row.values.map((value) => value / norm);
+  }
+  return row;
+}
+
+/**
+ * Computes the top right singular vectors of a sparse matrix with a
+ * randomized SVD (Halko, Martinsson & Tropp), which only needs a few passes
+ * over the matrix.
+ *
+ * @param rows Matrix rows
+ * @param columns Number of columns
+ * @param rank Number of singular vectors wanted
+ * @returns Up to `rank` singular vectors (each of length `columns`)
+ */
+function truncatedSvd(rows: SparseRow[], columns: number, rank: number): Float64Array[] {
+  const sampleSize = Math.min(rank + OVERSAMPLING, rows.length, columns);
+  if (sampleSize === 0) return [];
+
+  // Random starting subspace (seeded, so rebuilding gives the same index)
+  const random = seededRandom(0x5eed);
+  let basis: Float64Array[] = [];
+  for (let j = 0; j < sampleSize; j++) {
+    const vector = new Float64Array(columns);
+    for (let t = 0; t < columns; t++) vector[t] = random() * 2 - 1;
+    basis.push(vector);
+  }
+
+  // Range of the matrix, refined with power iterations
+  let range = orthonormalize(basis.map((vector) => multiply(rows, vector)));
+  for (let i = 0; i < POWER_ITERATIONS; i++) {
+    basis = orthonormalize(range.map((vector) => multiplyTransposed(rows, vector, columns)));
+    range = orthonormalize(basis.map((vector) => multiply(rows, vector)));
+  }
+
+  // Small matrix B = Q^T A (stored as rows of B), and the eigenvectors of B B^T
+  const projected = range.map((vector) => multiplyTransposed(rows, vector, columns));
+  const gram = projected.map((a) => projected.map((b) => dot(a, b)));
+  const { values, vectors } = symmetricEigen(gram);
+
+  const order = values
+    .map((value, i) => ({ value, i }))
+    .filter((entry) => entry.value > 1e-10)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, rank);
+
+  // Right singular vectors: v = B^T u / sigma
+  return order.map(({ value, i }) => {
+    const sigma = Math.sqrt(value);
+    const singular = new Float64Array(columns);
+    projected.forEach((row, a) => {
+      const weight = vectors[a][i] / sigma;
+      for (let t = 0; t < columns; t++) singular[t] += weight * row[t];
+    });
+    return singular;
+  });
+}
+
+/**
+ * Multiplies a sparse matrix by a dense vector.
+ */
+function multiply(rows: SparseRow[], vector: Float64Array): Float64Array {
+  const result = new Float64Array(rows.length);
+  rows.forEach((row, i) => {
+    let sum = 0;
+    for (let k = 0; k < row.indices.length; k++) {
+      sum += row.values[k] * vector[row.indices[k]];
+    }
+    result[i] = sum;
+  });
+  return result;
+}
+
+/**
+ * Multiplies the transpose of a sparse matrix by a dense vector.
+ */
+function multiplyTransposed(
+  rows: SparseRow[],
+  vector: Float64Array,
+  columns: number
+): Float64Array {
+  const result = new Float64Array(columns);
+  rows.forEach((row, i) => {
+    const weight = vector[i];
+    if (weight === 0) return;
+    for (let k = 0; k < row.indices.length; k++) {
+      result[row.indices[k]] += row.values[k] * weight;
+    }
+  });
+  return result;
+}
+
+/**
+ * Orthonormalizes vectors with modified Gram-Schmidt, dropping vectors
+ * that are (numerically) linear combinations of earlier ones.
+ */
+function orthonormalize(vectors: Float64Array[]): Float64Array[] {
+  const basis: Float64Array[] = [];
+
+  for (const vector of vectors) {
+    const v = Float64Array.from(vector);
+    for (const b of basis) {
+      const projection = dot(v, b);
+      for (let t = 0; t < v.length; t++) v[t] -= projection * b[t];
+    }
+    const norm = Math.sqrt(dot(v, v));
+    if (norm < 1e-10) continue;
+    for (let t = 0; t < v.length; t++) v[t] /= norm;
+    basis.push(v);
+  }
+
+  return basis;
+}
+
+/**
+ * Eigen-decomposes a small symmetric matrix with the cyclic Jacobi method.
+ * Returns the eigenvalues and the eigenvectors as columns of `vectors`.
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map((row) => row.slice());
+  const v: number[][] = matrix.map((_, i) => matrix.map((__, j) => (i === j ? 1 : 0)));
+
+  let scale = 0;
+  for (let i = 0; i < n; i++) scale += a[i][i] * a[i][i];
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal <= 1e-22 * scale) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+/**
+ * Dot product of two vectors.
+ */
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * L2-normalizes a vector in place.
+ */
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32).
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Encodes floats as base64 (much smaller than a JSON number array).
+ */
+function encodeFloats(values: Float32Array): string {
+  return Buffer.from(values.buffer, values.byteOffset, values.byteLength).toString("base64");
+}
+
+/**
+ * Decodes floats encoded by encodeFloats.
+ */
+function decodeFloats(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  return new Float32Array(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  );
+}
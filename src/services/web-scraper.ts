@@ -5,7 +5,11 @@
  * - Crawl docs websites with depth limit
  * - Respect robots.txt
  * - Extract and normalize links
- * - Rate limiting between requests
+ * - Filter URLs by include/exclude patterns
+ * - Seed the crawl from sitemap.xml files
+ * - Concurrent fetching with per-host rate limiting and backoff
+ * - Revalidate previously crawled pages with conditional requests or sitemap lastmod
+ * - Report progress and stop early when cancelled
  */
 
 import {
@@ -13,7 +17,34 @@ import {
   extractLinks,
   isSameDomain,
   urlToFilename,
+  compileUrlFilters,
+  matchUrlFilters,
+  shouldCrawl,
+  isUnderPath,
 } from "../utils/url.js";
+import { HostThrottle, parseRetryAfter } from "../utils/rate-limit.js";
+import { discoverSitemapUrls } from "./sitemap-parser.js";
+import { throwIfCancelled } from "../types/errors.js";
+
+/**
+ * How the crawler discovers pages.
+ * - "links": follow links from the start URL (breadth-first, depth-limited)
+ * - "sitemap": crawl only the pages listed in the site's sitemaps
+ * - "both": seed the queue from sitemaps and also follow links
+ */
+export type CrawlStrategy = "links" | "sitemap" | "both";
+
+/**
+ * Validators and links from a previous crawl of a page.
+ */
+export interface CachedPageValidator {
+  /** ETag to send as If-None-Match */
+  etag?: string;
+  /** Last-Modified date to send as If-Modified-Since */
+  lastModified?: string;
+  /** Links found on the page, followed again if it is unchanged */
+  links: string[];
+}
 
 /**
  * Options for the web scraper.
@@ -21,14 +52,49 @@ import {
 export interface ScraperOptions {
   /** Maximum crawl depth (default: 2, max: 5) */
   maxDepth?: number;
-  /** Delay between requests in ms (default: 500) */
+  /** Minimum average delay between requests to a host in ms (default: 500) */
   requestDelay?: number;
+  /** Maximum parallel requests per host (default: 4) */
+  concurrency?: number;
+  /** Retries for a page after 429/503 responses (default: 3) */
+  maxRetries?: number;
   /** Maximum pages to crawl (default: 100) */
   maxPages?: number;
   /** Whether to respect robots.txt (default: true) */
   respectRobotsTxt?: boolean;
   /** Custom user agent */
   userAgent?: string;
+  /** URL patterns (globs or `regex:` expressions) a page must match to be crawled */
+  includePatterns?: string[];
+  /** URL patterns (globs or `regex:` expressions) that exclude a page from the crawl */
+  excludePatterns?: string[];
+  /** Page discovery strategy (default: "links") */
+  strategy?: CrawlStrategy;
+  /**
+   * Pages with a validator whose sitemap lastmod is older than this are
+   * taken as unchanged without fetching them (typically the previous crawl time)
+   */
+  sitemapModifiedSince?: Date;
+  /** Validators of previously crawled pages, keyed by normalized URL */
+  validators?: Record<string, CachedPageValidator>;
+  /** Stops the crawl; crawlWebsite then throws CancelledError */
+  signal?: AbortSignal;
+  /** Called after each crawled page */
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+/**
+ * Progress of a crawl.
+ */
+export interface CrawlProgress {
+  /** Pages crawled so far */
+  crawled: number;
+  /** Pages discovered so far (queued or crawled) */
+  discovered: number;
+  /** Page limit of the crawl */
+  maxPages: number;
+  /** Last crawled URL */
+  url: string;
 }
 
 /**
@@ -41,7 +107,7 @@ export interface ScrapedPage {
   normalizedUrl: string;
   /** Safe filename for caching */
   filename: string;
-  /** Raw HTML content */
+  /** Raw HTML content (empty if not modified) */
   html: string;
   /** HTTP status code */
   status: number;
@@ -51,6 +117,14 @@ export interface ScrapedPage {
   depth: number;
   /** Links found on this page */
   links: string[];
+  /** Last modification time from the sitemap, if listed there */
+  lastmod?: string;
+  /** ETag response header */
+  etag?: string;
+  /** Last-Modified response header */
+  lastModified?: string;
+  /** Server answered 304, or the sitemap lastmod predates the previous crawl - the cached content is still current */
+  notModified?: boolean;
 }
 
 /**
@@ -63,12 +137,15 @@ export interface CrawlResult {
   pages: ScrapedPage[];
   /** URLs that failed to fetch */
   failed: Array<{ url: string; reason: string }>;
-  /** URLs that were skipped (robots.txt, external, etc.) */
+  /** URLs that were skipped (robots.txt, external, filtered by pattern, etc.) */
   skipped: Array<{ url: string; reason: string }>;
+  /** Sitemap files that were read (sitemap strategies only) */
+  sitemaps: string[];
   /** Crawl statistics */
   stats: {
     totalDiscovered: number;
     totalCrawled: number;
+    totalNotModified: number;
     totalFailed: number;
     totalSkipped: number;
     maxDepthReached: number;
@@ -82,17 +159,26 @@ export interface CrawlResult {
 interface RobotsRules {
   disallowedPaths: string[];
   crawlDelay?: number;
+  /** Sitemap URLs announced via `Sitemap:` lines (apply to all user agents) */
+  sitemaps: string[];
 }
 
 /**
  * Default scraper options.
  */
-const DEFAULT_OPTIONS: Required<ScraperOptions> = {
+const DEFAULT_OPTIONS: Required<
+  Omit<ScraperOptions, "sitemapModifiedSince" | "validators" | "signal" | "onProgress">
+> = {
   maxDepth: 2,
   requestDelay: 500,
+  concurrency: 4,
+  maxRetries: 3,
   maxPages: 100,
   respectRobotsTxt: true,
   userAgent: "mcp-docs-scraper/1.0 (documentation indexer)",
+  includePatterns: [],
+  excludePatterns: [],
+  strategy: "links",
 };
 
 /**
@@ -100,6 +186,16 @@ const DEFAULT_OPTIONS: Required<ScraperOptions> = {
  */
 const MAX_DEPTH = 5;
 
+/**
+ * Maximum allowed concurrency per host.
+ */
+const MAX_CONCURRENCY = 16;
+
+/**
+ * Longest Retry-After wait honored before giving up on a page.
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
 /**
  * Fetches and parses robots.txt for a domain.
  */
@@ -109,6 +205,7 @@ async function fetchRobotsTxt(
 ): Promise<RobotsRules> {
   const rules: RobotsRules = {
     disallowedPaths: [],
+    sitemaps: [],
   };
 
   try {
@@ -130,6 +227,15 @@ async function fetchRobotsTxt(
     for (const line of lines) {
       const trimmed = line.trim().toLowerCase();
 
+      // Sitemap directives are independent of user-agent groups
+      if (trimmed.startsWith("sitemap:")) {
+        const sitemapUrl = line.trim().slice(8).trim();
+        if (sitemapUrl) {
+          rules.sitemaps.push(sitemapUrl);
+        }
+        continue;
+      }
+
       // Check user-agent directive
       if (trimmed.startsWith("user-agent:")) {
         const agent = trimmed.slice(11).trim();
@@ -188,46 +294,143 @@ function isDisallowed(url: string, rules: RobotsRules): boolean {
 }
 
 /**
- * Fetches a single page.
+ * Checks if a sitemap lastmod is older than a date. Date-only values
+ * count as the end of that day; missing or invalid ones are never older.
+ */
+function isOlderThan(lastmod: string | undefined, date: Date | undefined): boolean {
+  if (!lastmod || !date) return false;
+
+  const time = Date.parse(lastmod);
+  if (Number.isNaN(time)) return false;
+
+  const endTime = /^\d{4}-\d{2}-\d{2}$/.test(lastmod.trim()) ? time + 24 * 60 * 60 * 1000 : time;
+  return endTime <= date.getTime();
+}
+
+/**
+ * Outcome of fetching a single page.
+ */
+type FetchPageResult =
+  | {
+      kind: "page";
+      html: string;
+      status: number;
+      contentType: string;
+      etag?: string;
+      lastModified?: string;
+    }
+  | { kind: "not_modified"; etag?: string; lastModified?: string }
+  | { kind: "throttled"; status: number; retryAfterMs?: number }
+  | { kind: "failed"; reason: string };
+
+/**
+ * Fetches a single page, as a conditional request if validators are given.
  */
 async function fetchPage(
   url: string,
-  userAgent: string
-): Promise<{ html: string; status: number; contentType: string } | null> {
+  userAgent: string,
+  validator?: CachedPageValidator,
+  signal?: AbortSignal
+): Promise<FetchPageResult> {
   try {
+    const headers: Record<string, string> = {
+      "User-Agent": userAgent,
+      Accept: "text/html,application/xhtml+xml",
+    };
+    if (validator?.etag) {
+      headers["If-None-Match"] = validator.etag;
+    }
+    if (validator?.lastModified) {
+      headers["If-Modified-Since"] = validator.lastModified;
+    }
+
+    const timeout = AbortSignal.timeout(10000);
     const response = await fetch(url, {
-      headers: {
-        "User-Agent": userAgent,
-        Accept: "text/html,application/xhtml+xml",
-      },
+      headers,
       redirect: "follow",
-      signal: AbortSignal.timeout(10000),
+      signal: signal ? AbortSignal.any([timeout, signal]) : timeout,
     });
 
+    // Unchanged since the last crawl - keep the old validators unless replaced
+    if (response.status === 304 && validator) {
+      await response.body?.cancel();
+      return {
+        kind: "not_modified",
+        etag: response.headers.get("etag") || validator.etag,
+        lastModified:
+          response.headers.get("last-modified") || validator.lastModified,
+      };
+    }
+
+    // Server asks us to slow down
+    if (response.status === 429 || response.status === 503) {
+      await response.body?.cancel();
+      return {
+        kind: "throttled",
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      };
+    }
+
     const contentType = response.headers.get("content-type") || "";
 
     // Only process HTML content
     if (!contentType.includes("text/html") && !contentType.includes("application/xhtml")) {
-      return null;
+      await response.body?.cancel();
+      return { kind: "failed", reason: "fetch failed or non-HTML content" };
     }
 
     const html = await response.text();
 
     return {
+      kind: "page",
       html,
       status: response.status,
       contentType,
+      etag: response.headers.get("etag") || undefined,
+      lastModified: response.headers.get("last-modified") || undefined,
     };
   } catch {
-    return null;
+    return { kind: "failed", reason: "fetch failed or non-HTML content" };
   }
 }
 
 /**
- * Delays execution for a specified time.
+ * Fetches a page through the host throttle, retrying after 429/503 responses.
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+async function fetchPageThrottled(
+  url: string,
+  throttle: HostThrottle,
+  opts: { userAgent: string; maxRetries: number },
+  validator?: CachedPageValidator,
+  signal?: AbortSignal
+): Promise<FetchPageResult> {
+  const host = new URL(url).hostname;
+
+  for (let attempt = 0; ; attempt++) {
+    await throttle.acquire(host, signal);
+    if (signal?.aborted) {
+      return { kind: "failed", reason: "cancelled" };
+    }
+    const pageResult = await fetchPage(url, opts.userAgent, validator, signal);
+
+    if (pageResult.kind !== "throttled") {
+      return pageResult;
+    }
+
+    const retryAfterMs = pageResult.retryAfterMs;
+    if (
+      attempt >= opts.maxRetries ||
+      (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS)
+    ) {
+      return { kind: "failed", reason: `HTTP ${pageResult.status} (rate limited)` };
+    }
+
+    const waitMs = throttle.backoff(host, retryAfterMs);
+    console.error(
+      `[scraper] HTTP ${pageResult.status} from ${host}, retrying ${url} in ${waitMs}ms`
+    );
+  }
 }
 
 /**
@@ -236,6 +439,7 @@ function delay(ms: number): Promise<void> {
  * @param startUrl The URL to start crawling from
  * @param options Scraper options
  * @returns CrawlResult with all scraped pages and statistics
+ * @throws CancelledError if options.signal is aborted
  */
 export async function crawlWebsite(
   startUrl: string,
@@ -244,24 +448,35 @@ export async function crawlWebsite(
   const startTime = Date.now();
 
   // Merge options with defaults
-  const opts: Required<ScraperOptions> = {
+  const opts: Required<
+    Omit<ScraperOptions, "sitemapModifiedSince" | "validators" | "signal" | "onProgress">
+  > = {
     ...DEFAULT_OPTIONS,
     ...options,
     maxDepth: Math.min(options.maxDepth || DEFAULT_OPTIONS.maxDepth, MAX_DEPTH),
+    concurrency: Math.min(
+      Math.max(1, options.concurrency || DEFAULT_OPTIONS.concurrency),
+      MAX_CONCURRENCY
+    ),
   };
 
   // Normalize starting URL
   const baseUrl = normalizeUrl(startUrl);
 
+  // Compile include/exclude filters (the start URL itself is always crawled)
+  const filters = compileUrlFilters(opts.includePatterns, opts.excludePatterns);
+
   // Initialize result
   const result: CrawlResult = {
     baseUrl,
     pages: [],
     failed: [],
     skipped: [],
+    sitemaps: [],
     stats: {
       totalDiscovered: 1,
       totalCrawled: 0,
+      totalNotModified: 0,
       totalFailed: 0,
       totalSkipped: 0,
       maxDepthReached: 0,
@@ -269,89 +484,242 @@ export async function crawlWebsite(
     },
   };
 
-  // Fetch robots.txt if needed
-  let robotsRules: RobotsRules = { disallowedPaths: [] };
-  if (opts.respectRobotsTxt) {
-    robotsRules = await fetchRobotsTxt(baseUrl, opts.userAgent);
-    if (robotsRules.crawlDelay) {
-      opts.requestDelay = Math.max(opts.requestDelay, robotsRules.crawlDelay);
+  // Fetch robots.txt if needed (sitemap strategies also read its Sitemap: lines)
+  let robotsRules: RobotsRules = { disallowedPaths: [], sitemaps: [] };
+  if (opts.respectRobotsTxt || opts.strategy !== "links") {
+    const fetchedRules = await fetchRobotsTxt(baseUrl, opts.userAgent);
+    if (opts.respectRobotsTxt) {
+      robotsRules = fetchedRules;
+      if (robotsRules.crawlDelay) {
+        opts.requestDelay = Math.max(opts.requestDelay, robotsRules.crawlDelay);
+      }
+    } else {
+      robotsRules.sitemaps = fetchedRules.sitemaps;
     }
   }
 
   // Track visited URLs and queue
   const visited = new Set<string>();
-  const queue: Array<{ url: string; depth: number }> = [{ url: baseUrl, depth: 0 }];
+  const queue: Array<{ url: string; depth: number; lastmod?: string }> = [
+    { url: baseUrl, depth: 0 },
+  ];
+
+  // Seed the queue from sitemaps
+  let followLinks = opts.strategy !== "sitemap";
+  if (opts.strategy !== "links") {
+    // All entries are listed: unchanged ones are kept without being fetched
+    const sitemapResult = await discoverSitemapUrls(baseUrl, {
+      robotsSitemaps: robotsRules.sitemaps,
+      userAgent: opts.userAgent,
+    });
+    result.sitemaps = sitemapResult.sitemaps;
 
-  while (queue.length > 0 && result.pages.length < opts.maxPages) {
-    const current = queue.shift()!;
-    const { url, depth } = current;
+    for (const entry of sitemapResult.entries) {
+      if (entry.url === baseUrl || visited.has(entry.url)) {
+        continue;
+      }
 
-    // Skip if already visited
-    if (visited.has(url)) {
-      continue;
-    }
-    visited.add(url);
+      // Sitemaps usually cover the whole site - keep to the start URL's section
+      let reason: string | undefined;
+      if (!isUnderPath(entry.url, baseUrl)) {
+        reason = "outside start URL path";
+      } else {
+        reason = shouldCrawl(entry.url, baseUrl).reason ??
+          matchUrlFilters(entry.url, filters).reason;
+      }
 
-    // Check robots.txt
-    if (opts.respectRobotsTxt && isDisallowed(url, robotsRules)) {
-      result.skipped.push({ url, reason: "disallowed by robots.txt" });
-      result.stats.totalSkipped++;
-      continue;
-    }
+      if (reason) {
+        visited.add(entry.url);
+        result.skipped.push({ url: entry.url, reason });
+        result.stats.totalSkipped++;
+        continue;
+      }
 
-    // Check same domain
-    if (!isSameDomain(url, baseUrl)) {
-      result.skipped.push({ url, reason: "external domain" });
-      result.stats.totalSkipped++;
-      continue;
+      queue.push({ url: entry.url, depth: 0, lastmod: entry.lastmod });
+      result.stats.totalDiscovered++;
     }
 
-    // Add delay between requests (except first)
-    if (result.stats.totalCrawled > 0) {
-      await delay(opts.requestDelay);
+    console.error(
+      `[scraper] Found ${queue.length - 1} pages in ${sitemapResult.sitemaps.length} sitemap(s)`
+    );
+
+    // Nothing usable in sitemaps - fall back to following links
+    if (queue.length === 1 && !followLinks) {
+      console.error("[scraper] No sitemap pages found, falling back to link crawling");
+      followLinks = true;
     }
+  }
 
-    // Fetch the page
-    const pageResult = await fetchPage(url, opts.userAgent);
+  // Robots.txt Crawl-delay forbids bursts: requests are spaced one at a time
+  const throttle = new HostThrottle({
+    intervalMs: opts.requestDelay,
+    burst: robotsRules.crawlDelay ? 1 : opts.concurrency,
+  });
+
+  /**
+   * Fetches one queued URL and enqueues the links found on it.
+   */
+  const processUrl = async (
+    url: string,
+    depth: number,
+    lastmod?: string
+  ): Promise<void> => {
+    const normalizedUrl = normalizeUrl(url);
+    const validator = options.validators?.[normalizedUrl];
+
+    // Listed as unchanged since the previous crawl - no request needed
+    const pageResult: FetchPageResult =
+      validator && isOlderThan(lastmod, options.sitemapModifiedSince)
+        ? { kind: "not_modified", etag: validator.etag, lastModified: validator.lastModified }
+        : await fetchPageThrottled(url, throttle, opts, validator, options.signal);
+
+    // Requests cut short by cancellation are not failures of the page
+    if (options.signal?.aborted) {
+      return;
+    }
 
-    if (!pageResult) {
-      result.failed.push({ url, reason: "fetch failed or non-HTML content" });
+    if (pageResult.kind === "failed" || pageResult.kind === "throttled") {
+      const reason =
+        pageResult.kind === "failed"
+          ? pageResult.reason
+          : `HTTP ${pageResult.status} (rate limited)`;
+      result.failed.push({ url, reason });
       result.stats.totalFailed++;
-      continue;
+      return;
     }
 
-    // Extract links for further crawling
-    const links = depth < opts.maxDepth ? extractLinks(pageResult.html, url) : [];
+    // Unchanged pages reuse the links recorded when they were last crawled.
+    // Links are always recorded so a later revalidation can follow them.
+    const notModified = pageResult.kind === "not_modified";
+    const links = notModified
+      ? validator?.links ?? []
+      : extractLinks(pageResult.html, url);
+    const canFollow = followLinks && depth < opts.maxDepth;
 
     // Create scraped page
     const page: ScrapedPage = {
       url,
-      normalizedUrl: normalizeUrl(url),
+      normalizedUrl,
       filename: urlToFilename(url),
-      html: pageResult.html,
-      status: pageResult.status,
-      contentType: pageResult.contentType,
+      html: notModified ? "" : pageResult.html,
+      status: notModified ? 304 : pageResult.status,
+      contentType: notModified ? "" : pageResult.contentType,
       depth,
       links,
+      lastmod,
+      etag: pageResult.etag,
+      lastModified: pageResult.lastModified,
+      notModified: notModified || undefined,
     };
 
     result.pages.push(page);
     result.stats.totalCrawled++;
+    if (notModified) {
+      result.stats.totalNotModified++;
+    }
     result.stats.maxDepthReached = Math.max(result.stats.maxDepthReached, depth);
 
     // Add new links to queue
-    if (depth < opts.maxDepth) {
+    if (canFollow) {
       for (const link of links) {
-        if (!visited.has(link)) {
-          queue.push({ url: link, depth: depth + 1 });
-          result.stats.totalDiscovered++;
+        if (visited.has(link)) {
+          continue;
         }
+
+        const { isAllowed, reason } = matchUrlFilters(link, filters);
+        if (!isAllowed) {
+          // Mark as visited so the same link is only reported once
+          visited.add(link);
+          result.skipped.push({ url: link, reason: reason! });
+          result.stats.totalSkipped++;
+          continue;
+        }
+
+        queue.push({ url: link, depth: depth + 1 });
+        result.stats.totalDiscovered++;
       }
     }
 
     // Log progress
-    console.error(`[scraper] Crawled ${result.stats.totalCrawled}/${opts.maxPages}: ${url} (depth ${depth})`);
-  }
+    console.error(
+      `[scraper] Crawled ${result.stats.totalCrawled}/${opts.maxPages}: ${url} (depth ${depth}${
+        notModified ? ", not modified" : ""
+      })`
+    );
+    options.onProgress?.({
+      crawled: result.stats.totalCrawled,
+      discovered: result.stats.totalDiscovered,
+      maxPages: opts.maxPages,
+      url,
+    });
+  };
+
+  // Worker pool: each worker pulls from the shared queue until it is drained
+  let active = 0;
+  let waiters: Array<() => void> = [];
+  const wakeWaiters = () => {
+    const pending = waiters;
+    waiters = [];
+    for (const resolve of pending) resolve();
+  };
+
+  // Cancellation wakes idle workers so they can stop
+  options.signal?.addEventListener("abort", wakeWaiters, { once: true });
+
+  const worker = async (): Promise<void> => {
+    for (;;) {
+      if (options.signal?.aborted) return;
+
+      // In-flight requests may still fill the remaining page slots
+      if (result.pages.length + active >= opts.maxPages) {
+        if (active === 0 || result.pages.length >= opts.maxPages) return;
+        await new Promise<void>((resolve) => waiters.push(resolve));
+        continue;
+      }
+
+      const current = queue.shift();
+      if (!current) {
+        // Queue is empty - wait for in-flight pages to discover more links
+        if (active === 0) return;
+        await new Promise<void>((resolve) => waiters.push(resolve));
+        continue;
+      }
+
+      const { url, depth, lastmod } = current;
+
+      // Skip if already visited
+      if (visited.has(url)) {
+        continue;
+      }
+      visited.add(url);
+
+      // Check robots.txt
+      if (opts.respectRobotsTxt && isDisallowed(url, robotsRules)) {
+        result.skipped.push({ url, reason: "disallowed by robots.txt" });
+        result.stats.totalSkipped++;
+        continue;
+      }
+
+      // Check same domain
+      if (!isSameDomain(url, baseUrl)) {
+        result.skipped.push({ url, reason: "external domain" });
+        result.stats.totalSkipped++;
+        continue;
+      }
+
+      active++;
+      try {
+        await processUrl(url, depth, lastmod);
+      } finally {
+        active--;
+        wakeWaiters();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: opts.concurrency }, () => worker()));
+  options.signal?.removeEventListener("abort", wakeWaiters);
+  throwIfCancelled(options.signal, "Crawl");
 
   // Update final stats
   result.stats.durationMs = Date.now() - startTime;
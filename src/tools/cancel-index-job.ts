@@ -0,0 +1,40 @@
+/**
+ * cancel_index_job tool - Cancels a background indexing job.
+ */
+
+import type { IndexJob } from "../types/cache.js";
+import { jobManager } from "../services/job-manager.js";
+import { ValidationError } from "../types/errors.js";
+
+/**
+ * Input parameters for cancel_index_job tool.
+ */
+export interface CancelIndexJobInput {
+  /** Job ID from index_docs in async mode */
+  job_id: string;
+}
+
+/**
+ * Output from cancel_index_job tool.
+ */
+export interface CancelIndexJobOutput {
+  /** Whether this call cancelled the job (false if it had already ended) */
+  cancelled: boolean;
+  /** The job after cancelling */
+  job: IndexJob;
+}
+
+/**
+ * Cancels a running background indexing job. The cache is left as it was
+ * before the job started.
+ */
+export async function cancelIndexJob(input: CancelIndexJobInput): Promise<CancelIndexJobOutput> {
+  if (!input.job_id) {
+    throw new ValidationError("Missing required parameter: job_id", "job_id");
+  }
+
+  const wasRunning = (await jobManager.get(input.job_id)).status === "running";
+  const job = await jobManager.cancel(input.job_id);
+
+  return { cancelled: wasRunning && job.status === "cancelled", job };
+}
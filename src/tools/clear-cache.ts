@@ -1,4 +1,5 @@
 import { cacheManager } from "../services/cache-manager.js";
+import { indexCache } from "../services/index-cache.js";
 
 /**
  * Input type for clear_cache tool.
@@ -33,12 +34,14 @@ export async function clearCache(input: ClearCacheInput): Promise<ClearCacheOutp
     // Clear everything
     const allCleared = await cacheManager.clearAll();
     cleared.push(...allCleared);
+    indexCache.clear();
   } else if (input.docs_id) {
     // Clear specific entry - try both sources
     const meta = await cacheManager.findById(input.docs_id);
     if (meta) {
       await cacheManager.clearEntry(meta.source, meta.id);
       cleared.push(meta.id);
+      indexCache.invalidate(meta.id);
     }
   }
 
@@ -1,9 +1,15 @@
 /**
  * get_docs_content tool - Retrieves actual content of specific doc files from cache.
+ *
+ * Can also return a single section (by heading path or anchor), a line range
+ * or a byte range of each file instead of the whole file, and cap the returned
+ * content at a token budget with a cursor to fetch the rest.
  */
 
 import { cacheManager } from "../services/cache-manager.js";
+import { splitSections, type MarkdownSection } from "../services/search-index.js";
 import { CacheNotFoundError, ValidationError } from "../types/errors.js";
+import { estimateTokens, tokensToChars } from "../utils/tokens.js";
 
 /**
  * Input parameters for get_docs_content tool.
@@ -11,10 +17,56 @@ import { CacheNotFoundError, ValidationError } from "../types/errors.js";
 export interface GetDocsContentInput {
   /** The docs ID from index_docs response */
   docs_id: string;
-  /** Array of file paths to fetch */
-  paths: string[];
+  /** Array of file paths to fetch (not needed with cursor) */
+  paths?: string[];
   /** Output format (default: markdown) */
   format?: "markdown" | "raw";
+  /** Section to return: heading path ("Guides > Routing > Dynamic routes") or anchor */
+  section?: string;
+  /** First line to return (1-based) */
+  line_start?: number;
+  /** Last line to return (1-based, inclusive; default: end of file) */
+  line_end?: number;
+  /** Byte offset to start at (0-based) */
+  byte_offset?: number;
+  /** Number of bytes to return (default: to end of file) */
+  byte_length?: number;
+  /** Approximate token budget per file; longer content is cut at a heading or paragraph */
+  max_tokens?: number;
+  /** next_cursor from a previous truncated response, to continue where it stopped */
+  cursor?: string;
+}
+
+/**
+ * Position of returned content within its file.
+ */
+export interface ContentRange {
+  /** First line (1-based) */
+  line_start: number;
+  /** Last line (1-based, inclusive) */
+  line_end: number;
+  /** Byte offset of the first byte */
+  byte_start: number;
+  /** Byte offset just past the last byte */
+  byte_end: number;
+  /** Lines in the whole file */
+  total_lines: number;
+  /** Bytes in the whole file */
+  total_bytes: number;
+}
+
+/**
+ * Section selected by heading.
+ */
+export interface SelectedSection {
+  /** Heading text */
+  heading: string;
+  /** Heading texts from the top level down to this section */
+  breadcrumb: string[];
+  /** Section anchor */
+  anchor: string;
+  /** Whether the heading path matched exactly or only fuzzily */
+  match: "exact" | "fuzzy";
 }
 
 /**
@@ -27,8 +79,18 @@ export interface FileContent {
   title?: string;
   /** List of headings for quick navigation */
   headings: string[];
-  /** Size in bytes */
+  /** Size in bytes (of the whole file) */
   size_bytes: number;
+  /** Estimated tokens of the whole file */
+  estimated_tokens: number;
+  /** Position of the returned slice, when a section or range was requested */
+  range?: ContentRange;
+  /** Matched section, when selected by heading */
+  section?: SelectedSection;
+  /** Whether the content was cut to fit max_tokens */
+  truncated?: boolean;
+  /** Pass as cursor to get the content after the cut */
+  next_cursor?: string;
 }
 
 /**
@@ -41,6 +103,185 @@ export interface GetDocsContentOutput {
   contents: Record<string, FileContent>;
   /** Paths that don't exist in cache */
   not_found: string[];
+  /** Paths where the requested section or range was not found, with the reason */
+  selection_errors?: Record<string, string>;
+}
+
+/**
+ * Content selected from a file.
+ */
+interface Selection {
+  content: string;
+  range: ContentRange;
+  section?: SelectedSection;
+}
+
+/**
+ * Decoded continuation cursor.
+ */
+interface ContentCursor {
+  /** File path */
+  p: string;
+  /** Byte offset to continue from */
+  s: number;
+  /** Byte offset where the original selection ended */
+  e: number;
+  /** Token budget of the original request */
+  t: number;
+}
+
+/**
+ * Encodes a continuation cursor.
+ */
+function encodeCursor(cursor: ContentCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a continuation cursor.
+ * Throws a ValidationError if it is malformed.
+ */
+function decodeCursor(value: string): ContentCursor {
+  try {
+    const cursor = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    ) as ContentCursor;
+    if (
+      typeof cursor.p === "string" &&
+      Number.isInteger(cursor.s) &&
+      Number.isInteger(cursor.e) &&
+      typeof cursor.t === "number"
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new ValidationError("Invalid cursor: use next_cursor from a previous response", "cursor");
+}
+
+/**
+ * Finds the fenced code blocks of markdown text, as character ranges from
+ * the start of the opening fence to the end of the closing one.
+ */
+function findCodeFences(text: string): Array<[number, number]> {
+  const fences: Array<[number, number]> = [];
+  let fence: string | null = null;
+  let fenceStart = 0;
+  let lineStart = 0;
+
+  for (const line of text.split("\n")) {
+    const lineEnd = lineStart + line.length;
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+        fenceStart = lineStart;
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fences.push([fenceStart, lineEnd]);
+        fence = null;
+      }
+    }
+    lineStart = lineEnd + 1;
+  }
+
+  // Unclosed fence runs to the end
+  if (fence !== null) {
+    fences.push([fenceStart, text.length]);
+  }
+  return fences;
+}
+
+/**
+ * Finds where to cut text to fit a character budget. Prefers the start of a
+ * heading, then a paragraph break, then a line break in the second half of
+ * the budget, and only cuts mid-line as a last resort. A cut inside a
+ * fenced code block moves to before the block (unless the block alone is
+ * over the budget), and one right after a heading moves to before the
+ * heading, so no part ends with one.
+ */
+function findCutPosition(text: string, maxChars: number): number {
+  const window = text.slice(0, maxChars + 1);
+  const minCut = Math.floor(maxChars / 2);
+  const fences = findCodeFences(window);
+  const fenceAt = (position: number) =>
+    fences.find(([start, end]) => start < position && position < end);
+
+  // Start of the heading line a cut would end with, or -1
+  const headingBefore = (position: number): number => {
+    let end = position;
+    while (end > 0 && /\s/.test(window[end - 1])) end--;
+    const lineStart = window.lastIndexOf("\n", end - 1) + 1;
+    return /^#{1,6}\s/.test(window.slice(lineStart, end)) && !fenceAt(lineStart)
+      ? lineStart
+      : -1;
+  };
+
+  // [boundary, whether it may fall inside a code block]
+  const boundaries: Array<[RegExp, boolean]> = [
+    [/\n(?=#{1,6}\s)/g, false],
+    [/\n\s*\n/g, false],
+    [/\n/g, false],
+    // A code block longer than the budget is cut at a line break
+    [/\n/g, true],
+  ];
+  for (const [boundary, inCode] of boundaries) {
+    let cut = -1;
+    for (const match of window.matchAll(boundary)) {
+      let end = match.index + match[0].length;
+      if (end > maxChars || end < minCut) {
+        continue;
+      }
+      const fence = inCode ? undefined : fenceAt(end);
+      if (fence) {
+        end = fence[0];
+      }
+      const heading = headingBefore(end);
+      if (heading >= 0) {
+        end = heading;
+      }
+      cut = Math.max(cut, end);
+    }
+    if (cut > 0) {
+      return cut;
+    }
+  }
+
+  // Don't split a surrogate pair
+  const code = text.charCodeAt(maxChars - 1);
+  return code >= 0xd800 && code <= 0xdbff ? maxChars - 1 : maxChars;
+}
+
+/**
+ * Cuts a selection to fit a token budget.
+ * Returns the cut selection and the byte offset to continue from, if cut.
+ */
+function truncateSelection(
+  selection: Selection,
+  maxTokens: number
+): { selection: Selection; nextByte?: number } {
+  const maxChars = tokensToChars(maxTokens);
+  if (selection.content.length <= maxChars) {
+    return { selection };
+  }
+
+  const cut = findCutPosition(selection.content, maxChars);
+  const kept = selection.content.slice(0, cut);
+  const content = kept.replace(/\n+$/, "");
+  const { range } = selection;
+
+  return {
+    selection: {
+      ...selection,
+      content,
+      range: {
+        ...range,
+        line_end: range.line_start + content.split("\n").length - 1,
+        byte_end: range.byte_start + Buffer.byteLength(content, "utf8"),
+      },
+    },
+    nextByte: range.byte_start + Buffer.byteLength(kept, "utf8"),
+  };
 }
 
 /**
@@ -83,23 +324,256 @@ function extractTitle(content: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Normalizes heading text for fuzzy comparison.
+ */
+function normalizeHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Checks whether a heading fuzzily matches one segment of a heading path:
+ * the heading contains the segment, or every segment word starts a heading word.
+ */
+function headingMatches(heading: string, segment: string): boolean {
+  if (heading.includes(segment)) {
+    return true;
+  }
+  const words = heading.split(" ");
+  return segment
+    .split(" ")
+    .every((part) => words.some((word) => word.startsWith(part)));
+}
+
+/**
+ * Finds the section matching a heading path or anchor.
+ * Exact matches (the path equals the end of a section's breadcrumb, or the
+ * anchor) win over fuzzy ones, where each path segment must match a heading
+ * of the breadcrumb in order. Returns null if nothing matches.
+ */
+function findSection(
+  content: string,
+  query: string
+): { section: MarkdownSection; endLine: number; match: "exact" | "fuzzy" } | null {
+  const sections = splitSections(content).filter((s) => s.level > 0);
+  const anchor = query.trim().replace(/^#/, "");
+  const segments = query
+    .split(">")
+    .map(normalizeHeading)
+    .filter((segment) => segment.length > 0);
+
+  let bestIndex = -1;
+  let bestMatch: "exact" | "fuzzy" = "fuzzy";
+  let bestExtra = Infinity;
+
+  for (let index = 0; index < sections.length; index++) {
+    const section = sections[index];
+    const breadcrumb = section.breadcrumb.map(normalizeHeading);
+    const tail = breadcrumb.slice(-segments.length);
+
+    if (
+      section.anchor === anchor ||
+      (segments.length > 0 && tail.join(">") === segments.join(">"))
+    ) {
+      bestIndex = index;
+      bestMatch = "exact";
+      break;
+    }
+
+    // Fuzzy: segments match breadcrumb headings in order, the last one this section
+    if (segments.length === 0) continue;
+    const last = breadcrumb.length - 1;
+    if (!headingMatches(breadcrumb[last], segments[segments.length - 1])) continue;
+
+    let position = 0;
+    let matched = true;
+    for (const segment of segments.slice(0, -1)) {
+      while (position < last && !headingMatches(breadcrumb[position], segment)) {
+        position++;
+      }
+      if (position >= last) {
+        matched = false;
+        break;
+      }
+      position++;
+    }
+
+    // Prefer the match with the fewest unmatched levels
+    const extra = breadcrumb.length - segments.length;
+    if (matched && extra < bestExtra) {
+      bestIndex = index;
+      bestExtra = extra;
+    }
+  }
+
+  if (bestIndex === -1) {
+    return null;
+  }
+
+  // A section runs until the next heading of the same or a higher level
+  const section = sections[bestIndex];
+  const next = sections
+    .slice(bestIndex + 1)
+    .find((s) => s.level <= section.level);
+  const endLine = next ? next.startLine - 1 : content.split("\n").length;
+
+  return { section, endLine, match: bestMatch };
+}
+
+/**
+ * Builds the selection for a line range of a file.
+ */
+function selectLines(
+  content: string,
+  lineStart: number,
+  lineEnd: number
+): Selection | null {
+  const lines = content.split("\n");
+  const start = Math.max(1, lineStart);
+  const end = Math.min(lines.length, lineEnd);
+  if (start > lines.length || end < start) {
+    return null;
+  }
+
+  const before = lines.slice(0, start - 1).join("\n");
+  const slice = lines.slice(start - 1, end).join("\n");
+  const byteStart = start === 1 ? 0 : Buffer.byteLength(before, "utf8") + 1;
+
+  return {
+    content: slice,
+    range: {
+      line_start: start,
+      line_end: end,
+      byte_start: byteStart,
+      byte_end: byteStart + Buffer.byteLength(slice, "utf8"),
+      total_lines: lines.length,
+      total_bytes: Buffer.byteLength(content, "utf8"),
+    },
+  };
+}
+
+/**
+ * Builds the selection for a byte range of a file. The range is moved to
+ * UTF-8 character boundaries so multi-byte characters are never split.
+ */
+function selectBytes(
+  content: string,
+  offset: number,
+  length?: number
+): Selection | null {
+  const buffer = Buffer.from(content, "utf8");
+  const isContinuation = (i: number) => i < buffer.length && (buffer[i] & 0xc0) === 0x80;
+
+  let start = Math.max(0, offset);
+  let end = length === undefined ? buffer.length : Math.min(buffer.length, start + length);
+  if (start >= buffer.length || end <= start) {
+    return null;
+  }
+  while (isContinuation(start)) start++;
+  while (isContinuation(end)) end++;
+
+  const slice = buffer.subarray(start, end).toString("utf8");
+  const lineStart = buffer.subarray(0, start).toString("utf8").split("\n").length;
+
+  return {
+    content: slice,
+    range: {
+      line_start: lineStart,
+      line_end: lineStart + slice.split("\n").length - 1,
+      byte_start: start,
+      byte_end: end,
+      total_lines: content.split("\n").length,
+      total_bytes: buffer.length,
+    },
+  };
+}
+
+/**
+ * Applies the section/line/byte selection of the input to a file.
+ * Returns undefined if no selection was requested, or an error message.
+ */
+function selectContent(
+  content: string,
+  input: GetDocsContentInput
+): Selection | string | undefined {
+  if (input.section !== undefined) {
+    const found = findSection(content, input.section);
+    if (!found) {
+      return `No section matching "${input.section}"`;
+    }
+
+    const selection = selectLines(content, found.section.startLine, found.endLine)!;
+    return {
+      ...selection,
+      section: {
+        heading: found.section.heading,
+        breadcrumb: found.section.breadcrumb,
+        anchor: found.section.anchor,
+        match: found.match,
+      },
+    };
+  }
+
+  if (input.line_start !== undefined || input.line_end !== undefined) {
+    return (
+      selectLines(content, input.line_start ?? 1, input.line_end ?? Infinity) ??
+      "Line range is outside the file"
+    );
+  }
+
+  if (input.byte_offset !== undefined || input.byte_length !== undefined) {
+    return (
+      selectBytes(content, input.byte_offset ?? 0, input.byte_length) ??
+      "Byte range is outside the file"
+    );
+  }
+
+  return undefined;
+}
+
 /**
  * Gets the content of specific files from cached documentation.
  */
 export async function getDocsContent(
   input: GetDocsContentInput
 ): Promise<GetDocsContentOutput> {
-  const { docs_id, paths, format = "markdown" } = input;
+  const { docs_id, format = "markdown" } = input;
 
   // Validate required parameters
   if (!docs_id) {
     throw new ValidationError("Missing required parameter: docs_id", "docs_id");
   }
 
+  // A cursor continues one file from where the previous response stopped
+  const cursor = input.cursor ? decodeCursor(input.cursor) : undefined;
+  const paths = cursor ? [cursor.p] : input.paths;
+
   if (!paths || !Array.isArray(paths) || paths.length === 0) {
     throw new ValidationError("Missing required parameter: paths (must be a non-empty array of file paths)", "paths");
   }
 
+  if (input.max_tokens !== undefined && input.max_tokens < 1) {
+    throw new ValidationError("max_tokens must be at least 1", "max_tokens");
+  }
+  const maxTokens = input.max_tokens ?? cursor?.t;
+
+  // Only one way of selecting part of a file at a time
+  const selectors = [
+    input.section !== undefined,
+    input.line_start !== undefined || input.line_end !== undefined,
+    input.byte_offset !== undefined || input.byte_length !== undefined,
+    cursor !== undefined,
+  ].filter(Boolean);
+  if (selectors.length > 1) {
+    throw new ValidationError(
+      "Use only one of section, line_start/line_end, byte_offset/byte_length or cursor",
+      "section"
+    );
+  }
+
   // Find the cached docs entry to determine source type
   const meta = await cacheManager.findById(docs_id);
 
@@ -109,6 +583,7 @@ export async function getDocsContent(
 
   const contents: Record<string, FileContent> = {};
   const not_found: string[] = [];
+  const selection_errors: Record<string, string> = {};
 
   // Fetch each requested path
   for (const path of paths) {
@@ -124,14 +599,45 @@ export async function getDocsContent(
     if (content === null) {
       not_found.push(path);
     } else {
+      let selection = cursor
+        ? selectBytes(content, cursor.s, cursor.e - cursor.s) ??
+          "Cursor is outside the file - it may have changed since"
+        : selectContent(content, input);
+      if (typeof selection === "string") {
+        selection_errors[path] = selection;
+        continue;
+      }
+
+      // Cut to the token budget, remembering where the selection ended
+      let nextCursor: string | undefined;
+      if (maxTokens !== undefined) {
+        selection ??= selectLines(content, 1, Infinity)!;
+        const selectionEnd = selection.range.byte_end;
+        const truncated = truncateSelection(selection, maxTokens);
+        selection = truncated.selection;
+        if (truncated.nextByte !== undefined) {
+          nextCursor = encodeCursor({
+            p: normalizedPath,
+            s: truncated.nextByte,
+            e: selectionEnd,
+            t: maxTokens,
+          });
+        }
+      }
+
       const headings = extractHeadings(content);
       const title = extractTitle(content);
+      const text = selection?.content ?? content;
 
       contents[path] = {
-        content: format === "raw" ? content : content,
+        content: format === "raw" ? text : text,
         title,
         headings,
         size_bytes: new TextEncoder().encode(content).length,
+        estimated_tokens: estimateTokens(content),
+        range: selection?.range,
+        section: selection?.section,
+        ...(nextCursor && { truncated: true, next_cursor: nextCursor }),
       };
     }
   }
@@ -140,6 +646,7 @@ export async function getDocsContent(
     docs_id,
     contents,
     not_found,
+    ...(Object.keys(selection_errors).length > 0 && { selection_errors }),
   };
 }
 
@@ -0,0 +1,34 @@
+/**
+ * get_index_job tool - Reports the status of a background indexing job.
+ */
+
+import type { IndexJob } from "../types/cache.js";
+import { jobManager } from "../services/job-manager.js";
+import { ValidationError } from "../types/errors.js";
+
+/**
+ * Input parameters for get_index_job tool.
+ */
+export interface GetIndexJobInput {
+  /** Job ID from index_docs in async mode */
+  job_id: string;
+}
+
+/**
+ * Output from get_index_job tool.
+ */
+export interface GetIndexJobOutput {
+  /** The job: status, phase, progress counts, error and resulting docs_id */
+  job: IndexJob;
+}
+
+/**
+ * Gets the status of a background indexing job.
+ */
+export async function getIndexJob(input: GetIndexJobInput): Promise<GetIndexJobOutput> {
+  if (!input.job_id) {
+    throw new ValidationError("Missing required parameter: job_id", "job_id");
+  }
+
+  return { job: await jobManager.get(input.job_id) };
+}
@@ -5,6 +5,7 @@
 import type { DocsTreeNode } from "../types/cache.js";
 import { cacheManager } from "../services/cache-manager.js";
 import { CacheNotFoundError, ValidationError } from "../types/errors.js";
+import { estimateTokensFromBytes } from "../utils/tokens.js";
 
 /**
  * Input parameters for get_docs_tree tool.
@@ -96,6 +97,21 @@ function limitDepth(tree: DocsTreeNode[], maxDepth: number, currentDepth = 1): D
   });
 }
 
+/**
+ * Adds estimated token counts to the file nodes of a tree.
+ */
+function addTokenEstimates(tree: DocsTreeNode[]): DocsTreeNode[] {
+  return tree.map((node) => {
+    if (node.children) {
+      return { ...node, children: addTokenEstimates(node.children) };
+    }
+    if (node.type === "file" && node.size_bytes !== undefined) {
+      return { ...node, estimated_tokens: estimateTokensFromBytes(node.size_bytes) };
+    }
+    return node;
+  });
+}
+
 /**
  * Gets the documentation tree for a cached docs entry.
  */
@@ -138,7 +154,7 @@ export async function getDocsTree(input: GetDocsTreeInput): Promise<GetDocsTreeO
   return {
     docs_id,
     path: path || "/",
-    tree,
+    tree: addTokenEstimates(tree),
   };
 }
 
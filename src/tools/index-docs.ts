@@ -2,43 +2,103 @@
  * index_docs tool - Fetches and caches documentation from GitHub repositories or websites.
  */
 
-import type { DocsTreeNode } from "../types/cache.js";
+import { createHash } from "node:crypto";
+import { basename } from "node:path";
+import type {
+  CacheSource,
+  DocsTreeNode,
+  IndexJobStatus,
+  ScrapedPageRecord,
+} from "../types/cache.js";
 import { cacheManager } from "../services/cache-manager.js";
+import { indexCache } from "../services/index-cache.js";
+import { jobManager } from "../services/job-manager.js";
+import type { FetchTreeResult } from "../services/github-fetcher.js";
 import {
-  fetchRepoTree,
-  fetchFileContent,
-  type FetchTreeResult,
-} from "../services/github-fetcher.js";
+  LATEST_RELEASE_REF,
+  formatRepo,
+  type RepoLocation,
+  type RepoProviderId,
+  type ResolvedRef,
+} from "../services/repo-provider.js";
+import {
+  getRepoProvider,
+  parseRepositoryUrl,
+} from "../services/repo-registry.js";
 import {
   SearchIndex,
   createIndexableDocument,
 } from "../services/search-index.js";
-import { crawlWebsite } from "../services/web-scraper.js";
+import { VectorIndex } from "../services/vector-index.js";
+import {
+  isLocalPath,
+  resolveLocalPath,
+  fetchLocalTree,
+  readLocalFileContent,
+} from "../services/local-fetcher.js";
+import {
+  crawlWebsite,
+  type CachedPageValidator,
+  type ScrapedPage,
+  type CrawlStrategy,
+} from "../services/web-scraper.js";
 import { cleanHtml } from "../services/content-cleaner.js";
-import { extractDomain, normalizeUrl } from "../utils/url.js";
+import {
+  findLlmsTxt,
+  findLlmsFullTxt,
+  parseLlmsTxt,
+  fetchLinkedMarkdown,
+  splitLlmsFull,
+  type LlmsTxtLink,
+} from "../services/llms-txt.js";
+import { extractDomain, normalizeUrl, urlToFilename } from "../utils/url.js";
 import { detectGitHubRepo } from "../services/github-detector.js";
 import {
+  CancelledError,
   InvalidUrlError,
   NoContentError,
   ScrapingBlockedError,
   ValidationError,
+  throwIfCancelled,
   wrapError,
 } from "../types/errors.js";
 
+export { parseGitHubUrl } from "../services/github-fetcher.js";
+
 /**
  * Input parameters for index_docs tool.
  */
 export interface IndexDocsInput {
-  /** GitHub repo URL or docs website */
+  /** Repository URL (GitHub, GitLab, Gitea, Bitbucket), docs website, or local path / file:// URL */
   url: string;
-  /** Detection method (default: "github" for now) */
-  type?: "github" | "scrape" | "auto";
+  /** Source type (default: "auto") */
+  type?:
+    | "github"
+    | "gitlab"
+    | "gitea"
+    | "bitbucket"
+    | "scrape"
+    | "llms_txt"
+    | "local"
+    | "auto";
+  /** Branch, tag or commit SHA to index ("latest-release" for the newest release of a repository) */
+  ref?: string;
+  /** API base URL override for repository sources (e.g. GitHub Enterprise "https://ghe.example.com/api/v3") */
+  api_base?: string;
+  /** Raw content base URL override for GitHub sources (e.g. "https://ghe.example.com/raw") */
+  raw_base?: string;
   /** Crawl depth for scraping (not used for GitHub) */
   depth?: number;
-  /** URL patterns to include */
+  /** URL patterns to include when scraping (globs like "/docs/**", or "regex:..." expressions) */
   include_patterns?: string[];
-  /** URL patterns to exclude */
+  /** URL patterns to exclude when scraping (globs like "/blog/**", or "regex:..." expressions) */
   exclude_patterns?: string[];
+  /** How scraping discovers pages: follow links, read sitemaps, or both (default: "links") */
+  crawl_strategy?: CrawlStrategy;
+  /** Maximum parallel requests per host when scraping (default: 4) */
+  concurrency?: number;
+  /** Minimum average delay between requests to a host when scraping, in ms (default: 500) */
+  request_delay_ms?: number;
   /** Ignore cache, re-fetch */
   force_refresh?: boolean;
 }
@@ -50,11 +110,19 @@ export interface IndexDocsOutput {
   /** Unique cache ID for this docs set */
   id: string;
   /** Source type */
-  source: "github" | "scraped";
-  /** Repository in "owner/repo" format (if GitHub) */
+  source: CacheSource;
+  /** Repository in "owner/repo" format (if a repository source) */
   repo?: string;
+  /** Repository host (if a repository source other than github.com) */
+  host?: string;
   /** Base URL (if scraped) */
   base_url?: string;
+  /** Absolute directory path (if local) */
+  local_path?: string;
+  /** Ref the docs were read from (if a repository, or local with a git ref) */
+  ref?: string;
+  /** Commit SHA the docs were read from */
+  commit_sha?: string;
   /** Top-level tree structure */
   tree: DocsTreeNode[];
   /** Indexing statistics */
@@ -62,73 +130,91 @@ export interface IndexDocsOutput {
     pages: number;
     total_size_bytes: number;
     indexed_at: string;
+    /** Whether the full repository listing was indexed (repository sources only) */
+    listing_complete?: boolean;
+    /** Files added/changed/removed/unchanged since the previous index (repository and scraped sources) */
+    changes?: {
+      added: number;
+      changed: number;
+      removed: number;
+      unchanged: number;
+    };
   };
   /** How the source was detected (for auto mode) */
   detection_method?: string;
 }
 
 /**
- * Parses a GitHub URL to extract owner and repo.
- * Supports formats:
- * - https://github.com/owner/repo
- * - https://github.com/owner/repo/tree/branch/path
- * - github.com/owner/repo
+ * Progress of an indexing run.
  */
-export function parseGitHubUrl(url: string): {
-  owner: string;
-  repo: string;
-  branch?: string;
-  path?: string;
-} | null {
-  // Normalize URL
-  let normalized = url.trim();
-  if (!normalized.startsWith("http")) {
-    normalized = "https://" + normalized;
-  }
-
-  try {
-    const parsed = new URL(normalized);
-
-    // Must be github.com
-    if (!parsed.hostname.endsWith("github.com")) {
-      return null;
-    }
-
-    // Parse path: /owner/repo[/tree/branch/path]
-    const pathParts = parsed.pathname.split("/").filter(Boolean);
-
-    if (pathParts.length < 2) {
-      return null;
-    }
+export interface IndexProgress {
+  /** What is being done */
+  phase: "crawling" | "downloading";
+  /** Pages crawled or files processed so far */
+  current: number;
+  /** Total pages or files, if known */
+  total?: number;
+  /** Human-readable status */
+  message: string;
+}
 
-    const owner = pathParts[0];
-    const repo = pathParts[1].replace(/\.git$/, ""); // Remove .git suffix if present
+/**
+ * Run-time options of index_docs (not tool parameters).
+ */
+export interface IndexDocsOptions {
+  /** Cancels indexing, leaving the cache as it was */
+  signal?: AbortSignal;
+  /** Called as pages are crawled or repository files are downloaded */
+  onProgress?: (progress: IndexProgress) => void;
+}
 
-    let branch: string | undefined;
-    let path: string | undefined;
+/**
+ * Generates a cache ID for a repository.
+ * github.com keeps the plain "owner_repo" form (enterprise hosts are
+ * prefixed with the host); other providers are prefixed with the provider
+ * (and host, when not the provider's public instance).
+ * A ref other than the default branch is appended as "@ref" (see
+ * encodeRef) so versions of the same repository are cached side by side.
+ */
+function generateCacheId(location: RepoLocation, ref?: string): string {
+  let parts: string[];
+  if (location.provider === "github") {
+    parts =
+      location.host === "github.com"
+        ? [location.owner, location.repo]
+        : [location.host, location.owner, location.repo];
+  } else {
+    const isPublicHost = [
+      "gitlab.com",
+      "gitea.com",
+      "bitbucket.org",
+    ].includes(location.host);
+    parts = isPublicHost
+      ? [location.provider, location.owner, location.repo]
+      : [location.provider, location.host, location.owner, location.repo];
+  }
 
-    // Check for /tree/branch/path or /blob/branch/path
-    if (
-      pathParts.length > 2 &&
-      (pathParts[2] === "tree" || pathParts[2] === "blob")
-    ) {
-      branch = pathParts[3];
-      if (pathParts.length > 4) {
-        path = pathParts.slice(4).join("/");
-      }
-    }
+  const baseId = parts.join("_").replace(/[^a-zA-Z0-9_-]/g, "_");
+  return ref ? `${baseId}@${encodeRef(ref)}` : baseId;
+}
 
-    return { owner, repo, branch, path };
-  } catch {
-    return null;
-  }
+/**
+ * Generates the cache ID a repository is indexed under once its ref is
+ * resolved. The default branch is cached without a ref suffix.
+ */
+function generateResolvedCacheId(location: RepoLocation, resolved: ResolvedRef): string {
+  return generateCacheId(location, resolved.isDefaultBranch ? undefined : resolved.ref);
 }
 
 /**
- * Generates a cache ID from owner and repo.
+ * Encodes a ref for a cache ID. Characters other than letters, digits,
+ * ".", "_" and "-" become "~" plus their UTF-8 bytes in hex, so distinct
+ * refs never share an ID ("feature/x" -> "feature~2fx").
  */
-function generateCacheId(owner: string, repo: string): string {
-  return `${owner}_${repo}`;
+function encodeRef(ref: string): string {
+  return ref.replace(/[^a-zA-Z0-9._-]/gu, (char) =>
+    Array.from(Buffer.from(char, "utf8"), (byte) => `~${byte.toString(16).padStart(2, "0")}`).join("")
+  );
 }
 
 /**
@@ -152,34 +238,150 @@ function collectFilePaths(nodes: DocsTreeNode[]): string[] {
 }
 
 /**
- * Indexes documentation from a GitHub repository.
+ * Whether indexing builds semantic vector indexes (MCP_DOCS_SEMANTIC_INDEX).
+ * Off by default, as building one takes time and memory on large docs sets.
+ */
+function isSemanticIndexEnabled(): boolean {
+  return ["1", "true"].includes((process.env.MCP_DOCS_SEMANTIC_INDEX || "").toLowerCase());
+}
+
+/**
+ * Stores the full-text search index and, if enabled, the semantic vector
+ * index, which is rebuilt from the sections of the search index, and drops
+ * the old indexes from the in-memory cache. Otherwise an earlier vector
+ * index is removed, as it no longer matches the docs.
+ */
+async function storeSearchIndexes(
+  source: CacheSource,
+  cacheId: string,
+  searchIndex: SearchIndex
+): Promise<void> {
+  await cacheManager.storeSearchIndex(source, cacheId, searchIndex.toJSON());
+
+  if (isSemanticIndexEnabled()) {
+    const vectorIndex = VectorIndex.build(searchIndex.getSectionTexts());
+    await cacheManager.storeVectorIndex(source, cacheId, vectorIndex.toJSON());
+    console.error(`[index_docs] Built semantic index of ${vectorIndex.sectionCount} sections`);
+  } else {
+    await cacheManager.removeVectorIndex(source, cacheId);
+  }
+
+  indexCache.invalidate(cacheId);
+}
+
+/**
+ * Loads the stored search index of a docs set for incremental re-indexing.
+ * Returns null if there is none or it can't be read. Reads from disk rather
+ * than the index cache, as the returned index gets modified.
+ */
+async function loadStoredIndex(
+  source: CacheSource,
+  cacheId: string
+): Promise<SearchIndex | null> {
+  const indexJson = await cacheManager.getSearchIndex(source, cacheId);
+  if (!indexJson) {
+    return null;
+  }
+
+  try {
+    return SearchIndex.fromJSON(indexJson);
+  } catch {
+    // Incompatible or corrupt index - rebuild from scratch
+    return null;
+  }
+}
+
+/**
+ * Loads the stored search index and blob SHAs of a repository docs set,
+ * for incremental re-indexing. Returns null if there is nothing to reuse.
  */
-async function indexFromGitHub(
-  owner: string,
-  repo: string,
+async function loadPreviousIndex(
+  source: CacheSource,
+  cacheId: string
+): Promise<{ fileShas: Record<string, string>; searchIndex: SearchIndex } | null> {
+  const meta = await cacheManager.getMeta(source, cacheId);
+  if (!meta?.file_shas) {
+    return null;
+  }
+
+  const searchIndex = await loadStoredIndex(source, cacheId);
+  return searchIndex ? { fileShas: meta.file_shas, searchIndex } : null;
+}
+
+/**
+ * Loads the page records, search index and crawl time of a scraped docs
+ * set, for revalidating pages on refresh. Returns null if there is nothing
+ * to reuse.
+ */
+async function loadPreviousScrape(
+  cacheId: string
+): Promise<{
+  records: Record<string, ScrapedPageRecord>;
+  searchIndex: SearchIndex;
+  indexedAt?: Date;
+} | null> {
+  const records = await cacheManager.getPageRecords("scraped", cacheId);
+  if (!records) {
+    return null;
+  }
+
+  const searchIndex = await loadStoredIndex("scraped", cacheId);
+  const meta = await cacheManager.getMeta("scraped", cacheId);
+  return searchIndex
+    ? { records, searchIndex, indexedAt: meta ? new Date(meta.indexed_at) : undefined }
+    : null;
+}
+
+/**
+ * Indexes documentation from a repository on any supported provider.
+ * A ref (from options or the URL) selects a branch, tag, commit or the
+ * latest release; without one, the default branch is indexed.
+ */
+async function indexFromRepository(
+  location: RepoLocation,
   options: {
-    branch?: string;
-    path?: string;
+    ref?: string;
     forceRefresh?: boolean;
-  } = {}
+  } & IndexDocsOptions = {}
 ): Promise<IndexDocsOutput> {
-  const cacheId = generateCacheId(owner, repo);
-  const repoString = `${owner}/${repo}`;
+  const provider = getRepoProvider(location.provider);
+  const source: CacheSource = location.provider;
+  const repoString = formatRepo(location);
+  const host = location.host === "github.com" ? undefined : location.host;
+  const requestedRef = options.ref || location.branch;
 
-  // Check if already cached (unless force refresh)
+  // "latest-release" must be resolved to know which version it names
+  let resolved =
+    requestedRef === LATEST_RELEASE_REF
+      ? await provider.resolveRef(location, requestedRef)
+      : undefined;
+
+  // Check if already cached (unless force refresh). The default branch is
+  // cached without a ref suffix, so a ref naming it may be cached there.
   if (!options.forceRefresh) {
-    const existing = await cacheManager.getMeta("github", cacheId);
+    let existing = await cacheManager.getMeta(
+      source,
+      generateCacheId(location, resolved?.ref ?? requestedRef)
+    );
+    if (!existing && requestedRef && !resolved) {
+      const defaultBranch = await cacheManager.getMeta(source, generateCacheId(location));
+      existing = defaultBranch?.ref === requestedRef ? defaultBranch : null;
+    }
     if (existing && !cacheManager.isExpired(existing)) {
       // Return cached data
       return {
         id: existing.id,
-        source: "github",
+        source,
         repo: existing.repo,
+        host: existing.host,
+        ref: existing.ref,
+        commit_sha: existing.commit_sha,
         tree: existing.tree,
         stats: {
           pages: existing.page_count,
           total_size_bytes: existing.total_size_bytes,
           indexed_at: existing.indexed_at,
+          listing_complete: existing.listing_complete,
         },
       };
     }
@@ -188,10 +390,17 @@ async function indexFromGitHub(
   // Initialize cache
   await cacheManager.initialize();
 
+  // Pin the ref to a commit so the tree and file contents match
+  resolved ??= await provider.resolveRef(location, requestedRef);
+  const cacheId = generateResolvedCacheId(location, resolved);
+  console.error(
+    `[index_docs] Indexing ${repoString}@${resolved.ref} (${resolved.commitSha.slice(0, 12)})`
+  );
+
   // Fetch the tree structure
-  const treeResult: FetchTreeResult = await fetchRepoTree(repoString, {
-    branch: options.branch,
-    path: options.path,
+  const treeResult: FetchTreeResult = await provider.fetchTree(location, {
+    branch: resolved.commitSha,
+    path: location.path,
     extensions: [".md", ".mdx", ".markdown"],
     maxDepth: 10,
   });
@@ -199,63 +408,321 @@ async function indexFromGitHub(
   // Collect all file paths to download
   const filePaths = collectFilePaths(treeResult.tree);
 
-  // Download all file contents and build search index
+  // Reuse the previous index of this version, if any, to only fetch changes
+  const previous = await loadPreviousIndex(source, cacheId);
+  const previousShas = previous?.fileShas ?? {};
+  const searchIndex = previous?.searchIndex ?? new SearchIndex();
+  const fileShas: Record<string, string> = {};
+  const changes = { added: 0, changed: 0, removed: 0, unchanged: 0 };
   let totalSize = 0;
-  let downloadedCount = 0;
-  const searchIndex = new SearchIndex();
 
-  for (const filePath of filePaths) {
+  // Downloads are written once all files are fetched, so cancelling
+  // midway leaves the previous cache untouched
+  const pendingWrites: Array<[string, string]> = [];
+
+  /**
+   * Keeps the cached copy of a file that is unchanged (or failed to download).
+   * Returns false if there is no usable cached copy.
+   */
+  const keepCached = async (filePath: string): Promise<boolean> => {
+    if (!searchIndex.hasDocument(filePath)) return false;
+    const cached = await cacheManager.getContent(source, cacheId, filePath);
+    if (cached === null) return false;
+
+    totalSize += Buffer.byteLength(cached, "utf8");
+    if (previousShas[filePath]) {
+      fileShas[filePath] = previousShas[filePath];
+    }
+    return true;
+  };
+
+  for (const [i, filePath] of filePaths.entries()) {
+    throwIfCancelled(options.signal, "Indexing");
+    options.onProgress?.({
+      phase: "downloading",
+      current: i,
+      total: filePaths.length,
+      message: `Fetching ${filePath} (${i + 1}/${filePaths.length})`,
+    });
+
+    const sha = treeResult.fileShas[filePath];
+
+    // Same blob SHA as last time - nothing to download
+    if (sha && sha === previousShas[filePath] && (await keepCached(filePath))) {
+      changes.unchanged++;
+      continue;
+    }
+
     try {
-      const content = await fetchFileContent(
-        repoString,
+      const content = await provider.fetchFileContent(
+        location,
         treeResult.branch,
         filePath
       );
 
+      if (!content) {
+        await keepCached(filePath);
+        continue;
+      }
+
+      const wasIndexed = searchIndex.hasDocument(filePath);
+      const cached = wasIndexed
+        ? await cacheManager.getContent(source, cacheId, filePath)
+        : null;
+      totalSize += content.size;
+      if (sha) {
+        fileShas[filePath] = sha;
+      }
+
+      // Providers without blob SHAs re-download everything; skip identical files
+      if (cached === content.content) {
+        changes.unchanged++;
+        continue;
+      }
+
+      // Store content in cache (after the loop)
+      pendingWrites.push([filePath, content.content]);
+
+      // Add to (or replace in) search index
+      searchIndex.removeDocument(filePath);
+      searchIndex.addDocument(createIndexableDocument(filePath, content.content));
+
+      if (wasIndexed) {
+        changes.changed++;
+      } else {
+        changes.added++;
+      }
+    } catch (error) {
+      // Log but continue - some files might fail; keep the old copy if any
+      console.error(`Failed to download ${filePath}:`, error);
+      await keepCached(filePath);
+    }
+  }
+
+  throwIfCancelled(options.signal, "Indexing");
+  options.onProgress?.({
+    phase: "downloading",
+    current: filePaths.length,
+    total: filePaths.length,
+    message: `Fetched ${filePaths.length} files, saving`,
+  });
+  for (const [filePath, content] of pendingWrites) {
+    await cacheManager.storeContent(source, cacheId, filePath, content);
+  }
+
+  // Drop files that no longer exist. An incomplete listing cannot tell
+  // removed files from unlisted ones, so keep those.
+  const currentPaths = new Set(filePaths);
+  for (const filePath of searchIndex.getDocumentIds()) {
+    if (currentPaths.has(filePath)) continue;
+
+    if (treeResult.complete) {
+      searchIndex.removeDocument(filePath);
+      await cacheManager.removeContent(source, cacheId, filePath);
+      changes.removed++;
+    } else {
+      await keepCached(filePath);
+    }
+  }
+
+  if (previous) {
+    console.error(
+      `[index_docs] Incremental update: ${changes.added} added, ${changes.changed} changed, ${changes.removed} removed, ${changes.unchanged} unchanged`
+    );
+  }
+
+  // Store search indexes
+  await storeSearchIndexes(source, cacheId, searchIndex);
+
+  // Store metadata
+  const indexedAt = new Date().toISOString();
+  await cacheManager.storeMeta({
+    id: cacheId,
+    source,
+    repo: repoString,
+    host,
+    api_base: location.apiBase,
+    raw_base: location.rawBase,
+    ref: resolved.ref,
+    commit_sha: resolved.commitSha,
+    listing_complete: treeResult.complete,
+    file_shas: fileShas,
+    indexed_at: indexedAt,
+    page_count: searchIndex.documentCount,
+    total_size_bytes: totalSize,
+    tree: treeResult.tree,
+  });
+
+  return {
+    id: cacheId,
+    source,
+    repo: repoString,
+    host,
+    ref: resolved.ref,
+    commit_sha: resolved.commitSha,
+    tree: treeResult.tree,
+    stats: {
+      pages: searchIndex.documentCount,
+      total_size_bytes: totalSize,
+      indexed_at: indexedAt,
+      listing_complete: treeResult.complete,
+      changes,
+    },
+  };
+}
+
+/**
+ * Generates a cache ID for a local directory (and optional git ref).
+ * The hash keeps IDs unique for directories that share a name.
+ */
+function generateLocalCacheId(rootPath: string, ref?: string): string {
+  const name = basename(rootPath).replace(/[^a-zA-Z0-9_-]/g, "_") || "root";
+  const hash = createHash("sha1")
+    .update(`${rootPath}#${ref ?? ""}`)
+    .digest("hex")
+    .slice(0, 8);
+  return `local_${name}_${hash}`;
+}
+
+/**
+ * Indexes documentation from a local directory, or from a git ref of a
+ * local repository. Works fully offline.
+ */
+async function indexFromLocal(
+  input: string,
+  options: {
+    ref?: string;
+    forceRefresh?: boolean;
+  } & IndexDocsOptions = {}
+): Promise<IndexDocsOutput> {
+  const rootPath = resolveLocalPath(input);
+  const cacheId = generateLocalCacheId(rootPath, options.ref);
+
+  // Check if already cached (unless force refresh)
+  if (!options.forceRefresh) {
+    const existing = await cacheManager.getMeta("local", cacheId);
+    if (existing && !cacheManager.isExpired(existing)) {
+      // Return cached data
+      return {
+        id: existing.id,
+        source: "local",
+        local_path: existing.local_path,
+        ref: existing.ref,
+        commit_sha: existing.commit_sha,
+        tree: existing.tree,
+        stats: {
+          pages: existing.page_count,
+          total_size_bytes: existing.total_size_bytes,
+          indexed_at: existing.indexed_at,
+        },
+      };
+    }
+  }
+
+  // Initialize cache
+  await cacheManager.initialize();
+  const previous = await cacheManager.getMeta("local", cacheId);
+
+  // List the directory (or git ref)
+  const treeResult = await fetchLocalTree(rootPath, {
+    ref: options.ref,
+    extensions: [".md", ".mdx", ".markdown"],
+    maxDepth: 10,
+  });
+
+  // Collect all file paths to read
+  const filePaths = collectFilePaths(treeResult.tree);
+
+  // Read all file contents and build search index
+  let totalSize = 0;
+  let readCount = 0;
+  const searchIndex = new SearchIndex();
+
+  // Files are written once all are read, so cancelling midway leaves the
+  // previous cache untouched
+  const pendingWrites: Array<[string, string]> = [];
+
+  for (const [i, filePath] of filePaths.entries()) {
+    throwIfCancelled(options.signal, "Indexing");
+    options.onProgress?.({
+      phase: "downloading",
+      current: i,
+      total: filePaths.length,
+      message: `Reading ${filePath} (${i + 1}/${filePaths.length})`,
+    });
+
+    try {
+      const content = await readLocalFileContent(
+        rootPath,
+        filePath,
+        treeResult.commitSha
+      );
+
       if (content) {
-        // Store content in cache
-        await cacheManager.storeContent(
-          "github",
-          cacheId,
-          filePath,
-          content.content
-        );
+        // Store content in cache (after the loop)
+        pendingWrites.push([filePath, content.content]);
         totalSize += content.size;
-        downloadedCount++;
+        readCount++;
 
         // Add to search index
         const indexDoc = createIndexableDocument(filePath, content.content);
         searchIndex.addDocument(indexDoc);
       }
     } catch (error) {
-      // Log but continue - some files might fail
-      console.error(`Failed to download ${filePath}:`, error);
+      // Log but continue - some files might be unreadable
+      console.error(`Failed to read ${filePath}:`, error);
+    }
+  }
+
+  if (readCount === 0) {
+    throw new NoContentError(input);
+  }
+
+  throwIfCancelled(options.signal, "Indexing");
+  options.onProgress?.({
+    phase: "downloading",
+    current: filePaths.length,
+    total: filePaths.length,
+    message: `Read ${filePaths.length} files, saving`,
+  });
+  for (const [filePath, content] of pendingWrites) {
+    await cacheManager.storeContent("local", cacheId, filePath, content);
+  }
+
+  // Drop files of the earlier index that were deleted since
+  const currentPaths = new Set(filePaths);
+  for (const filePath of previous ? collectFilePaths(previous.tree) : []) {
+    if (!currentPaths.has(filePath)) {
+      await cacheManager.removeContent("local", cacheId, filePath);
     }
   }
 
-  // Store search index
-  await cacheManager.storeSearchIndex("github", cacheId, searchIndex.toJSON());
+  // Store search indexes
+  await storeSearchIndexes("local", cacheId, searchIndex);
 
   // Store metadata
   const indexedAt = new Date().toISOString();
   await cacheManager.storeMeta({
     id: cacheId,
-    source: "github",
-    repo: repoString,
-    branch: treeResult.branch,
+    source: "local",
+    local_path: rootPath,
+    ref: treeResult.ref,
+    commit_sha: treeResult.commitSha,
     indexed_at: indexedAt,
-    page_count: downloadedCount,
+    page_count: readCount,
     total_size_bytes: totalSize,
     tree: treeResult.tree,
   });
 
   return {
     id: cacheId,
-    source: "github",
-    repo: repoString,
+    source: "local",
+    local_path: rootPath,
+    ref: treeResult.ref,
+    commit_sha: treeResult.commitSha,
     tree: treeResult.tree,
     stats: {
-      pages: downloadedCount,
+      pages: readCount,
       total_size_bytes: totalSize,
       indexed_at: indexedAt,
     },
@@ -288,7 +755,10 @@ async function indexFromScraping(
     forceRefresh?: boolean;
     includePatterns?: string[];
     excludePatterns?: string[];
-  } = {}
+    strategy?: CrawlStrategy;
+    concurrency?: number;
+    requestDelay?: number;
+  } & IndexDocsOptions = {}
 ): Promise<IndexDocsOutput> {
   const normalizedUrl = normalizeUrl(url);
   const cacheId = generateScrapedCacheId(normalizedUrl);
@@ -315,12 +785,45 @@ async function indexFromScraping(
   // Initialize cache
   await cacheManager.initialize();
 
+  // Pages crawled before are revalidated with conditional requests, or
+  // kept without a request if their sitemap lastmod predates the last crawl.
+  // Pages whose cached content is gone are fetched in full.
+  const previous = await loadPreviousScrape(cacheId);
+  const searchIndex = previous?.searchIndex ?? new SearchIndex();
+  const validators: Record<string, CachedPageValidator> = {};
+  for (const [pageUrl, record] of Object.entries(previous?.records ?? {})) {
+    if (
+      searchIndex.hasDocument(record.filename) &&
+      (await cacheManager.hasContent("scraped", cacheId, record.filename))
+    ) {
+      validators[pageUrl] = {
+        etag: record.etag,
+        lastModified: record.last_modified,
+        links: record.links,
+      };
+    }
+  }
+
   // Crawl the website
   console.error(`[index_docs] Starting crawl of ${normalizedUrl}...`);
   const crawlResult = await crawlWebsite(normalizedUrl, {
+    validators,
+    sitemapModifiedSince: previous?.indexedAt,
     maxDepth: options.depth ?? 2,
     maxPages: 100,
-    requestDelay: 500,
+    requestDelay: options.requestDelay ?? 500,
+    concurrency: options.concurrency,
+    includePatterns: options.includePatterns,
+    excludePatterns: options.excludePatterns,
+    strategy: options.strategy,
+    signal: options.signal,
+    onProgress: (progress) =>
+      options.onProgress?.({
+        phase: "crawling",
+        current: progress.crawled,
+        total: Math.min(progress.discovered, progress.maxPages),
+        message: `Crawled ${progress.crawled} pages (${progress.discovered} discovered): ${progress.url}`,
+      }),
   });
 
   if (crawlResult.pages.length === 0) {
@@ -345,11 +848,56 @@ async function indexFromScraping(
   // Process pages: clean HTML to markdown and store
   let totalSize = 0;
   let processedCount = 0;
-  const searchIndex = new SearchIndex();
   const treeNodes: DocsTreeNode[] = [];
+  const records: Record<string, ScrapedPageRecord> = {};
+  const indexedFiles = new Set<string>();
+  const changes = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+
+  /**
+   * Records a page that ended up in the docs set.
+   */
+  const recordPage = (
+    page: ScrapedPage,
+    size: number
+  ): void => {
+    totalSize += size;
+    processedCount++;
+    indexedFiles.add(page.filename);
+    treeNodes.push({
+      name: page.filename,
+      path: page.filename,
+      type: "file",
+      size_bytes: size,
+    });
+    records[page.normalizedUrl] = {
+      filename: page.filename,
+      etag: page.etag,
+      last_modified: page.lastModified,
+      links: page.links,
+    };
+  };
 
   for (const page of crawlResult.pages) {
     try {
+      // Unchanged page - reuse the cached markdown and index entry
+      if (page.notModified) {
+        const cached = await cacheManager.getContent(
+          "scraped",
+          cacheId,
+          page.filename
+        );
+        if (cached !== null && searchIndex.hasDocument(page.filename)) {
+          recordPage(page, Buffer.byteLength(cached, "utf8"));
+          changes.unchanged++;
+        } else {
+          // Removed while crawling - it has no record now, so the next refresh fetches it in full
+          console.error(
+            `[index_docs] Dropping ${page.filename} - not modified, but its cached content is gone`
+          );
+        }
+        continue;
+      }
+
       // Clean HTML to markdown
       const cleaned = cleanHtml(page.html, {
         baseUrl: page.url,
@@ -378,21 +926,17 @@ async function indexFromScraping(
         markdown
       );
 
-      const size = Buffer.byteLength(markdown, "utf8");
-      totalSize += size;
-      processedCount++;
-
-      // Add to tree
-      treeNodes.push({
-        name: page.filename,
-        path: page.filename,
-        type: "file",
-        size_bytes: size,
-      });
-
-      // Add to search index
+      // Add to (or replace in) search index
+      const wasIndexed = searchIndex.removeDocument(page.filename);
       const indexDoc = createIndexableDocument(page.filename, markdown);
       searchIndex.addDocument(indexDoc);
+
+      recordPage(page, Buffer.byteLength(markdown, "utf8"));
+      if (wasIndexed) {
+        changes.changed++;
+      } else {
+        changes.added++;
+      }
     } catch (error) {
       console.error(`[index_docs] Failed to process ${page.url}:`, error);
     }
@@ -402,11 +946,27 @@ async function indexFromScraping(
     throw new NoContentError(normalizedUrl);
   }
 
+  // Drop pages that were not found (or had too little content) this time
+  for (const filename of searchIndex.getDocumentIds()) {
+    if (!indexedFiles.has(filename)) {
+      searchIndex.removeDocument(filename);
+      await cacheManager.removeContent("scraped", cacheId, filename);
+      changes.removed++;
+    }
+  }
+
+  if (previous) {
+    console.error(
+      `[index_docs] Revalidated crawl: ${changes.added} added, ${changes.changed} changed, ${changes.removed} removed, ${changes.unchanged} not modified`
+    );
+  }
+
   // Sort tree nodes
   treeNodes.sort((a, b) => a.name.localeCompare(b.name));
 
-  // Store search index
-  await cacheManager.storeSearchIndex("scraped", cacheId, searchIndex.toJSON());
+  // Store search indexes and page validators
+  await storeSearchIndexes("scraped", cacheId, searchIndex);
+  await cacheManager.storePageRecords("scraped", cacheId, records);
 
   // Store metadata
   const indexedAt = new Date().toISOString();
@@ -435,24 +995,303 @@ async function indexFromScraping(
       pages: processedCount,
       total_size_bytes: totalSize,
       indexed_at: indexedAt,
+      changes,
     },
   };
 }
 
+/**
+ * Maximum number of llms.txt links to download.
+ */
+const MAX_LLMS_TXT_PAGES = 200;
+
+/**
+ * Number of llms.txt links downloaded in parallel.
+ */
+const LLMS_TXT_CONCURRENCY = 4;
+
+/**
+ * Converts a heading or section name into a path segment.
+ */
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 80) || "section"
+  );
+}
+
+/**
+ * A markdown page collected from llms.txt or llms-full.txt.
+ */
+interface LlmsPage {
+  /** Folder (llms.txt section) the page belongs to, if any */
+  section?: string;
+  /** Cache path */
+  path: string;
+  /** Markdown content */
+  markdown: string;
+}
+
+/**
+ * Downloads the markdown linked from llms.txt, grouped by section.
+ * Throws CancelledError if options.signal is aborted.
+ */
+async function collectLlmsTxtPages(
+  llmsTxtUrl: string,
+  llmsTxt: string,
+  options: IndexDocsOptions = {}
+): Promise<LlmsPage[]> {
+  const doc = parseLlmsTxt(llmsTxt, llmsTxtUrl);
+
+  // Flatten sections, keeping the first occurrence of each URL
+  const seen = new Set<string>();
+  const jobs: Array<{ section: string; link: LlmsTxtLink }> = [];
+  for (const section of doc.sections) {
+    for (const link of section.links) {
+      if (seen.has(link.url) || jobs.length >= MAX_LLMS_TXT_PAGES) continue;
+      seen.add(link.url);
+      jobs.push({ section: section.name, link });
+    }
+  }
+
+  const pages: Array<LlmsPage | null> = new Array(jobs.length).fill(null);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < jobs.length && !options.signal?.aborted) {
+      const index = next++;
+      const { section, link } = jobs[index];
+
+      const content = await fetchLinkedMarkdown(link.url, options.signal);
+      options.onProgress?.({
+        phase: "downloading",
+        current: ++done,
+        total: jobs.length,
+        message: `Fetched ${done}/${jobs.length}: ${link.url}`,
+      });
+      if (options.signal?.aborted) {
+        return;
+      }
+      if (!content || !content.trim()) {
+        console.error(`[index_docs] No markdown available for ${link.url}`);
+        continue;
+      }
+
+      // Add the link title as H1 if the document has none
+      const markdown = /^#\s+/m.test(content)
+        ? content
+        : `# ${link.title}\n\n${content}`;
+
+      pages[index] = {
+        section,
+        path: `${slugify(section)}/${urlToFilename(link.url)}`,
+        markdown,
+      };
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: LLMS_TXT_CONCURRENCY }, () => worker())
+  );
+  throwIfCancelled(options.signal, "Indexing");
+
+  return pages.filter((page): page is LlmsPage => page !== null);
+}
+
+/**
+ * Splits llms-full.txt into one page per top-level heading.
+ */
+function collectLlmsFullPages(llmsFull: string): LlmsPage[] {
+  const usedPaths = new Set<string>();
+
+  return splitLlmsFull(llmsFull).map((page) => {
+    const slug = slugify(page.title);
+    let path = `${slug}.md`;
+    for (let n = 2; usedPaths.has(path); n++) {
+      path = `${slug}-${n}.md`;
+    }
+    usedPaths.add(path);
+
+    return { path, markdown: page.content };
+  });
+}
+
+/**
+ * Indexes documentation published as llms.txt (linked markdown files) or,
+ * if that is unavailable, llms-full.txt. Pages of an earlier index of the
+ * same site (crawled or from llms.txt) are replaced.
+ * Returns null if the site publishes neither.
+ */
+async function indexFromLlmsTxt(
+  url: string,
+  options: { forceRefresh?: boolean } & IndexDocsOptions = {}
+): Promise<IndexDocsOutput | null> {
+  const normalizedUrl = normalizeUrl(url);
+  const cacheId = generateScrapedCacheId(normalizedUrl);
+
+  // Check if already cached (unless force refresh)
+  if (!options.forceRefresh) {
+    const existing = await cacheManager.getMeta("scraped", cacheId);
+    if (existing && !cacheManager.isExpired(existing)) {
+      // Return cached data
+      return {
+        id: existing.id,
+        source: "scraped",
+        base_url: existing.base_url,
+        tree: existing.tree,
+        stats: {
+          pages: existing.page_count,
+          total_size_bytes: existing.total_size_bytes,
+          indexed_at: existing.indexed_at,
+        },
+      };
+    }
+  }
+
+  // Prefer llms.txt (one file per page), then llms-full.txt
+  let pages: LlmsPage[] = [];
+  let detectionMethod = "llms_txt";
+
+  const llmsTxt = await findLlmsTxt(normalizedUrl, options.signal);
+  if (llmsTxt) {
+    console.error(`[index_docs] Found ${llmsTxt.url}, fetching linked markdown...`);
+    pages = await collectLlmsTxtPages(llmsTxt.url, llmsTxt.content, options);
+  }
+
+  if (pages.length === 0) {
+    throwIfCancelled(options.signal, "Indexing");
+    const llmsFull = await findLlmsFullTxt(normalizedUrl, options.signal);
+    if (llmsFull) {
+      console.error(`[index_docs] Found ${llmsFull.url}, splitting into pages...`);
+      pages = collectLlmsFullPages(llmsFull.content);
+      detectionMethod = "llms_full_txt";
+    }
+  }
+
+  throwIfCancelled(options.signal, "Indexing");
+  if (pages.length === 0) {
+    return null;
+  }
+
+  // Initialize cache
+  await cacheManager.initialize();
+  const previous = await cacheManager.getMeta("scraped", cacheId);
+
+  let totalSize = 0;
+  const searchIndex = new SearchIndex();
+  const rootNodes: DocsTreeNode[] = [];
+  const sectionNodes = new Map<string, DocsTreeNode>();
+
+  for (const page of pages) {
+    await cacheManager.storeContent("scraped", cacheId, page.path, page.markdown);
+
+    const size = Buffer.byteLength(page.markdown, "utf8");
+    totalSize += size;
+
+    const fileNode: DocsTreeNode = {
+      name: page.path.split("/").pop()!,
+      path: page.path,
+      type: "file",
+      size_bytes: size,
+    };
+
+    // Group llms.txt pages into one folder per section
+    if (page.section) {
+      const folderPath = page.path.slice(0, page.path.lastIndexOf("/"));
+      let folder = sectionNodes.get(folderPath);
+      if (!folder) {
+        folder = { name: page.section, path: folderPath, type: "folder", children: [] };
+        sectionNodes.set(folderPath, folder);
+        rootNodes.push(folder);
+      }
+      folder.children!.push(fileNode);
+    } else {
+      rootNodes.push(fileNode);
+    }
+
+    searchIndex.addDocument(createIndexableDocument(page.path, page.markdown));
+  }
+
+  // Drop the pages of the earlier index that this one doesn't have
+  const currentPaths = new Set(pages.map((page) => page.path));
+  for (const filePath of previous ? collectFilePaths(previous.tree) : []) {
+    if (!currentPaths.has(filePath)) {
+      await cacheManager.removeContent("scraped", cacheId, filePath);
+    }
+  }
+
+  // Store search indexes. llms.txt pages have no validators, so forget
+  // those of an earlier crawl of the same site.
+  await storeSearchIndexes("scraped", cacheId, searchIndex);
+  await cacheManager.storePageRecords("scraped", cacheId, {});
+
+  // Store metadata
+  const indexedAt = new Date().toISOString();
+  await cacheManager.storeMeta({
+    id: cacheId,
+    source: "scraped",
+    base_url: normalizedUrl,
+    indexed_at: indexedAt,
+    page_count: pages.length,
+    total_size_bytes: totalSize,
+    tree: rootNodes,
+  });
+
+  console.error(
+    `[index_docs] Indexed ${pages.length} pages from ${detectionMethod} (${(
+      totalSize / 1024
+    ).toFixed(1)} KB)`
+  );
+
+  return {
+    id: cacheId,
+    source: "scraped",
+    base_url: normalizedUrl,
+    tree: rootNodes,
+    stats: {
+      pages: pages.length,
+      total_size_bytes: totalSize,
+      indexed_at: indexedAt,
+    },
+    detection_method: detectionMethod,
+  };
+}
+
+/**
+ * Splits a detected "owner/repo" string. GitLab owners may contain
+ * slashes (nested groups), so the repo is the last segment.
+ */
+function splitDetectedRepo(repoString: string): [string, string] {
+  const slash = repoString.lastIndexOf("/");
+  return [repoString.slice(0, slash), repoString.slice(slash + 1)];
+}
+
 /**
  * Main index_docs implementation.
- * Supports GitHub URLs and website scraping.
+ * Supports repository URLs (GitHub, GitLab, Gitea, Bitbucket), llms.txt files,
+ * website scraping and local directories.
  */
 export async function indexDocs(
-  input: IndexDocsInput
+  input: IndexDocsInput,
+  options: IndexDocsOptions = {}
 ): Promise<IndexDocsOutput> {
   const {
     url,
     type = "auto",
+    ref,
+    api_base,
+    raw_base,
     depth,
     force_refresh = false,
     include_patterns,
     exclude_patterns,
+    crawl_strategy,
+    concurrency,
+    request_delay_ms,
   } = input;
 
   // Validate required parameters
@@ -460,23 +1299,25 @@ export async function indexDocs(
     throw new ValidationError("Missing required parameter: url", "url");
   }
 
-  // Parse URL to determine source
-  const githubInfo = parseGitHubUrl(url);
-
-  // Handle explicit type requests
-  if (type === "github") {
-    if (!githubInfo) {
+  // Handle explicit repository provider requests
+  if (
+    type === "github" ||
+    type === "gitlab" ||
+    type === "gitea" ||
+    type === "bitbucket"
+  ) {
+    const location = parseRepositoryUrl(url, type);
+    if (!location) {
       throw new InvalidUrlError(
         url,
-        "Expected GitHub URL format: https://github.com/owner/repo"
+        `Expected ${getRepoProvider(type).name} URL format: https://host/owner/repo`
       );
     }
 
-    return indexFromGitHub(githubInfo.owner, githubInfo.repo, {
-      branch: githubInfo.branch,
-      path: githubInfo.path,
-      forceRefresh: force_refresh,
-    });
+    return indexFromRepository(
+      { ...location, apiBase: api_base, rawBase: raw_base },
+      { ref, forceRefresh: force_refresh, ...options }
+    );
   }
 
   if (type === "scrape") {
@@ -485,69 +1326,210 @@ export async function indexDocs(
       forceRefresh: force_refresh,
       includePatterns: include_patterns,
       excludePatterns: exclude_patterns,
+      strategy: crawl_strategy,
+      concurrency,
+      requestDelay: request_delay_ms,
+      ...options,
     });
   }
 
-  // Auto mode: prefer GitHub if detected, otherwise scrape
+  if (type === "local") {
+    return indexFromLocal(url, { ref, forceRefresh: force_refresh, ...options });
+  }
+
+  if (type === "llms_txt") {
+    const result = await indexFromLlmsTxt(url, { forceRefresh: force_refresh, ...options });
+    if (!result) {
+      throw new NoContentError(url);
+    }
+    return result;
+  }
+
+  // Auto mode: prefer GitHub if detected, then llms.txt, otherwise scrape
   if (type === "auto") {
-    // If URL is already a GitHub URL, use it directly
-    if (githubInfo) {
-      console.error(`[index_docs] Auto-detected: direct GitHub URL`);
-      const result = await indexFromGitHub(githubInfo.owner, githubInfo.repo, {
-        branch: githubInfo.branch,
-        path: githubInfo.path,
-        forceRefresh: force_refresh,
-      });
-      return { ...result, detection_method: "direct_github_url" };
+    // Local paths and file:// URLs are read from disk
+    if (isLocalPath(url)) {
+      console.error(`[index_docs] Auto-detected: local path`);
+      const result = await indexFromLocal(url, { ref, forceRefresh: force_refresh, ...options });
+      return { ...result, detection_method: "local_path" };
+    }
+
+    // If URL is already a repository URL, use it directly
+    const location = parseRepositoryUrl(url);
+    if (location) {
+      console.error(`[index_docs] Auto-detected: direct ${location.provider} URL`);
+      const result = await indexFromRepository(
+        { ...location, apiBase: api_base, rawBase: raw_base },
+        { ref, forceRefresh: force_refresh, ...options }
+      );
+      return { ...result, detection_method: `direct_${location.provider}_url` };
     }
 
-    // Try to detect GitHub repo from the docs site
-    console.error(`[index_docs] Auto-detecting GitHub repo from ${url}...`);
+    // Try to detect the repo from the docs site
+    console.error(`[index_docs] Auto-detecting repository from ${url}...`);
     const detection = await detectGitHubRepo(url);
 
     if (detection.found && detection.repo && detection.confidence !== "low") {
+      const provider: RepoProviderId = detection.provider ?? "github";
       console.error(
-        `[index_docs] Found GitHub repo: ${detection.repo} (${detection.confidence} confidence via ${detection.detection_method})`
+        `[index_docs] Found ${provider} repo: ${detection.repo} (${detection.confidence} confidence via ${detection.detection_method})`
       );
 
       // Parse the detected repo
-      const [owner, repo] = detection.repo.split("/");
+      const [owner, repo] = splitDetectedRepo(detection.repo);
       if (owner && repo) {
         try {
-          const result = await indexFromGitHub(owner, repo, {
-            path: detection.docs_path,
-            forceRefresh: force_refresh,
-          });
+          const result = await indexFromRepository(
+            {
+              provider,
+              host: detection.host ?? "github.com",
+              owner,
+              repo,
+              path: detection.docs_path,
+              apiBase: api_base,
+              rawBase: raw_base,
+            },
+            { ref, forceRefresh: force_refresh, ...options }
+          );
           return {
             ...result,
-            detection_method: `auto_github_${detection.detection_method}`,
+            detection_method: `auto_${provider}_${detection.detection_method}`,
           };
         } catch (error) {
-          // GitHub fetch failed, fall back to scraping
+          if (error instanceof CancelledError) throw error;
+
+          // Repository fetch failed, fall back to llms.txt or scraping
           console.error(
-            `[index_docs] GitHub fetch failed, falling back to scraping:`,
+            `[index_docs] Repository fetch failed, falling back:`,
             error instanceof Error ? error.message : error
           );
         }
       }
     } else {
       console.error(
-        `[index_docs] No GitHub repo detected (${detection.detection_method}), using scraping`
+        `[index_docs] No repository detected (${detection.detection_method})`
       );
     }
 
+    // Try llms.txt / llms-full.txt before crawling
+    throwIfCancelled(options.signal, "Indexing");
+    console.error(`[index_docs] Probing ${url} for llms.txt...`);
+    const llmsResult = await indexFromLlmsTxt(url, { forceRefresh: force_refresh, ...options });
+    if (llmsResult) {
+      return llmsResult;
+    }
+    throwIfCancelled(options.signal, "Indexing");
+
     // Fall back to scraping
     const result = await indexFromScraping(url, {
       depth,
       forceRefresh: force_refresh,
       includePatterns: include_patterns,
       excludePatterns: exclude_patterns,
+      strategy: crawl_strategy,
+      concurrency,
+      requestDelay: request_delay_ms,
+      ...options,
     });
     return { ...result, detection_method: "scraping_fallback" };
   }
 
   // Should not reach here
   throw new Error(
-    `Invalid type: "${type}". Expected "github", "scrape", or "auto".`
+    `Invalid type: "${type}". Expected "github", "gitlab", "gitea", "bitbucket", "scrape", "llms_txt", "local", or "auto".`
+  );
+}
+
+/**
+ * Gets the cache entry ("source/id") an index_docs request will write,
+ * so differently spelled URLs of one source map to the same key. A
+ * repository ref is resolved like indexing does, so a ref naming the
+ * default branch (or "latest-release") gets the key of the entry the run
+ * writes; if that fails, the ref is used as given and indexing will report
+ * the error. Auto mode on a docs site is keyed by the site, as the
+ * repository it may resolve to is only known after detection.
+ */
+async function getCacheKey(input: IndexDocsInput): Promise<string> {
+  const { url, type = "auto", ref, api_base, raw_base } = input;
+
+  try {
+    if (type === "local" || (type === "auto" && isLocalPath(url))) {
+      return `local/${generateLocalCacheId(resolveLocalPath(url), ref)}`;
+    }
+
+    if (type !== "scrape" && type !== "llms_txt") {
+      const parsed = parseRepositoryUrl(url, type === "auto" ? undefined : type);
+      if (parsed) {
+        const location = { ...parsed, apiBase: api_base, rawBase: raw_base };
+        const requestedRef = ref || location.branch;
+        if (!requestedRef) {
+          return `${location.provider}/${generateCacheId(location)}`;
+        }
+
+        const resolved = await getRepoProvider(location.provider)
+          .resolveRef(location, requestedRef)
+          .catch(() => undefined);
+        const cacheId = resolved
+          ? generateResolvedCacheId(location, resolved)
+          : generateCacheId(location, requestedRef);
+        return `${location.provider}/${cacheId}`;
+      }
+    }
+
+    return `scraped/${generateScrapedCacheId(normalizeUrl(url))}`;
+  } catch {
+    // Unparseable input - indexing will report the error
+    return `${type}:${url}`;
+  }
+}
+
+/**
+ * Output from index_docs in async mode.
+ */
+export interface IndexDocsJobOutput {
+  /** ID to query with get_index_job */
+  job_id: string;
+  /** Job status when returned */
+  status: IndexJobStatus;
+  /** What to do next */
+  message: string;
+}
+
+/**
+ * Starts indexing in the background and returns the job ID at once.
+ * If the same source is already being indexed, returns that job.
+ *
+ * @param onComplete Called with the result when the job completes
+ */
+export async function startIndexJob(
+  input: IndexDocsInput,
+  onComplete?: (result: IndexDocsOutput) => void
+): Promise<IndexDocsJobOutput> {
+  if (!input.url) {
+    throw new ValidationError("Missing required parameter: url", "url");
+  }
+
+  const key = await getCacheKey(input);
+  const { job, started } = jobManager.start(
+    {
+      url: input.url,
+      type: input.type,
+      ref: input.ref,
+      force_refresh: input.force_refresh,
+    },
+    key,
+    async (signal, onProgress) => {
+      const result = await indexDocs(input, { signal, onProgress });
+      onComplete?.(result);
+      return { docs_id: result.id, source: result.source, pages: result.stats.pages };
+    }
   );
+
+  return {
+    job_id: job.job_id,
+    status: job.status,
+    message: started
+      ? "Indexing started. Poll get_index_job with this job_id until status is \"completed\", then use its docs_id."
+      : "This source is already being indexed; returning the running job. Poll get_index_job with this job_id.",
+  };
 }
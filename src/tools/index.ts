@@ -2,7 +2,13 @@
  * Tool registry - exports all tool implementations.
  */
 
-export { listCachedDocs, type ListCachedDocsOutput } from "./list-cached.js";
+export {
+  listCachedDocs,
+  type ListCachedDocsInput,
+  type ListCachedDocsOutput,
+  type CachedDocsEntry,
+  type CachedDocsGroup,
+} from "./list-cached.js";
 export {
   clearCache,
   type ClearCacheInput,
@@ -13,7 +19,26 @@ export {
   parseGitHubUrl,
   type IndexDocsInput,
   type IndexDocsOutput,
+  type IndexDocsOptions,
+  type IndexProgress,
+  startIndexJob,
+  type IndexDocsJobOutput,
 } from "./index-docs.js";
+export {
+  getIndexJob,
+  type GetIndexJobInput,
+  type GetIndexJobOutput,
+} from "./get-index-job.js";
+export {
+  listIndexJobs,
+  type ListIndexJobsInput,
+  type ListIndexJobsOutput,
+} from "./list-index-jobs.js";
+export {
+  cancelIndexJob,
+  type CancelIndexJobInput,
+  type CancelIndexJobOutput,
+} from "./cancel-index-job.js";
 export {
   getDocsTree,
   type GetDocsTreeInput,
@@ -24,12 +49,21 @@ export {
   type GetDocsContentInput,
   type GetDocsContentOutput,
   type FileContent,
+  type ContentRange,
+  type SelectedSection,
 } from "./get-content.js";
 export {
   searchDocs,
   type SearchDocsInput,
   type SearchDocsOutput,
+  type DocsSearchResult,
+  type SearchMode,
 } from "./search-docs.js";
+export {
+  searchCode,
+  type SearchCodeInput,
+  type SearchCodeOutput,
+} from "./search-code.js";
 export {
   detectGitHub,
   type DetectGitHubInput,
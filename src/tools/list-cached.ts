@@ -1,36 +1,101 @@
+import type { CacheSource } from "../types/cache.js";
 import { cacheManager } from "../services/cache-manager.js";
 
+/**
+ * Input for list_cached_docs tool.
+ */
+export interface ListCachedDocsInput {
+  /** Also group versions (refs) of the same source together */
+  group_versions?: boolean;
+}
+
+/**
+ * A single cached docs set as listed by list_cached_docs.
+ */
+export interface CachedDocsEntry {
+  id: string;
+  source: CacheSource;
+  repo?: string;
+  host?: string;
+  base_url?: string;
+  local_path?: string;
+  ref?: string;
+  commit_sha?: string;
+  indexed_at: string;
+  page_count: number;
+  total_size_bytes: number;
+}
+
+/**
+ * Cached versions of one repository, site or directory.
+ */
+export interface CachedDocsGroup {
+  /** Source type */
+  source: CacheSource;
+  /** Repository, base URL or local path shared by all versions */
+  name: string;
+  /** Repository host (if not github.com) */
+  host?: string;
+  /** Versions, most recently indexed first */
+  versions: CachedDocsEntry[];
+}
+
 /**
  * Output type for list_cached_docs tool.
  */
 export interface ListCachedDocsOutput {
-  docs: Array<{
-    id: string;
-    source: "github" | "scraped";
-    repo?: string;
-    base_url?: string;
-    indexed_at: string;
-    page_count: number;
-    total_size_bytes: number;
-  }>;
+  docs: CachedDocsEntry[];
+  /** Present when group_versions is set */
+  groups?: CachedDocsGroup[];
+}
+
+/**
+ * Groups cached entries by the repository, site or directory they came from.
+ */
+function groupVersions(docs: CachedDocsEntry[]): CachedDocsGroup[] {
+  const groups = new Map<string, CachedDocsGroup>();
+
+  for (const entry of docs) {
+    const name = entry.repo ?? entry.base_url ?? entry.local_path ?? entry.id;
+    const key = `${entry.source}:${entry.host ?? ""}:${name}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { source: entry.source, name, host: entry.host, versions: [] };
+      groups.set(key, group);
+    }
+    group.versions.push(entry);
+  }
+
+  for (const group of groups.values()) {
+    group.versions.sort((a, b) => b.indexed_at.localeCompare(a.indexed_at));
+  }
+
+  return Array.from(groups.values());
 }
 
 /**
  * Lists all documentation sets in the local cache.
  */
-export async function listCachedDocs(): Promise<ListCachedDocsOutput> {
+export async function listCachedDocs(
+  input: ListCachedDocsInput = {}
+): Promise<ListCachedDocsOutput> {
   await cacheManager.initialize();
   const entries = await cacheManager.listEntries();
 
-  return {
-    docs: entries.map((entry) => ({
-      id: entry.id,
-      source: entry.source,
-      repo: entry.repo,
-      base_url: entry.base_url,
-      indexed_at: entry.indexed_at,
-      page_count: entry.page_count,
-      total_size_bytes: entry.total_size_bytes,
-    })),
-  };
+  const docs = entries.map((entry) => ({
+    id: entry.id,
+    source: entry.source,
+    repo: entry.repo,
+    host: entry.host,
+    base_url: entry.base_url,
+    local_path: entry.local_path,
+    ref: entry.ref,
+    commit_sha: entry.commit_sha,
+    indexed_at: entry.indexed_at,
+    page_count: entry.page_count,
+    total_size_bytes: entry.total_size_bytes,
+  }));
+
+  return input.group_versions ? { docs, groups: groupVersions(docs) } : { docs };
 }
@@ -0,0 +1,53 @@
+/**
+ * list_index_jobs tool - Lists background indexing jobs.
+ */
+
+import type { IndexJob, IndexJobStatus } from "../types/cache.js";
+import { jobManager } from "../services/job-manager.js";
+import { ValidationError } from "../types/errors.js";
+
+/**
+ * Input parameters for list_index_jobs tool.
+ */
+export interface ListIndexJobsInput {
+  /** Only jobs with this status */
+  status?: IndexJobStatus;
+  /** Maximum number of jobs to return (default: 20, max: 100) */
+  limit?: number;
+}
+
+/**
+ * Output from list_index_jobs tool.
+ */
+export interface ListIndexJobsOutput {
+  /** Jobs, newest first */
+  jobs: IndexJob[];
+  /** Number of matching jobs (may exceed jobs.length) */
+  total: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const JOB_STATUSES: IndexJobStatus[] = ["running", "completed", "failed", "cancelled"];
+
+/**
+ * Lists background indexing jobs, newest first.
+ */
+export async function listIndexJobs(input: ListIndexJobsInput = {}): Promise<ListIndexJobsOutput> {
+  const { status, limit = DEFAULT_LIMIT } = input;
+
+  if (status !== undefined && !JOB_STATUSES.includes(status)) {
+    throw new ValidationError(
+      `Invalid status: "${status}". Expected one of: ${JOB_STATUSES.join(", ")}`,
+      "status"
+    );
+  }
+
+  const jobs = await jobManager.list(status);
+
+  return {
+    jobs: jobs.slice(0, Math.min(Math.max(limit, 1), MAX_LIMIT)),
+    total: jobs.length,
+  };
+}
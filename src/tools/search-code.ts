@@ -0,0 +1,89 @@
+/**
+ * search_code tool - Searches the code blocks of cached documentation.
+ */
+
+import { cacheManager } from "../services/cache-manager.js";
+import { indexCache } from "../services/index-cache.js";
+import type { CodeSearchResult } from "../services/search-index.js";
+import { parseQuery, type ParsedQuery } from "../services/query-parser.js";
+import { CacheNotFoundError, ValidationError } from "../types/errors.js";
+
+/**
+ * Input for the search_code tool.
+ */
+export interface SearchCodeInput {
+  /** The docs ID from index_docs response */
+  docs_id: string;
+  /** Search query: identifiers (e.g. "useEffect", "z.object") or words */
+  query: string;
+  /** Max code blocks to return (default: 10) */
+  limit?: number;
+  /** Only return code blocks with this language tag (e.g. "ts") */
+  language?: string;
+  /** Only search files under this path (e.g. "docs/api/") */
+  path_prefix?: string;
+}
+
+/**
+ * Output for the search_code tool.
+ */
+export interface SearchCodeOutput {
+  /** The docs ID that was searched */
+  docs_id: string;
+  /** The query that was executed */
+  query: string;
+  /** How the query was read */
+  parsed_query: ParsedQuery;
+  /** Matching code blocks */
+  results: CodeSearchResult[];
+}
+
+/**
+ * Default limit for code search results.
+ */
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Maximum allowed limit for code search results.
+ */
+const MAX_LIMIT = 30;
+
+/**
+ * Searches code blocks within cached documentation.
+ */
+export async function searchCode(input: SearchCodeInput): Promise<SearchCodeOutput> {
+  const { docs_id, query, limit = DEFAULT_LIMIT, language, path_prefix } = input;
+
+  // Validate required parameters
+  if (!docs_id) {
+    throw new ValidationError("Missing required parameter: docs_id", "docs_id");
+  }
+
+  if (!query || typeof query !== "string") {
+    throw new ValidationError("Missing required parameter: query", "query");
+  }
+
+  // Validate limit
+  const effectiveLimit = Math.min(Math.max(1, limit), MAX_LIMIT);
+
+  const meta = await cacheManager.findById(docs_id);
+  if (!meta) {
+    throw new CacheNotFoundError(docs_id);
+  }
+
+  const parsedQuery = parseQuery(query);
+  const searchIndex = await indexCache.getSearchIndex(meta);
+  const results = searchIndex.searchCode(
+    parsedQuery,
+    effectiveLimit,
+    { pathPrefix: path_prefix },
+    language
+  );
+
+  return {
+    docs_id,
+    query,
+    parsed_query: parsedQuery,
+    results,
+  };
+}
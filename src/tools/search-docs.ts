@@ -1,33 +1,91 @@
 /**
  * search_docs tool - Full-text search within cached documentation.
+ *
+ * Searches one docs set, or several (a list of IDs or every cached set) with
+ * results merged by a score normalized within each set. Keyword search uses the full-text
+ * index; semantic search the vector index; hybrid fuses both rankings.
+ * Docs sets indexed without a vector index are searched by keyword.
  */
 
+import type { CacheMeta, CacheSource } from "../types/cache.js";
 import { cacheManager } from "../services/cache-manager.js";
-import { SearchIndex, type SearchResult } from "../services/search-index.js";
+import { indexCache } from "../services/index-cache.js";
+import type { SearchFilters, SearchResult } from "../services/search-index.js";
+import { fuseRankings } from "../services/vector-index.js";
+import {
+  getPositiveText,
+  parseQuery,
+  type ParsedQuery,
+} from "../services/query-parser.js";
 import { CacheNotFoundError, ValidationError, DocsError } from "../types/errors.js";
 
+/**
+ * How search_docs ranks sections.
+ */
+export type SearchMode = "keyword" | "semantic" | "hybrid";
+
 /**
  * Input for the search_docs tool.
  */
 export interface SearchDocsInput {
   /** The docs ID from index_docs response */
-  docs_id: string;
-  /** Search query */
+  docs_id?: string;
+  /** Search several docs sets at once */
+  docs_ids?: string[];
+  /** Search every cached docs set */
+  all?: boolean;
+  /** Search query (supports "phrases", +required, -excluded, field:term, AND/OR) */
   query: string;
   /** Max results to return (default: 10) */
   limit?: number;
+  /** Keyword, semantic or hybrid ranking (default: "keyword") */
+  mode?: SearchMode;
+  /** Fuzzy matching override (true/false, or max edit distance as a fraction of term length) */
+  fuzzy?: number | boolean;
+  /** Prefix matching override (default: true) */
+  prefix?: boolean;
+  /** Only search files under this path (e.g. "docs/api/") */
+  path_prefix?: string;
+  /** Only search files matching one of these globs (e.g. "docs/api/**") */
+  include_paths?: string[];
+  /** Skip files matching any of these globs (e.g. "CHANGELOG*") */
+  exclude_paths?: string[];
+  /** Skip results scoring below this */
+  min_score?: number;
+}
+
+/**
+ * Search result, labeled with its docs set in cross-docs searches.
+ */
+export interface DocsSearchResult extends SearchResult {
+  /** Docs set the hit came from (cross-docs search only) */
+  docs_id?: string;
+  /** Source of that docs set (cross-docs search only) */
+  source?: CacheSource;
+  /** Score relative to the best hit of the same docs set, 0-1 (cross-docs search only) */
+  normalized_score?: number;
 }
 
 /**
  * Output for the search_docs tool.
  */
 export interface SearchDocsOutput {
-  /** The docs ID that was searched */
-  docs_id: string;
+  /** The docs ID that was searched (single docs set) */
+  docs_id?: string;
+  /** The docs IDs that were searched (cross-docs search) */
+  docs_ids?: string[];
   /** The query that was executed */
   query: string;
-  /** Search results with snippets */
-  results: SearchResult[];
+  /** How sections were ranked */
+  mode: SearchMode;
+  /** How the query was read */
+  parsed_query: ParsedQuery;
+  /** Matching sections with snippets */
+  results: DocsSearchResult[];
+  /** Docs sets that could not be searched (cross-docs search) */
+  skipped?: Array<{ docs_id: string; reason: string }>;
+  /** Docs sets searched by keyword, as they have no semantic index */
+  keyword_fallback?: string[];
 }
 
 /**
@@ -40,62 +98,229 @@ const DEFAULT_LIMIT = 10;
  */
 const MAX_LIMIT = 50;
 
+/**
+ * Smallest number of candidates taken from each ranking in hybrid mode.
+ */
+const MIN_FUSION_POOL = 30;
+
+/**
+ * Valid search modes.
+ */
+const SEARCH_MODES: readonly SearchMode[] = ["keyword", "semantic", "hybrid"];
+
+/**
+ * Searches one docs set in the given mode. A docs set without a semantic
+ * index is searched by keyword; the returned mode is the one used.
+ */
+async function searchOne(
+  meta: CacheMeta,
+  query: ParsedQuery,
+  mode: SearchMode,
+  limit: number,
+  filters: SearchFilters
+): Promise<{ results: SearchResult[]; mode: SearchMode }> {
+  const searchIndex = await indexCache.getSearchIndex(meta);
+  const vectorIndex =
+    mode === "keyword"
+      ? null
+      : await indexCache.getVectorIndex(meta).catch((error) => {
+          if (error instanceof DocsError && error.code === "CACHE_NOT_FOUND") return null;
+          throw error;
+        });
+  if (!vectorIndex) {
+    return { results: searchIndex.search(query, limit, filters), mode: "keyword" };
+  }
+
+  const similarities = vectorIndex.search(getPositiveText(query));
+  if (mode === "semantic") {
+    return { results: searchIndex.rankSections(similarities, query, limit, filters), mode };
+  }
+
+  // Hybrid: fuse the top of both rankings; min_score applies to the fused score
+  const { minScore, ...candidateFilters } = filters;
+  const pool = Math.max(limit * 3, MIN_FUSION_POOL);
+  const results = fuseRankings(
+    [
+      searchIndex.search(query, pool, candidateFilters),
+      searchIndex.rankSections(similarities, query, pool, candidateFilters),
+    ],
+    limit,
+    minScore
+  );
+  return { results, mode };
+}
+
+/**
+ * Searches several docs sets and merges the results. Scores of different
+ * sets come from different indexes and are not comparable, so each hit's
+ * normalized_score is its score divided by the best score of its own set:
+ * 1 for the best match of every set, lower for the set's weaker matches.
+ * Results are ordered by normalized_score; equal ones by raw score.
+ */
+async function searchAcross(
+  metas: CacheMeta[],
+  query: ParsedQuery,
+  mode: SearchMode,
+  limit: number,
+  filters: SearchFilters
+): Promise<{
+  results: DocsSearchResult[];
+  skipped: Array<{ docs_id: string; reason: string }>;
+  keywordFallback: string[];
+}> {
+  const results: DocsSearchResult[] = [];
+  const skipped: Array<{ docs_id: string; reason: string }> = [];
+  const keywordFallback: string[] = [];
+
+  for (const meta of metas) {
+    let hits: SearchResult[];
+    try {
+      const searched = await searchOne(meta, query, mode, limit, filters);
+      hits = searched.results;
+      if (searched.mode !== mode) keywordFallback.push(meta.id);
+    } catch (error) {
+      const reason =
+        error instanceof DocsError ? error.userMessage : String(error);
+      skipped.push({ docs_id: meta.id, reason });
+      continue;
+    }
+
+    const topScore = Math.max(...hits.map((hit) => hit.score)) || 1;
+    for (const hit of hits) {
+      results.push({
+        ...hit,
+        docs_id: meta.id,
+        source: meta.source,
+        normalized_score: hit.score / topScore,
+      });
+    }
+  }
+
+  results.sort(
+    (a, b) => b.normalized_score! - a.normalized_score! || b.score - a.score
+  );
+
+  return { results: results.slice(0, limit), skipped, keywordFallback };
+}
+
 /**
  * Searches within cached documentation using full-text search.
  */
 export async function searchDocs(
   input: SearchDocsInput
 ): Promise<SearchDocsOutput> {
-  const { docs_id, query, limit = DEFAULT_LIMIT } = input;
+  const {
+    docs_id,
+    docs_ids,
+    all,
+    query,
+    limit = DEFAULT_LIMIT,
+    mode = "keyword",
+    fuzzy,
+    prefix,
+    path_prefix,
+    include_paths,
+    exclude_paths,
+    min_score,
+  } = input;
 
   // Validate required parameters
-  if (!docs_id) {
-    throw new ValidationError("Missing required parameter: docs_id", "docs_id");
+  if (docs_id !== undefined && (typeof docs_id !== "string" || !docs_id.trim())) {
+    throw new ValidationError("docs_id must be a non-empty docs ID", "docs_id");
+  }
+  const targets = [docs_id !== undefined, docs_ids !== undefined, !!all].filter(Boolean);
+  if (targets.length === 0) {
+    throw new ValidationError(
+      "Missing required parameter: docs_id (or docs_ids, or all: true)",
+      "docs_id"
+    );
+  }
+  if (targets.length > 1) {
+    throw new ValidationError("Use only one of docs_id, docs_ids or all", "docs_id");
+  }
+  if (docs_ids !== undefined && (!Array.isArray(docs_ids) || docs_ids.length === 0)) {
+    throw new ValidationError("docs_ids must be a non-empty array of docs IDs", "docs_ids");
   }
 
   if (!query || typeof query !== "string") {
     throw new ValidationError("Missing required parameter: query", "query");
   }
 
+  if (!SEARCH_MODES.includes(mode)) {
+    throw new ValidationError(
+      `Invalid mode: "${mode}". Expected "keyword", "semantic" or "hybrid"`,
+      "mode"
+    );
+  }
+
+  if (typeof fuzzy === "number" && (fuzzy < 0 || fuzzy > 1)) {
+    throw new ValidationError("fuzzy must be between 0 and 1 (or true/false)", "fuzzy");
+  }
+
   // Validate limit
   const effectiveLimit = Math.min(Math.max(1, limit), MAX_LIMIT);
 
+  const parsedQuery = parseQuery(query, { fuzzy, prefix });
+  const filters: SearchFilters = {
+    pathPrefix: path_prefix,
+    includePaths: include_paths,
+    excludePaths: exclude_paths,
+    minScore: min_score,
+  };
+
+  // Cross-docs search
+  if (docs_id === undefined) {
+    const metas: CacheMeta[] = [];
+    if (all) {
+      await cacheManager.initialize();
+      for (const entry of await cacheManager.listEntries()) {
+        const meta = await cacheManager.getMeta(entry.source, entry.id);
+        if (meta) metas.push(meta);
+      }
+    } else {
+      for (const id of docs_ids!) {
+        const meta = await cacheManager.findById(id);
+        if (!meta) {
+          throw new CacheNotFoundError(id);
+        }
+        metas.push(meta);
+      }
+    }
+
+    const { results, skipped, keywordFallback } = await searchAcross(
+      metas,
+      parsedQuery,
+      mode,
+      effectiveLimit,
+      filters
+    );
+
+    return {
+      docs_ids: metas.map((meta) => meta.id),
+      query,
+      mode,
+      parsed_query: parsedQuery,
+      results,
+      ...(skipped.length > 0 && { skipped }),
+      ...(keywordFallback.length > 0 && { keyword_fallback: keywordFallback }),
+    };
+  }
+
   // Find the cached docs entry to determine source type
   const meta = await cacheManager.findById(docs_id);
   if (!meta) {
     throw new CacheNotFoundError(docs_id);
   }
 
-  // Load the search index
-  const indexJson = await cacheManager.getSearchIndex(meta.source, docs_id);
-  if (!indexJson) {
-    throw new DocsError("CACHE_NOT_FOUND", `Search index not found for "${docs_id}"`, {
-      userMessage: `Search index not found for "${docs_id}". Please re-index the documentation.`,
-      suggestions: ["Run index_docs with force_refresh: true to rebuild the search index"],
-      context: { docs_id },
-    });
-  }
-
-  // Parse and search
-  let searchIndex: SearchIndex;
-  try {
-    searchIndex = SearchIndex.fromJSON(indexJson);
-  } catch (error) {
-    throw new DocsError("PARSE_ERROR", "Failed to load search index", {
-      userMessage: "Search index is corrupted. Please re-index the documentation.",
-      suggestions: ["Run index_docs with force_refresh: true to rebuild the search index"],
-      context: { docs_id },
-      cause: error instanceof Error ? error : undefined,
-    });
-  }
-
   // Perform the search
-  const results = searchIndex.search(query, effectiveLimit);
+  const searched = await searchOne(meta, parsedQuery, mode, effectiveLimit, filters);
 
   return {
     docs_id,
     query,
-    results,
+    mode,
+    parsed_query: parsedQuery,
+    results: searched.results,
+    ...(searched.mode !== mode && { keyword_fallback: [meta.id] }),
   };
 }
-
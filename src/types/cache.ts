@@ -1,3 +1,5 @@
+import type { DocsErrorCode } from "./errors.js";
+
 /**
  * Represents a node in the documentation tree structure.
  */
@@ -10,10 +12,23 @@ export interface DocsTreeNode {
   type: "file" | "folder";
   /** File size in bytes (for files only) */
   size_bytes?: number;
+  /** Estimated tokens (for files with a known size; added by get_docs_tree) */
+  estimated_tokens?: number;
   /** Child nodes (for folders only) */
   children?: DocsTreeNode[];
 }
 
+/**
+ * Where a cached documentation set came from.
+ */
+export type CacheSource =
+  | "github"
+  | "gitlab"
+  | "gitea"
+  | "bitbucket"
+  | "scraped"
+  | "local";
+
 /**
  * Metadata stored for each cached documentation set.
  */
@@ -21,13 +36,31 @@ export interface CacheMeta {
   /** Unique identifier for this docs set */
   id: string;
   /** Source type */
-  source: "github" | "scraped";
+  source: CacheSource;
 
-  // For GitHub sources
+  // For repository sources (GitHub, GitLab, Gitea, Bitbucket)
   /** Repository in "owner/repo" format */
   repo?: string;
-  /** Branch name */
-  branch?: string;
+  /** Repository host, e.g. "gitlab.com" or a self-hosted instance */
+  host?: string;
+  /** API base URL override used when indexing (e.g. GitHub Enterprise) */
+  api_base?: string;
+  /** Raw content base URL override used when indexing (GitHub only) */
+  raw_base?: string;
+
+  // For repository sources and local git repositories
+  /** Ref the files were read from (branch, tag or commit; working tree if absent for local) */
+  ref?: string;
+  /** Commit SHA the ref resolved to */
+  commit_sha?: string;
+  /** Whether the repository file listing was complete when indexed */
+  listing_complete?: boolean;
+  /** Blob SHA per indexed file path, for incremental re-indexing */
+  file_shas?: Record<string, string>;
+
+  // For local sources
+  /** Absolute path of the indexed directory */
+  local_path?: string;
 
   // For scraped sources
   /** Base URL of the scraped documentation */
@@ -47,16 +80,94 @@ export interface CacheMeta {
   tree: DocsTreeNode[];
 }
 
+/**
+ * HTTP validators and links recorded for a scraped page, so it can be
+ * revalidated with a conditional request on refresh.
+ */
+export interface ScrapedPageRecord {
+  /** Content file the page is cached as */
+  filename: string;
+  /** ETag response header */
+  etag?: string;
+  /** Last-Modified response header */
+  last_modified?: string;
+  /** Links found on the page, so crawling can continue past unchanged pages */
+  links: string[];
+}
+
 /**
  * Summary information about a cached docs entry (for listing).
  */
 export interface CacheEntrySummary {
   id: string;
-  source: "github" | "scraped";
+  source: CacheSource;
   repo?: string;
+  host?: string;
   base_url?: string;
+  local_path?: string;
+  ref?: string;
+  commit_sha?: string;
   indexed_at: string;
   page_count: number;
   total_size_bytes: number;
 }
 
+/**
+ * State of a background indexing job.
+ */
+export type IndexJobStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * What a background indexing job is doing: "starting" until the first
+ * progress report, then "crawling" or "downloading", then "finished".
+ */
+export type IndexJobPhase = "starting" | "crawling" | "downloading" | "finished";
+
+/**
+ * The index_docs request a job runs.
+ */
+export interface IndexJobRequest {
+  url: string;
+  type?: string;
+  ref?: string;
+  force_refresh?: boolean;
+}
+
+/**
+ * A background index_docs run, stored in the jobs directory of the cache.
+ */
+export interface IndexJob {
+  /** Unique job ID */
+  job_id: string;
+  status: IndexJobStatus;
+  phase: IndexJobPhase;
+  /** What is being indexed */
+  request: IndexJobRequest;
+  /** Pages crawled or files processed so far */
+  progress: {
+    current: number;
+    /** Total pages or files, if known */
+    total?: number;
+    message: string;
+  };
+  /** Docs ID of the indexed docs (when completed) */
+  docs_id?: string;
+  /** Source type of the indexed docs (when completed) */
+  source?: CacheSource;
+  /** Number of pages/files indexed (when completed) */
+  pages?: number;
+  /** Why the job failed or was cancelled */
+  error?: {
+    code: DocsErrorCode;
+    message: string;
+    suggestions?: string[];
+  };
+  /** ISO timestamp when the job was started */
+  created_at: string;
+  /** ISO timestamp of the last change */
+  updated_at: string;
+  /** ISO timestamp when the job ended */
+  finished_at?: string;
+  /** Server process running the job */
+  pid: number;
+}
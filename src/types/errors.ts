@@ -12,12 +12,19 @@ export type DocsErrorCode =
   | "GITHUB_RATE_LIMIT"
   | "GITHUB_NOT_FOUND"
   | "GITHUB_ACCESS_DENIED"
+  | "REPO_NOT_FOUND"
+  | "REPO_ACCESS_DENIED"
+  | "REF_NOT_FOUND"
   | "CACHE_NOT_FOUND"
+  | "JOB_NOT_FOUND"
+  | "LOCAL_PATH_NOT_FOUND"
+  | "GIT_ERROR"
   | "SCRAPING_BLOCKED"
   | "NO_CONTENT"
   | "NETWORK_ERROR"
   | "PARSE_ERROR"
   | "VALIDATION_ERROR"
+  | "CANCELLED"
   | "UNKNOWN_ERROR";
 
 /**
@@ -87,12 +94,12 @@ export class InvalidUrlError extends DocsError {
  * Error for GitHub rate limit exceeded.
  */
 export class GitHubRateLimitError extends DocsError {
-  constructor(resetTime?: Date) {
+  constructor(resetTime?: Date, host: string = "github.com") {
     const resetIn = resetTime
       ? Math.ceil((resetTime.getTime() - Date.now()) / 60000)
       : undefined;
 
-    super("GITHUB_RATE_LIMIT", "GitHub API rate limit exceeded", {
+    super("GITHUB_RATE_LIMIT", `GitHub API rate limit exceeded (${host})`, {
       userMessage: resetIn
         ? `GitHub API rate limit reached. Try again in ${resetIn} minutes or use scraping fallback.`
         : "GitHub API rate limit reached. Try again later or use scraping fallback.",
@@ -101,7 +108,7 @@ export class GitHubRateLimitError extends DocsError {
         "Set GITHUB_TOKEN environment variable for higher rate limits (5000/hour)",
         "Wait for the rate limit to reset",
       ],
-      context: { resetTime: resetTime?.toISOString(), resetInMinutes: resetIn },
+      context: { host, resetTime: resetTime?.toISOString(), resetInMinutes: resetIn },
     });
   }
 }
@@ -140,6 +147,65 @@ export class GitHubAccessDeniedError extends DocsError {
   }
 }
 
+/**
+ * Environment variables holding access tokens for non-GitHub providers.
+ */
+const PROVIDER_TOKEN_ENV: Record<string, string> = {
+  gitlab: "GITLAB_TOKEN",
+  gitea: "GITEA_TOKEN",
+  bitbucket: "BITBUCKET_TOKEN",
+};
+
+/**
+ * Error for a repository not found on GitLab, Gitea or Bitbucket.
+ */
+export class RepoNotFoundError extends DocsError {
+  constructor(provider: string, host: string, repo: string) {
+    super("REPO_NOT_FOUND", `Repository not found on ${host}: ${repo}`, {
+      userMessage: `Repository "${repo}" not found on ${host}.`,
+      suggestions: [
+        "Check if the repository name is spelled correctly",
+        "Verify the repository exists and is public",
+        `Set ${PROVIDER_TOKEN_ENV[provider] ?? "an access token"} if the repository is private`,
+      ],
+      context: { provider, host, repo },
+    });
+  }
+}
+
+/**
+ * Error for access denied to a repository on GitLab, Gitea or Bitbucket.
+ */
+export class RepoAccessDeniedError extends DocsError {
+  constructor(provider: string, host: string, repo: string) {
+    super("REPO_ACCESS_DENIED", `Access denied to repository on ${host}: ${repo}`, {
+      userMessage: `Cannot access repository "${repo}" on ${host}. It may be private or restricted.`,
+      suggestions: [
+        `Set ${PROVIDER_TOKEN_ENV[provider] ?? "an access token"} with read access to the repository`,
+        'Use type: "scrape" if documentation is available on a public website',
+      ],
+      context: { provider, host, repo },
+    });
+  }
+}
+
+/**
+ * Error for a branch, tag, commit or release that does not exist in a repository.
+ */
+export class RefNotFoundError extends DocsError {
+  constructor(repo: string, ref: string) {
+    super("REF_NOT_FOUND", `Ref not found in ${repo}: ${ref}`, {
+      userMessage: `Could not find "${ref}" in repository "${repo}".`,
+      suggestions: [
+        "Check that the branch, tag or commit SHA exists",
+        'Use ref: "latest-release" only for repositories that publish releases',
+        "Omit ref to index the default branch",
+      ],
+      context: { repo, ref },
+    });
+  }
+}
+
 /**
  * Error for cache entry not found.
  */
@@ -157,6 +223,56 @@ export class CacheNotFoundError extends DocsError {
   }
 }
 
+/**
+ * Error for a background indexing job that does not exist.
+ */
+export class JobNotFoundError extends DocsError {
+  constructor(jobId: string) {
+    super("JOB_NOT_FOUND", `Indexing job not found: ${jobId}`, {
+      userMessage: `Indexing job "${jobId}" not found.`,
+      suggestions: [
+        "Use list_index_jobs to see recent jobs",
+        "Finished jobs are removed after 7 days",
+      ],
+      context: { jobId },
+    });
+  }
+}
+
+/**
+ * Error for a local docs directory that does not exist.
+ */
+export class LocalPathNotFoundError extends DocsError {
+  constructor(path: string) {
+    super("LOCAL_PATH_NOT_FOUND", `Local path not found: ${path}`, {
+      userMessage: `Directory "${path}" does not exist or is not a directory.`,
+      suggestions: [
+        "Use an absolute path or a file:// URL",
+        "Check that the directory exists on the machine running the server",
+      ],
+      context: { path },
+    });
+  }
+}
+
+/**
+ * Error for failed git commands on a local repository.
+ */
+export class GitCommandError extends DocsError {
+  constructor(path: string, reason: string, cause?: Error) {
+    super("GIT_ERROR", `Git command failed in ${path}: ${reason}`, {
+      userMessage: `Could not read the git repository at "${path}": ${reason}`,
+      suggestions: [
+        "Check that the directory is inside a git repository",
+        "Verify the ref (branch, tag or commit SHA) exists locally",
+        "Ensure git is installed and on the PATH",
+      ],
+      context: { path, reason },
+      cause,
+    });
+  }
+}
+
 /**
  * Error for scraping blocked.
  */
@@ -222,6 +338,28 @@ export class ValidationError extends DocsError {
   }
 }
 
+/**
+ * Error for operations cancelled by the client.
+ */
+export class CancelledError extends DocsError {
+  constructor(operation: string) {
+    super("CANCELLED", `${operation} was cancelled`, {
+      userMessage: `${operation} was cancelled. The cache was left as it was before.`,
+      suggestions: ["Run the operation again to complete it"],
+      context: { operation },
+    });
+  }
+}
+
+/**
+ * Throws a CancelledError if the signal has been aborted.
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted) {
+    throw new CancelledError(operation);
+  }
+}
+
 /**
  * Wraps an unknown error in a DocsError.
  */
@@ -241,21 +379,26 @@ export function wrapError(error: unknown, context?: string): DocsError {
 }
 
 /**
- * Creates a structured error response for MCP tools.
+ * Creates a structured error response for MCP tools: the DocsError fields
+ * as JSON text and as structuredContent. Every tool's outputSchema admits
+ * an error in place of a result (see toolOutput in schemas.ts).
  */
 export function createErrorResponse(error: unknown): {
   content: Array<{ type: "text"; text: string }>;
+  structuredContent: Record<string, unknown>;
   isError: true;
 } {
   const docsError = error instanceof DocsError ? error : wrapError(error);
+  const structured = docsError.toJSON();
 
   return {
     content: [
       {
         type: "text",
-        text: JSON.stringify(docsError.toJSON(), null, 2),
+        text: JSON.stringify(structured, null, 2),
       },
     ],
+    structuredContent: structured,
     isError: true,
   };
 }
@@ -4,8 +4,14 @@
 
 export type {
   DocsTreeNode,
+  CacheSource,
   CacheMeta,
   CacheEntrySummary,
+  ScrapedPageRecord,
+  IndexJob,
+  IndexJobPhase,
+  IndexJobRequest,
+  IndexJobStatus,
 } from "./cache.js";
 
 export {
@@ -14,11 +20,19 @@ export {
   GitHubRateLimitError,
   GitHubNotFoundError,
   GitHubAccessDeniedError,
+  RepoNotFoundError,
+  RepoAccessDeniedError,
+  RefNotFoundError,
   CacheNotFoundError,
+  JobNotFoundError,
+  LocalPathNotFoundError,
+  GitCommandError,
   ScrapingBlockedError,
   NoContentError,
   NetworkError,
   ValidationError,
+  CancelledError,
+  throwIfCancelled,
   wrapError,
   createErrorResponse,
   type DocsErrorCode,
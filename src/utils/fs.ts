@@ -101,6 +101,22 @@ export async function listDirectories(dirPath: string): Promise<string[]> {
   }
 }
 
+/**
+ * Lists the files in a directory (not recursive).
+ * Returns empty array if directory doesn't exist.
+ */
+export async function listFiles(dirPath: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dirPath, { withFileTypes: true });
+    return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
 /**
  * Checks if a path exists.
  */
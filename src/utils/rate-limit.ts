@@ -1,5 +1,9 @@
 /**
- * Rate limit tracker for GitHub API.
+ * Rate limiting utilities.
+ *
+ * - RateLimitTracker: tracks GitHub API quota from response headers, one
+ *   tracker per host (github.com and each GitHub Enterprise Server)
+ * - HostThrottle: per-host token bucket with adaptive backoff for crawling
  */
 
 export interface RateLimitInfo {
@@ -104,8 +108,187 @@ export class RateLimitTracker {
 }
 
 /**
- * Default rate limit tracker instance for GitHub API.
+ * Rate limit trackers by GitHub host. github.com and each GitHub Enterprise
+ * Server instance have independent quotas.
  */
-export const githubRateLimit = new RateLimitTracker();
+const githubRateLimits = new Map<string, RateLimitTracker>();
 
+/**
+ * Gets the rate limit tracker for a GitHub host, creating it on first use.
+ *
+ * @param host GitHub hostname (e.g. "github.com" or "github.example.com")
+ * @returns The tracker for that host
+ */
+export function getGitHubRateLimit(host: string): RateLimitTracker {
+  const key = host.toLowerCase();
+  let tracker = githubRateLimits.get(key);
+  if (!tracker) {
+    tracker = new RateLimitTracker();
+    githubRateLimits.set(key, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Default rate limit tracker instance for the github.com API.
+ */
+export const githubRateLimit = getGitHubRateLimit("github.com");
+
+/**
+ * Options for the per-host throttle.
+ */
+export interface HostThrottleOptions {
+  /** Minimum average interval between requests to one host in ms */
+  intervalMs: number;
+  /** Maximum number of requests that may start back-to-back (bucket size) */
+  burst: number;
+  /** Upper bound for the interval after backoff (default: 30000) */
+  maxIntervalMs?: number;
+}
+
+/**
+ * Token bucket state for a single host.
+ */
+interface HostBucket {
+  tokens: number;
+  lastRefill: number;
+  intervalMs: number;
+  pausedUntil: number;
+}
+
+/**
+ * Per-host token bucket rate limiter.
+ *
+ * Each host gets a bucket of `burst` tokens refilled at one token per
+ * `intervalMs`. When a host signals overload (429/503), it is paused until
+ * its Retry-After time and its interval is doubled for the rest of the crawl.
+ */
+export class HostThrottle {
+  private readonly buckets = new Map<string, HostBucket>();
+  private readonly options: Required<HostThrottleOptions>;
+
+  constructor(options: HostThrottleOptions) {
+    this.options = {
+      maxIntervalMs: 30000,
+      ...options,
+      burst: Math.max(1, options.burst),
+    };
+  }
+
+  /**
+   * Gets (or creates) the bucket for a host.
+   */
+  private getBucket(host: string): HostBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = {
+        tokens: this.options.burst,
+        lastRefill: Date.now(),
+        intervalMs: this.options.intervalMs,
+        pausedUntil: 0,
+      };
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Waits until a request to the host may start, then consumes a token.
+   * Returns early without a token if the signal is aborted.
+   */
+  async acquire(host: string, signal?: AbortSignal): Promise<void> {
+    const bucket = this.getBucket(host);
+
+    for (;;) {
+      if (signal?.aborted) {
+        return;
+      }
+      const now = Date.now();
 
+      if (bucket.pausedUntil > now) {
+        await sleep(bucket.pausedUntil - now, signal);
+        continue;
+      }
+
+      // Refill tokens for the time elapsed since the last refill
+      if (bucket.intervalMs <= 0) {
+        bucket.tokens = this.options.burst;
+      } else {
+        const refill = (now - bucket.lastRefill) / bucket.intervalMs;
+        bucket.tokens = Math.min(this.options.burst, bucket.tokens + refill);
+      }
+      bucket.lastRefill = now;
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return;
+      }
+
+      await sleep((1 - bucket.tokens) * bucket.intervalMs, signal);
+    }
+  }
+
+  /**
+   * Backs off after the host reported overload.
+   *
+   * @param host The host that responded with 429/503
+   * @param retryAfterMs Delay requested by the server, if any
+   * @returns The time in ms until the host will be contacted again
+   */
+  backoff(host: string, retryAfterMs?: number): number {
+    const bucket = this.getBucket(host);
+
+    bucket.intervalMs = Math.min(
+      this.options.maxIntervalMs,
+      Math.max(bucket.intervalMs * 2, 1000)
+    );
+    bucket.tokens = 0;
+
+    const waitMs = retryAfterMs ?? bucket.intervalMs;
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + waitMs);
+
+    return waitMs;
+  }
+
+  /**
+   * Gets the current request interval for a host in ms.
+   */
+  getIntervalMs(host: string): number {
+    return this.getBucket(host).intervalMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header value (delta seconds or HTTP date) into ms.
+ * Returns undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value?.trim()) return undefined;
+
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Delays execution for a specified time, or until the signal is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
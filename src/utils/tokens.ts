@@ -0,0 +1,32 @@
+/**
+ * Token estimation utilities.
+ *
+ * Uses the common ~4 characters per token approximation, which is close
+ * enough for context budgeting without a model-specific tokenizer.
+ */
+
+/**
+ * Average characters per token for English prose and markdown.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the number of tokens in a text.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the number of tokens in a file of the given size.
+ */
+export function estimateTokensFromBytes(bytes: number): number {
+  return Math.ceil(bytes / CHARS_PER_TOKEN);
+}
+
+/**
+ * Gets the approximate number of characters that fit in a token budget.
+ */
+export function tokensToChars(tokens: number): number {
+  return Math.max(1, Math.floor(tokens * CHARS_PER_TOKEN));
+}
@@ -4,6 +4,8 @@
  * Provides URL normalization, domain extraction, and link filtering.
  */
 
+import { ValidationError } from "../types/errors.js";
+
 /**
  * Tracking parameters to remove from URLs.
  */
@@ -96,6 +98,24 @@ export function isSameDomain(url1: string, url2: string): boolean {
   return normalize(domain1) === normalize(domain2);
 }
 
+/**
+ * Checks if a URL is at or below the path of a base URL.
+ * A root base path ("/") contains every URL on the same domain.
+ *
+ * @param url The URL to check
+ * @param baseUrl The URL whose path acts as the prefix
+ * @returns True if url's pathname equals or is nested under baseUrl's pathname
+ */
+export function isUnderPath(url: string, baseUrl: string): boolean {
+  try {
+    const path = new URL(url).pathname.replace(/\/+$/, "");
+    const basePath = new URL(baseUrl).pathname.replace(/\/+$/, "");
+    return !basePath || path === basePath || path.startsWith(basePath + "/");
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Resolves a potentially relative URL against a base URL.
  *
@@ -117,6 +137,205 @@ export function resolveUrl(href: string, baseUrl: string): string | null {
   }
 }
 
+/**
+ * A compiled include/exclude URL pattern.
+ */
+export interface UrlPattern {
+  /** The pattern as provided by the caller */
+  source: string;
+  /** Compiled matcher */
+  regex: RegExp;
+  /** Whether to test against the full URL (true) or only the pathname */
+  matchFullUrl: boolean;
+}
+
+/**
+ * Include/exclude filters applied to discovered URLs.
+ */
+export interface UrlFilters {
+  include: UrlPattern[];
+  exclude: UrlPattern[];
+}
+
+/**
+ * Converts a glob pattern to a regular expression source.
+ * `**` matches across path segments, `*` within one segment, `?` a single
+ * character. A trailing `/**` also matches the directory itself, and a
+ * `**` segment between two others may also match no segment at all.
+ */
+function globToRegexSource(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        i++;
+        source += ".*";
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "/" && glob.slice(i + 1) === "**") {
+      source += "(?:/.*)?";
+      break;
+    } else if (char === "/" && glob.startsWith("**/", i + 1)) {
+      source += "(?:/.*)?";
+      i += 2;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return `^${source}$`;
+}
+
+/**
+ * Compiles a glob matched against a relative file path (e.g. `docs/api/**`).
+ * Globs without a slash match a file name at any depth (e.g. `CHANGELOG*`).
+ */
+export function compilePathGlob(glob: string): RegExp {
+  const normalized = glob.replace(/^\.?\/+/, "");
+  const source = globToRegexSource(normalized);
+  return new RegExp(normalized.includes("/") ? source : `^(?:.*/)?${source.slice(1)}`);
+}
+
+/**
+ * Prefix marking a pattern as a regular expression instead of a glob.
+ */
+const REGEX_PATTERN_PREFIX = "regex:";
+
+/**
+ * Longest regular expression accepted in a URL pattern.
+ */
+const MAX_REGEX_PATTERN_LENGTH = 200;
+
+/**
+ * Matches a quantified group that contains a quantifier, like `(a+)+` or
+ * `(\w*)*`, which can take exponential time to fail a match.
+ */
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,)/;
+
+/**
+ * Compiles a URL pattern.
+ *
+ * Patterns prefixed with `regex:` (e.g. `regex:/v\d+/`) are regular
+ * expressions tested against the full URL. They come from the caller, so
+ * they are limited to MAX_REGEX_PATTERN_LENGTH characters and may not nest
+ * quantifiers, which could stall the crawl (ReDoS).
+ *
+ * Everything else is a glob: globs containing `://` match the full URL,
+ * other globs match the URL pathname (e.g. `/docs/**`, `/blog/*`). Globs
+ * starting with `*` and without a slash match the last path segment at any
+ * depth (e.g. `*.pdf`).
+ *
+ * @param pattern The pattern to compile
+ * @returns Compiled pattern
+ * @throws ValidationError if a regex pattern is invalid or too complex
+ */
+export function compileUrlPattern(pattern: string): UrlPattern {
+  if (pattern.startsWith(REGEX_PATTERN_PREFIX)) {
+    const source = pattern.slice(REGEX_PATTERN_PREFIX.length);
+    if (source.length > MAX_REGEX_PATTERN_LENGTH) {
+      throw new ValidationError(
+        `Regular expression pattern is longer than ${MAX_REGEX_PATTERN_LENGTH} characters: ${pattern.slice(0, 50)}...`,
+        "patterns"
+      );
+    }
+    if (NESTED_QUANTIFIER.test(source)) {
+      throw new ValidationError(
+        `Regular expression pattern has nested quantifiers, which can be very slow: ${pattern}`,
+        "patterns"
+      );
+    }
+    try {
+      return {
+        source: pattern,
+        regex: new RegExp(source),
+        matchFullUrl: true,
+      };
+    } catch {
+      throw new ValidationError(`Invalid regular expression pattern: ${pattern}`, "patterns");
+    }
+  }
+
+  const matchFullUrl = pattern.includes("://");
+  if (!matchFullUrl && pattern.startsWith("*") && !pattern.includes("/")) {
+    return {
+      source: pattern,
+      regex: new RegExp(`^(?:.*/)?${globToRegexSource(pattern).slice(1)}`),
+      matchFullUrl,
+    };
+  }
+
+  const glob = matchFullUrl || pattern.startsWith("/") ? pattern : `/${pattern}`;
+
+  return {
+    source: pattern,
+    regex: new RegExp(globToRegexSource(glob)),
+    matchFullUrl,
+  };
+}
+
+/**
+ * Compiles include and exclude pattern lists.
+ */
+export function compileUrlFilters(
+  includePatterns: string[] = [],
+  excludePatterns: string[] = []
+): UrlFilters {
+  return {
+    include: includePatterns.map(compileUrlPattern),
+    exclude: excludePatterns.map(compileUrlPattern),
+  };
+}
+
+/**
+ * Checks a URL against include/exclude filters.
+ *
+ * Exclude patterns win over include patterns. When include patterns are
+ * given, a URL must match at least one of them.
+ *
+ * @param url The URL to check
+ * @param filters Compiled filters
+ * @returns Object with isAllowed boolean and reason naming the pattern if rejected
+ */
+export function matchUrlFilters(
+  url: string,
+  filters: UrlFilters
+): { isAllowed: boolean; reason?: string } {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return { isAllowed: false, reason: "invalid URL" };
+  }
+
+  const test = (pattern: UrlPattern) =>
+    pattern.regex.test(pattern.matchFullUrl ? url : pathname);
+
+  const excludedBy = filters.exclude.find(test);
+  if (excludedBy) {
+    return {
+      isAllowed: false,
+      reason: `matched exclude pattern "${excludedBy.source}"`,
+    };
+  }
+
+  if (filters.include.length > 0 && !filters.include.some(test)) {
+    return {
+      isAllowed: false,
+      reason: `no include pattern matched (${filters.include
+        .map((p) => `"${p.source}"`)
+        .join(", ")})`,
+    };
+  }
+
+  return { isAllowed: true };
+}
+
 /**
  * Checks if a URL should be crawled based on various criteria.
  *